@@ -18,7 +18,7 @@ export default createSchema({
 
       type Mutation {
         generateSimulation(input: SimulationGenerationInput!): SimulationGenerationResult!
-        invokeSimulation(uuid: String!): SimulationInvocationResult!
+        invokeSimulation(uuid: String!, metricsPort: Int): SimulationInvocationResult!
       }
 
       input SimulationGenerationInput {
@@ -65,6 +65,7 @@ export default createSchema({
         message: String!
         uuid: String
         status: SimulationStatus
+        metricsUrl: String
         error: String
       }
     `,
@@ -136,7 +137,7 @@ export default createSchema({
                     }
                 }
             },
-            invokeSimulation: async (_, { uuid }) => {
+            invokeSimulation: async (_, { uuid, metricsPort }) => {
                 try {
                     // Find the simulation by UUID
                     const simulation = simulationRegistry.getSimulation(uuid);
@@ -166,8 +167,11 @@ export default createSchema({
                     simulationRegistry.updateSimulationStatus(uuid, 'running');
 
                     // Execute the simulation (run bun run dev in the simulation directory)
+                    // The generated simulation serves Prometheus metrics on this port
+                    const env = metricsPort ? { ...process.env, SIM_METRICS_PORT: String(metricsPort) } : process.env;
                     const child = spawn('bun', ['run', 'dev'], {
                         cwd: simulation.simulationPath,
+                        env,
                         detached: true,
                         stdio: 'ignore'
                     });
@@ -194,6 +198,7 @@ export default createSchema({
                         message: `Simulation "${simulation.name}" started successfully`,
                         uuid,
                         status: 'RUNNING',
+                        metricsUrl: metricsPort ? `http://127.0.0.1:${metricsPort}/metrics` : null,
                         error: null
                     };
 
@@ -5,17 +5,18 @@
 import {
   BaseStateMachine,
   SimulationEngine,
-  Event,
   EventGenerator,
+  EventPriority,
+  definePayloadSchemas,
+  z,
   StateMachineConfig,
-  nextId,
-  nowISO,
   pick,
   rand,
   clamp01,
   daysFromNow,
   startRealtimeFeed
 } from '@sim-generator/lib';
+import type { EventOfType, SchemaEvent } from '@sim-generator/lib';
 
 // ---------- Legal Domain Types ----------
 
@@ -34,6 +35,12 @@ export enum LegalPhase {
   Complete = 'Complete'
 }
 
+/**
+ * Compound state grouping the substantive work phases. Edges declared on it
+ * are shared by Analysis, Strategy and Drafting.
+ */
+export const CASEWORK = 'Casework';
+
 export enum LegalEventType {
   EmailReceived = 'email_received',
   DocUploaded = 'doc_uploaded',
@@ -46,7 +53,22 @@ export enum LegalEventType {
   CalendarUpdate = 'calendar_update'
 }
 
-export interface LegalEvent extends Event<LegalEventType, any> {}
+// Payload of each event type, checked whenever an event is queued or processed
+export const LEGAL_PAYLOAD_SCHEMAS = definePayloadSchemas({
+  [LegalEventType.EmailReceived]: z.object({ from: z.string(), subject: z.string(), body: z.string() }),
+  [LegalEventType.DocUploaded]: z.object({ name: z.string(), uri: z.string(), summary: z.string().optional() }),
+  [LegalEventType.HearingSet]: z.object({ dateISO: z.string().datetime(), courtroom: z.string() }),
+  [LegalEventType.OppositionMotion]: z.object({ rule: z.string(), relief: z.string() }),
+  [LegalEventType.ClientCall]: z.object({ notes: z.string() }),
+  [LegalEventType.CourtNotice]: z.object({ message: z.string(), daysToRespond: z.number().int().positive() }),
+  [LegalEventType.PaymentIssue]: z.object({}),
+  [LegalEventType.ConflictFlag]: z.object({}),
+  [LegalEventType.CalendarUpdate]: z.object({ label: z.string(), deltaDays: z.number().int() })
+});
+
+export type LegalEvent = SchemaEvent<typeof LEGAL_PAYLOAD_SCHEMAS>;
+
+export type LegalEventOf<T extends LegalEventType> = EventOfType<LegalEvent, T>;
 
 export interface ClientFile {
   matterId: string;
@@ -118,32 +140,26 @@ export interface LegalReviewState {
 
 // ---------- Legal State Machine ----------
 
-export class LegalReviewStateMachine extends BaseStateMachine<LegalPhase, LegalEvent> {
-  private state: LegalReviewState;
-
-  constructor(config: { file?: Partial<ClientFile> }) {
+export class LegalReviewStateMachine extends BaseStateMachine<LegalPhase, LegalEvent, LegalReviewState> {
+  constructor(config: { file?: Partial<ClientFile>; recordSteps?: boolean }) {
     const allowedTransitions: Record<string, string[]> = {
       [LegalPhase.Initial]: [LegalPhase.ConflictsCheck, LegalPhase.FileIntake],
       [LegalPhase.ConflictsCheck]: [LegalPhase.FileIntake, LegalPhase.Waiting],
       [LegalPhase.FileIntake]: [LegalPhase.IssueSpotting, LegalPhase.Research],
       [LegalPhase.IssueSpotting]: [LegalPhase.Research, LegalPhase.Analysis],
       [LegalPhase.Research]: [LegalPhase.Analysis, LegalPhase.Strategy],
-      [LegalPhase.Analysis]: [LegalPhase.Strategy, LegalPhase.Drafting, LegalPhase.ClientComms],
-      [LegalPhase.Strategy]: [LegalPhase.Drafting, LegalPhase.ClientComms, LegalPhase.Review],
-      [LegalPhase.Drafting]: [LegalPhase.ClientComms, LegalPhase.Review, LegalPhase.Waiting],
+      [CASEWORK]: [LegalPhase.ClientComms],
+      [LegalPhase.Analysis]: [LegalPhase.Strategy, LegalPhase.Drafting],
+      [LegalPhase.Strategy]: [LegalPhase.Drafting, LegalPhase.Review],
+      [LegalPhase.Drafting]: [LegalPhase.Review, LegalPhase.Waiting],
       [LegalPhase.ClientComms]: [LegalPhase.Analysis, LegalPhase.Strategy, LegalPhase.Review, LegalPhase.Waiting],
       [LegalPhase.Waiting]: [LegalPhase.ClientComms, LegalPhase.Review, LegalPhase.Drafting],
       [LegalPhase.Review]: [LegalPhase.Complete, LegalPhase.ClientComms, LegalPhase.Drafting],
       [LegalPhase.Complete]: []
     };
 
-    super({
-      initialState: LegalPhase.Initial,
-      allowedTransitions,
-      enableLogging: false
-    });
-
-    this.state = {
+    // Domain state lives in extended state so that snapshots capture it
+    const extendedState: LegalReviewState = {
       file: {
         matterId: config.file?.matterId ?? "MAT-0001",
         clientName: config.file?.clientName ?? "Acme Widgets, LLC",
@@ -164,10 +180,25 @@ export class LegalReviewStateMachine extends BaseStateMachine<LegalPhase, LegalE
         compliance: 0.05
       }
     };
+
+    super({
+      initialState: LegalPhase.Initial,
+      allowedTransitions,
+      states: {
+        [CASEWORK]: { initial: LegalPhase.Analysis },
+        [LegalPhase.Analysis]: { parent: CASEWORK },
+        [LegalPhase.Strategy]: { parent: CASEWORK },
+        [LegalPhase.Drafting]: { parent: CASEWORK }
+      },
+      extendedState,
+      recordSteps: config.recordSteps,
+      payloadSchemas: LEGAL_PAYLOAD_SCHEMAS,
+      enableLogging: false
+    });
   }
 
   protected handleEvent(event: LegalEvent): void {
-    this.state.events.push(event);
+    this.extendedState.events.push(event);
     this.processLegalEvent(event);
     this.deriveIssuesFromFacts();
     this.updateRisk();
@@ -205,7 +236,7 @@ export class LegalReviewStateMachine extends BaseStateMachine<LegalPhase, LegalE
     }
   }
 
-  private handleEmailReceived(event: LegalEvent): void {
+  private handleEmailReceived(event: LegalEventOf<LegalEventType.EmailReceived>): void {
     const { from, subject, body } = event.payload;
     this.addFact(`Email from ${from}: ${subject}`, "client_email", 0.7);
     if (/question|clarify|unknown/i.test(body ?? "")) {
@@ -216,7 +247,7 @@ export class LegalReviewStateMachine extends BaseStateMachine<LegalPhase, LegalE
     this.decayRisk(0.995);
   }
 
-  private handleDocUploaded(event: LegalEvent): void {
+  private handleDocUploaded(event: LegalEventOf<LegalEventType.DocUploaded>): void {
     const { name, uri, summary } = event.payload;
     this.addEvidence("document", `Uploaded: ${name}`, uri ?? null);
     this.addFact(`New document uploaded: ${name}`, `document:${name}`, 0.8);
@@ -224,15 +255,15 @@ export class LegalReviewStateMachine extends BaseStateMachine<LegalPhase, LegalE
     this.transition(LegalPhase.IssueSpotting);
   }
 
-  private handleHearingSet(event: LegalEvent): void {
+  private handleHearingSet(event: LegalEventOf<LegalEventType.HearingSet>): void {
     const { dateISO, courtroom } = event.payload;
-    this.addDeadline(`Hearing (${courtroom ?? "TBD"})`, dateISO ?? daysFromNow(14), true);
+    this.addDeadline(`Hearing (${courtroom ?? "TBD"})`, dateISO ?? daysFromNow(14, this.context.clock), true);
     this.addTask("Prepare hearing outline & exhibits list", "drafting", 7);
     this.bumpRisk("deadline", 0.25);
     this.transition(LegalPhase.Strategy);
   }
 
-  private handleOppositionMotion(event: LegalEvent): void {
+  private handleOppositionMotion(event: LegalEventOf<LegalEventType.OppositionMotion>): void {
     const { rule, relief } = event.payload;
     this.addIssue(`Opposition motion (${rule ?? "Rule ?"})`, `Seeks ${relief ?? "unspecified relief"}`, 5);
     this.addTask("Research opposition's motion & draft response", "research", 3);
@@ -240,7 +271,7 @@ export class LegalReviewStateMachine extends BaseStateMachine<LegalPhase, LegalE
     this.transition(LegalPhase.Research);
   }
 
-  private handleClientCall(event: LegalEvent): void {
+  private handleClientCall(event: LegalEventOf<LegalEventType.ClientCall>): void {
     const { notes } = event.payload;
     this.addFact(`Client call notes: ${notes}`, "client_call", 0.75);
     this.addTask("Send summary of call & action items", "client", 1);
@@ -248,27 +279,27 @@ export class LegalReviewStateMachine extends BaseStateMachine<LegalPhase, LegalE
     this.transition(LegalPhase.Analysis);
   }
 
-  private handleCourtNotice(event: LegalEvent): void {
+  private handleCourtNotice(event: LegalEventOf<LegalEventType.CourtNotice>): void {
     const { message, daysToRespond } = event.payload;
     this.addFact(`Court notice: ${message}`, "court_notice", 0.9);
-    this.addDeadline("Respond to court notice", daysFromNow(Math.max(1, daysToRespond ?? 7)), true);
+    this.addDeadline("Respond to court notice", daysFromNow(Math.max(1, daysToRespond ?? 7), this.context.clock), true);
     this.addTask("Draft response to court notice", "drafting", Math.max(1, (daysToRespond ?? 7) - 1));
     this.bumpRisk("deadline", 0.2);
     this.transition(LegalPhase.Drafting);
   }
 
-  private handlePaymentIssue(event: LegalEvent): void {
+  private handlePaymentIssue(event: LegalEventOf<LegalEventType.PaymentIssue>): void {
     this.addIssue("Billing / payment risk", "Payment irregularity flagged.", 3);
     this.bumpRisk("compliance", 0.05);
   }
 
-  private handleConflictFlag(event: LegalEvent): void {
+  private handleConflictFlag(event: LegalEventOf<LegalEventType.ConflictFlag>): void {
     this.addIssue("Potential conflict of interest", "Conflict flag raised. Verify.", 5);
     this.addTask("Run full conflicts check", "other", 1);
     this.transition(LegalPhase.ConflictsCheck);
   }
 
-  private handleCalendarUpdate(event: LegalEvent): void {
+  private handleCalendarUpdate(event: LegalEventOf<LegalEventType.CalendarUpdate>): void {
     const { label, deltaDays } = event.payload;
     this.addFact(`Calendar update: ${label} shifted by ${deltaDays}d`, "calendar", 0.8);
     this.bumpRisk("deadline", deltaDays < 0 ? 0.1 : -0.05);
@@ -276,18 +307,18 @@ export class LegalReviewStateMachine extends BaseStateMachine<LegalPhase, LegalE
 
   // Helper methods for managing state
   private addFact(text: string, source: string, confidence = 0.6): void {
-    this.state.facts.push({
-      id: nextId("fact"),
+    this.extendedState.facts.push({
+      id: this.context.ids.next("fact"),
       text,
       source,
       confidence,
-      timestamp: nowISO()
+      timestamp: this.context.clock.nowISO()
     });
   }
 
   private addIssue(label: string, description = "", priority = 3): void {
-    this.state.issues.push({
-      id: nextId("issue"),
+    this.extendedState.issues.push({
+      id: this.context.ids.next("issue"),
       label,
       description,
       priority,
@@ -296,20 +327,20 @@ export class LegalReviewStateMachine extends BaseStateMachine<LegalPhase, LegalE
   }
 
   private addTask(title: string, domain: string, dueDays?: number, notes?: string): void {
-    this.state.tasks.push({
-      id: nextId("task"),
+    this.extendedState.tasks.push({
+      id: this.context.ids.next("task"),
       title,
       domain,
       status: "todo",
-      createdAt: nowISO(),
-      dueISO: dueDays != null ? daysFromNow(dueDays) : null,
+      createdAt: this.context.clock.nowISO(),
+      dueISO: dueDays != null ? daysFromNow(dueDays, this.context.clock) : null,
       notes: notes ?? ""
     });
   }
 
   private addDeadline(label: string, dateISO: string, isHard = true): void {
-    this.state.deadlines.push({
-      id: nextId("ddl"),
+    this.extendedState.deadlines.push({
+      id: this.context.ids.next("ddl"),
       label,
       dateISO,
       isHard,
@@ -318,28 +349,28 @@ export class LegalReviewStateMachine extends BaseStateMachine<LegalPhase, LegalE
   }
 
   private addEvidence(kind: string, description: string, uri?: string | null): void {
-    this.state.evidence.push({
-      id: nextId("ev"),
+    this.extendedState.evidence.push({
+      id: this.context.ids.next("ev"),
       kind,
       description,
       uri: uri ?? null,
-      receivedAt: nowISO()
+      receivedAt: this.context.clock.nowISO()
     });
   }
 
   private bumpRisk(type: keyof RiskAssessment, delta: number): void {
-    this.state.risk[type] = clamp01(this.state.risk[type] + delta);
+    this.extendedState.risk[type] = clamp01(this.extendedState.risk[type] + delta);
   }
 
   private decayRisk(factor = 0.98): void {
-    this.state.risk.confidentiality = clamp01(this.state.risk.confidentiality * factor);
-    this.state.risk.deadline = clamp01(this.state.risk.deadline * factor);
-    this.state.risk.adversarial = clamp01(this.state.risk.adversarial * factor);
-    this.state.risk.compliance = clamp01(this.state.risk.compliance * factor);
+    this.extendedState.risk.confidentiality = clamp01(this.extendedState.risk.confidentiality * factor);
+    this.extendedState.risk.deadline = clamp01(this.extendedState.risk.deadline * factor);
+    this.extendedState.risk.adversarial = clamp01(this.extendedState.risk.adversarial * factor);
+    this.extendedState.risk.compliance = clamp01(this.extendedState.risk.compliance * factor);
   }
 
   private deriveIssuesFromFacts(): void {
-    const factText = this.state.facts.map((f) => f.text.toLowerCase()).join(" | ");
+    const factText = this.extendedState.facts.map((f) => f.text.toLowerCase()).join(" | ");
     if (factText.includes("deadline") || factText.includes("hearing")) {
       this.addIssue("Time-sensitive procedural step", "Detected time-sensitive fact(s) requiring scheduling.", 4);
       this.addTask("Confirm all calendared deadlines", "filing", 2);
@@ -356,13 +387,13 @@ export class LegalReviewStateMachine extends BaseStateMachine<LegalPhase, LegalE
     this.decayRisk(0.999);
 
     // Check for overdue tasks
-    const now = Date.now();
-    if (this.state.tasks.some((t) => t.dueISO && new Date(t.dueISO).getTime() < now && t.status !== "done")) {
+    const now = this.context.clock.now;
+    if (this.extendedState.tasks.some((t) => t.dueISO && new Date(t.dueISO).getTime() < now && t.status !== "done")) {
       this.bumpRisk("deadline", 0.05);
     }
 
     // Check for high priority unresolved issues
-    const highOpenIssues = this.state.issues.filter((i) => i.status !== "resolved" && i.priority >= 4).length;
+    const highOpenIssues = this.extendedState.issues.filter((i) => i.status !== "resolved" && i.priority >= 4).length;
     if (highOpenIssues >= 3) {
       this.bumpRisk("adversarial", 0.05);
     }
@@ -375,21 +406,21 @@ export class LegalReviewStateMachine extends BaseStateMachine<LegalPhase, LegalE
     nextDeadline: string | null;
     openTasks: number;
   } {
-    const riskScore = (0.15 * this.state.risk.confidentiality + 
-                      0.45 * this.state.risk.deadline + 
-                      0.3 * this.state.risk.adversarial + 
-                      0.1 * this.state.risk.compliance);
+    const riskScore = (0.15 * this.extendedState.risk.confidentiality + 
+                      0.45 * this.extendedState.risk.deadline + 
+                      0.3 * this.extendedState.risk.adversarial + 
+                      0.1 * this.extendedState.risk.compliance);
 
-    const nextDeadline = this.state.deadlines
+    const nextDeadline = this.extendedState.deadlines
       .filter((d) => !d.done)
       .sort((a, b) => new Date(a.dateISO).getTime() - new Date(b.dateISO).getTime())[0];
 
     return {
       phase: this.currentState,
-      issuesOpen: this.state.issues.filter((i) => i.status !== "resolved").length,
+      issuesOpen: this.extendedState.issues.filter((i) => i.status !== "resolved").length,
       riskScore: riskScore.toFixed(2),
       nextDeadline: nextDeadline ? nextDeadline.dateISO : null,
-      openTasks: this.state.tasks.filter((t) => t.status !== "done").length
+      openTasks: this.extendedState.tasks.filter((t) => t.status !== "done").length
     };
   }
 }
@@ -397,92 +428,94 @@ export class LegalReviewStateMachine extends BaseStateMachine<LegalPhase, LegalE
 // ---------- Event Generators ----------
 
 export const LEGAL_EVENT_GENERATORS: EventGenerator<LegalEvent>[] = [
-  () => ({
-    id: nextId('evt'),
+  ({ ids, clock, random }) => ({
+    id: ids.next('evt'),
     type: LegalEventType.EmailReceived,
-    timestamp: nowISO(),
+    timestamp: clock.nowISO(),
+    priority: EventPriority.Low,
     payload: {
-      from: pick(["client@acme.com", "opposing@lawfirm.com", "paralegal@yourfirm.com"]),
-      subject: pick(["Question about contract clause 7.3", "Follow-up docs attached", "Clarification on timeline"]),
+      from: pick(["client@acme.com", "opposing@lawfirm.com", "paralegal@yourfirm.com"], random),
+      subject: pick(["Question about contract clause 7.3", "Follow-up docs attached", "Clarification on timeline"], random),
       body: pick([
         "Can you clarify the indemnity language?",
         "Attaching the signed NDA and vendor SOW.",
         "I think the date might be wrong—can you confirm?"
-      ])
+      ], random)
     }
   }),
-  () => ({
-    id: nextId('evt'),
+  ({ ids, clock, random }) => ({
+    id: ids.next('evt'),
     type: LegalEventType.DocUploaded,
-    timestamp: nowISO(),
+    timestamp: clock.nowISO(),
     payload: {
-      name: pick(["Master_Services_Agreement.pdf", "Change_Order_02.docx", "Email_Thread_Export.mbox"]),
-      uri: "/uploads/" + Math.random().toString(36).slice(2) + ".bin",
+      name: pick(["Master_Services_Agreement.pdf", "Change_Order_02.docx", "Email_Thread_Export.mbox"], random),
+      uri: "/uploads/" + random.next().toString(36).slice(2) + ".bin",
       summary: pick([
         "Contains original scope and limitation of liability.",
         "Revises delivery dates and adds late fees.",
         "Thread about notice of breach in March."
-      ])
+      ], random)
     }
   }),
-  () => ({
-    id: nextId('evt'),
+  ({ ids, clock, random }) => ({
+    id: ids.next('evt'),
     type: LegalEventType.HearingSet,
-    timestamp: nowISO(),
+    timestamp: clock.nowISO(),
     payload: {
-      dateISO: daysFromNow(rand(5, 21)),
-      courtroom: pick(["EDVA-4B", "Norfolk-3C", "Richmond-2A"])
+      dateISO: daysFromNow(rand(5, 21, random), clock),
+      courtroom: pick(["EDVA-4B", "Norfolk-3C", "Richmond-2A"], random)
     }
   }),
-  () => ({
-    id: nextId('evt'),
+  ({ ids, clock, random }) => ({
+    id: ids.next('evt'),
     type: LegalEventType.OppositionMotion,
-    timestamp: nowISO(),
+    timestamp: clock.nowISO(),
     payload: {
-      rule: pick(["FRCP 12(b)(6)", "FRCP 56", "Va. Sup. Ct. R. 4:12"]),
-      relief: pick(["dismiss complaint", "summary judgment", "protective order"])
+      rule: pick(["FRCP 12(b)(6)", "FRCP 56", "Va. Sup. Ct. R. 4:12"], random),
+      relief: pick(["dismiss complaint", "summary judgment", "protective order"], random)
     }
   }),
-  () => ({
-    id: nextId('evt'),
+  ({ ids, clock, random }) => ({
+    id: ids.next('evt'),
     type: LegalEventType.ClientCall,
-    timestamp: nowISO(),
+    timestamp: clock.nowISO(),
     payload: {
       notes: pick([
         "Client confirms delivery occurred on April 12; notice sent April 15.",
         "New witness: shipping manager available for affidavit.",
         "Client prefers settlement window under $50k."
-      ])
+      ], random)
     }
   }),
-  () => ({
-    id: nextId('evt'),
+  ({ ids, clock, random }) => ({
+    id: ids.next('evt'),
     type: LegalEventType.CourtNotice,
-    timestamp: nowISO(),
+    timestamp: clock.nowISO(),
+    priority: EventPriority.Critical,
     payload: {
-      message: pick(["Chambers requests status update", "Defect in service noted", "Schedule for pretrial conference"]),
-      daysToRespond: rand(3, 10)
+      message: pick(["Chambers requests status update", "Defect in service noted", "Schedule for pretrial conference"], random),
+      daysToRespond: rand(3, 10, random)
     }
   }),
-  () => ({
-    id: nextId('evt'),
+  ({ ids, clock }) => ({
+    id: ids.next('evt'),
     type: LegalEventType.PaymentIssue,
-    timestamp: nowISO(),
+    timestamp: clock.nowISO(),
     payload: {}
   }),
-  () => ({
-    id: nextId('evt'),
+  ({ ids, clock }) => ({
+    id: ids.next('evt'),
     type: LegalEventType.ConflictFlag,
-    timestamp: nowISO(),
+    timestamp: clock.nowISO(),
     payload: {}
   }),
-  () => ({
-    id: nextId('evt'),
+  ({ ids, clock, random }) => ({
+    id: ids.next('evt'),
     type: LegalEventType.CalendarUpdate,
-    timestamp: nowISO(),
+    timestamp: clock.nowISO(),
     payload: {
-      label: pick(["Disclosure deadline", "Exhibit list due", "Motions in limine"]),
-      deltaDays: rand(-3, 4)
+      label: pick(["Disclosure deadline", "Exhibit list due", "Motions in limine"], random),
+      deltaDays: rand(-3, 4, random)
     }
   })
 ];
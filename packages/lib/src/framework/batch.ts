@@ -0,0 +1,185 @@
+/**
+ * Monte Carlo batches: many independent, seeded runs of the same model
+ */
+
+import type { StateMachine } from './state-machine.js';
+import { SimulationEngine } from './simulation-engine.js';
+import type { SimulationOptions, SimulationStats, StopReason } from './simulation-engine.js';
+import { summarize } from './statistics.js';
+import type { SummaryOptions, SummaryStatistics } from './statistics.js';
+import { toCSV } from './utils.js';
+
+/**
+ * Reads an outcome from a finished run. Booleans count as 0 or 1, so their
+ * mean is the fraction of runs where the outcome was true.
+ */
+export type OutcomeMetric<TMachine> = (machine: TMachine, stats: SimulationStats) => number | boolean;
+
+/**
+ * Options for running a batch of replications
+ */
+export interface BatchOptions<TMachine extends StateMachine<any, any>> {
+  /** Creates a fresh machine for each replication */
+  createMachine: (replication: number) => TMachine;
+  /** Number of independent runs */
+  replications: number;
+  /** Seed of the first replication; replication i uses seed + i (default: 1) */
+  seed?: number;
+  /** Explicit seed per replication, overriding `seed` */
+  seeds?: number[];
+  /** Engine options shared by every run; runs are always discrete-event */
+  simulation?: Omit<SimulationOptions, 'mode' | 'seed' | 'random' | 'checkpoint'>;
+  /** Ends a run once this returns true after an event (alongside the engine's own stop conditions) */
+  stopWhen?: (machine: TMachine, engine: SimulationEngine<any, any>) => boolean;
+  /** Outcomes to record for each run, by name */
+  metrics?: Record<string, OutcomeMetric<TMachine>>;
+  /** Percentiles and confidence level of the aggregated metrics */
+  summary?: SummaryOptions;
+  /** Called after each replication finishes */
+  onReplication?: (result: ReplicationResult<TMachine['currentState']>) => void;
+}
+
+/**
+ * Outcome of one run in a batch
+ */
+export interface ReplicationResult<TState = any> {
+  replication: number;
+  seed: number;
+  finalState: TState;
+  eventCount: number;
+  /** Simulated milliseconds the run covered */
+  simulatedTime: number;
+  stopReason: StopReason | null;
+  metrics: Record<string, number>;
+}
+
+/**
+ * Outcome of a whole batch
+ */
+export interface BatchResult<TState = any> {
+  replications: Array<ReplicationResult<TState>>;
+  /** Aggregates of `eventCount`, `simulatedTime` and every metric, by name */
+  summary: Record<string, SummaryStatistics>;
+  /** Number of runs that ended in each state */
+  finalStates: Record<string, number>;
+  /** Wall-clock milliseconds the batch took */
+  runtime: number;
+}
+
+/**
+ * Runs independent replications one after another, each with its own
+ * machine, engine and seed, as fast as the model allows. Every run needs
+ * a way to end, so a batch without a stop condition in `simulation` or a
+ * `stopWhen` is rejected.
+ */
+export function runBatch<TMachine extends StateMachine<any, any>>(
+  options: BatchOptions<TMachine>
+): BatchResult<TMachine['currentState']> {
+  const simulation = options.simulation ?? {};
+  const bounded = !!simulation.maxEvents || simulation.finalStates !== undefined ||
+    simulation.timeHorizon !== undefined || simulation.stopWhen !== undefined ||
+    simulation.maxRuntime !== undefined || simulation.steadyState !== undefined;
+  if (!bounded && !options.stopWhen) {
+    throw new Error('A batch needs a stop condition: set one in simulation (e.g. maxEvents) or stopWhen');
+  }
+
+  const started = Date.now();
+  const replications: Array<ReplicationResult<TMachine['currentState']>> = [];
+  const metrics = options.metrics ?? {};
+
+  for (let replication = 0; replication < options.replications; replication++) {
+    const seed = options.seeds?.[replication] ?? (options.seed ?? 1) + replication;
+    const machine = options.createMachine(replication);
+    const engine = new SimulationEngine(machine);
+
+    const stopWhen = options.stopWhen;
+    const stats = engine.run({
+      // The event log is rarely wanted for batch runs and costs memory
+      recordEvents: false,
+      ...simulation,
+      seed,
+      stopWhen: stopWhen
+        ? (_machine, runStats) => stopWhen(machine, engine) || !!simulation.stopWhen?.(machine, runStats)
+        : simulation.stopWhen
+    });
+
+    const values: Record<string, number> = {};
+    for (const [name, metric] of Object.entries(metrics)) {
+      values[name] = Number(metric(machine, stats));
+    }
+
+    const result: ReplicationResult<TMachine['currentState']> = {
+      replication,
+      seed,
+      finalState: stats.currentState,
+      eventCount: stats.eventCount,
+      simulatedTime: stats.simulatedTime,
+      stopReason: stats.stopReason,
+      metrics: values
+    };
+    replications.push(result);
+    options.onReplication?.(result);
+  }
+
+  const summary: Record<string, SummaryStatistics> = {
+    eventCount: summarize(replications.map(r => r.eventCount), options.summary),
+    simulatedTime: summarize(replications.map(r => r.simulatedTime), options.summary)
+  };
+  for (const name of Object.keys(metrics)) {
+    summary[name] = summarize(replications.map(r => r.metrics[name]!), options.summary);
+  }
+
+  const finalStates: Record<string, number> = {};
+  for (const { finalState } of replications) {
+    const key = stateKey(finalState);
+    finalStates[key] = (finalStates[key] ?? 0) + 1;
+  }
+
+  return { replications, summary, finalStates, runtime: Date.now() - started };
+}
+
+/**
+ * Formats one row per replication as CSV
+ */
+export function replicationsToCSV(result: BatchResult): string {
+  const metricNames = Object.keys(result.replications[0]?.metrics ?? {});
+  const rows = result.replications.map(r => [
+    r.replication,
+    r.seed,
+    stateKey(r.finalState),
+    r.eventCount,
+    r.simulatedTime,
+    r.stopReason,
+    ...metricNames.map(name => r.metrics[name])
+  ]);
+  return toCSV(['replication', 'seed', 'finalState', 'eventCount', 'simulatedTime', 'stopReason', ...metricNames], rows);
+}
+
+/**
+ * Formats one row per aggregated metric as CSV
+ */
+export function summaryToCSV(result: BatchResult): string {
+  const entries = Object.entries(result.summary);
+  const percentileNames = Object.keys(entries[0]?.[1].percentiles ?? {});
+  const rows = entries.map(([name, s]) => [
+    name,
+    s.count,
+    s.mean,
+    s.stdDev,
+    s.min,
+    s.max,
+    ...percentileNames.map(p => s.percentiles[p]),
+    s.confidenceInterval.level,
+    s.confidenceInterval.lower,
+    s.confidenceInterval.upper
+  ]);
+  return toCSV(
+    ['metric', 'count', 'mean', 'stdDev', 'min', 'max', ...percentileNames, 'ciLevel', 'ciLower', 'ciUpper'],
+    rows
+  );
+}
+
+function stateKey(state: unknown): string {
+  // Parallel machines report one state per region
+  return typeof state === 'object' && state !== null ? JSON.stringify(state) : String(state);
+}
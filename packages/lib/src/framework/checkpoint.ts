@@ -0,0 +1,36 @@
+/**
+ * Writing and reading simulation snapshots on disk
+ */
+
+import { readFileSync, renameSync, writeFileSync } from 'node:fs';
+import type { EngineSnapshot } from './simulation-engine.js';
+
+/**
+ * When the engine writes checkpoints during a run. A final checkpoint is
+ * also written when the run stops.
+ */
+export interface CheckpointOptions {
+  /** File the latest snapshot is written to */
+  path: string;
+  /** Write after every this many processed events */
+  everyEvents?: number;
+  /** Write when at least this many wall-clock milliseconds have passed since the last one */
+  intervalMs?: number;
+}
+
+/**
+ * Writes a snapshot as JSON. The file is replaced atomically, so a crash
+ * mid-write leaves the previous checkpoint intact.
+ */
+export function saveSnapshot(path: string, snapshot: EngineSnapshot): void {
+  const temp = `${path}.tmp`;
+  writeFileSync(temp, JSON.stringify(snapshot));
+  renameSync(temp, path);
+}
+
+/**
+ * Reads a snapshot written by `saveSnapshot`
+ */
+export function loadSnapshot<TState = any>(path: string): EngineSnapshot<TState, any> {
+  return JSON.parse(readFileSync(path, 'utf8'));
+}
@@ -0,0 +1,209 @@
+/**
+ * Simulated time for the simulation framework
+ */
+
+/**
+ * Interface for clocks that report simulated time
+ */
+export interface SimulationClock {
+  /** Current simulated time in milliseconds since the Unix epoch */
+  readonly now: number;
+  /** Simulated milliseconds elapsed since the clock was started */
+  readonly elapsed: number;
+  nowISO(): string;
+}
+
+/**
+ * Clock that follows wall-clock time
+ */
+export class SystemClock implements SimulationClock {
+  private readonly _startTime = Date.now();
+
+  /**
+   * Gets the current wall-clock time
+   */
+  get now(): number {
+    return Date.now();
+  }
+
+  /**
+   * Gets the milliseconds elapsed since the clock was created
+   */
+  get elapsed(): number {
+    return Date.now() - this._startTime;
+  }
+
+  /**
+   * Returns the current wall-clock time as an ISO string
+   */
+  nowISO(): string {
+    return new Date().toISOString();
+  }
+}
+
+/**
+ * Shared wall clock used when no simulation clock is supplied
+ */
+export const systemClock = new SystemClock();
+
+/**
+ * Clock owned by the simulation engine. It never moves on its own; the
+ * engine advances it to the time of each agenda entry it processes.
+ */
+export class VirtualClock implements SimulationClock {
+  private _startTime: number;
+  private _now: number;
+
+  constructor(startTime: number = Date.now()) {
+    this._startTime = startTime;
+    this._now = startTime;
+  }
+
+  /**
+   * Gets the current simulated time
+   */
+  get now(): number {
+    return this._now;
+  }
+
+  /**
+   * Gets the simulated time the clock was started at
+   */
+  get startTime(): number {
+    return this._startTime;
+  }
+
+  /**
+   * Gets the simulated milliseconds elapsed since the start time
+   */
+  get elapsed(): number {
+    return this._now - this._startTime;
+  }
+
+  /**
+   * Returns the current simulated time as an ISO string
+   */
+  nowISO(): string {
+    return new Date(this._now).toISOString();
+  }
+
+  /**
+   * Moves the clock forward to the given time
+   */
+  advanceTo(time: number): void {
+    if (time < this._now) {
+      throw new Error(`Cannot move clock backwards from ${this._now} to ${time}`);
+    }
+    this._now = time;
+  }
+
+  /**
+   * Moves the clock forward by the given number of milliseconds
+   */
+  advanceBy(ms: number): void {
+    this.advanceTo(this._now + ms);
+  }
+
+  /**
+   * Resets the clock to a new start time
+   */
+  reset(startTime: number = Date.now()): void {
+    this._startTime = startTime;
+    this._now = startTime;
+  }
+}
+
+/**
+ * An entry on the agenda
+ */
+export interface AgendaEntry<T> {
+  /** Simulated time the entry is due at */
+  time: number;
+  /** Insertion sequence, used to keep entries with equal times in FIFO order */
+  seq: number;
+  item: T;
+}
+
+/**
+ * Time-ordered list of future work for discrete-event simulation
+ */
+export class Agenda<T> {
+  private entries: AgendaEntry<T>[] = [];
+  private seq = 0;
+
+  /**
+   * Schedules an item at the given simulated time
+   */
+  schedule(time: number, item: T): AgendaEntry<T> {
+    const entry: AgendaEntry<T> = { time, seq: this.seq++, item };
+
+    // Binary search for the first entry due strictly after this one
+    let lo = 0;
+    let hi = this.entries.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (this.entries[mid]!.time <= time) {
+        lo = mid + 1;
+      } else {
+        hi = mid;
+      }
+    }
+
+    this.entries.splice(lo, 0, entry);
+    return entry;
+  }
+
+  /**
+   * Returns the next entry without removing it
+   */
+  peek(): AgendaEntry<T> | undefined {
+    return this.entries[0];
+  }
+
+  /**
+   * Removes and returns the next entry
+   */
+  next(): AgendaEntry<T> | undefined {
+    return this.entries.shift();
+  }
+
+  /**
+   * Removes a previously scheduled entry
+   */
+  cancel(entry: AgendaEntry<T>): boolean {
+    const index = this.entries.indexOf(entry);
+    if (index === -1) {
+      return false;
+    }
+    this.entries.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Returns the number of scheduled entries
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Checks if nothing is scheduled
+   */
+  get isEmpty(): boolean {
+    return this.entries.length === 0;
+  }
+
+  /**
+   * Returns a copy of all scheduled entries in time order
+   */
+  toArray(): AgendaEntry<T>[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Removes all scheduled entries
+   */
+  clear(): void {
+    this.entries = [];
+  }
+}
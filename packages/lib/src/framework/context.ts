@@ -0,0 +1,58 @@
+/**
+ * Shared run context for the simulation framework
+ */
+
+import { systemClock } from './clock.js';
+import type { SimulationClock } from './clock.js';
+import { createRandom } from './random.js';
+import type { RandomSource } from './random.js';
+import { IdGenerator, defaultIdGenerator } from './utils.js';
+import type { Event } from './events.js';
+
+/**
+ * Handle to an event scheduled on the run's timeline
+ */
+export interface ScheduledEventHandle {
+  /** Simulated time the event is due at */
+  readonly time: number;
+  /** Removes the event if it has not been processed yet */
+  cancel(): boolean;
+}
+
+/**
+ * Delivers events after a delay in simulated milliseconds
+ */
+export interface EventScheduler {
+  schedule(event: Event, delay: number): ScheduledEventHandle;
+}
+
+/**
+ * Everything a state machine or event generator needs to behave
+ * reproducibly: the run's random source, ID sequence and clock
+ */
+export interface SimulationContext {
+  random: RandomSource;
+  ids: IdGenerator;
+  clock: SimulationClock;
+  /** Set by the engine; without it state timeouts fall back to setTimeout */
+  scheduler?: EventScheduler;
+}
+
+/**
+ * Creates a simulation context. Without arguments it uses Math.random,
+ * the module-wide ID sequence and the system clock.
+ */
+export function createSimulationContext(options: {
+  seed?: number;
+  random?: RandomSource;
+  ids?: IdGenerator;
+  clock?: SimulationClock;
+  scheduler?: EventScheduler;
+} = {}): SimulationContext {
+  return {
+    random: options.random ?? createRandom(options.seed),
+    ids: options.ids ?? (options.seed !== undefined ? new IdGenerator() : defaultIdGenerator),
+    clock: options.clock ?? systemClock,
+    scheduler: options.scheduler
+  };
+}
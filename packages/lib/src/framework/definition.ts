@@ -0,0 +1,1086 @@
+/**
+ * Complete simulations declared as JSON or YAML documents
+ */
+
+import { readFileSync } from 'node:fs';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { z } from 'zod';
+import type { EmitOptions, Event, EventPriority } from './events.js';
+import type { SimulationContext } from './context.js';
+import { createDistribution } from './distributions.js';
+import type { DistributionSpec } from './distributions.js';
+import { nextCronTime } from './schedule.js';
+import type { GeneratorSchedule } from './schedule.js';
+import type { GeneratorRegistration } from './generators.js';
+import { continueFlows } from './flows.js';
+import type { EventFlow } from './flows.js';
+import type { PayloadSchemas } from './schemas.js';
+import { BaseStateMachine } from './state-machine.js';
+import type { StateNodeConfig, StateTimeout, TransitionRule } from './state-machine.js';
+import { SimulationEngine, SimulationMode } from './simulation-engine.js';
+import type { SimulationOptions, SimulationStats } from './simulation-engine.js';
+import { pick } from './utils.js';
+
+/**
+ * A value computed when it is used. Plain values are taken as they are,
+ * arrays and objects are computed field by field, and objects with a `$`
+ * key compute a value:
+ *
+ * - `{ $sample: <distribution>, $round?: true }` draws from a distribution
+ * - `{ $pick: [...] }` picks one of the values at random
+ * - `{ $chance: p }` is true with probability p
+ * - `{ $ref: 'event.payload.amount' }` reads `state`, `event` or `extendedState`
+ * - `{ $now: offset }` is the ISO time `offset` simulated milliseconds from now
+ * - `{ $id: prefix }` is the next ID from the run's ID sequence
+ * - `{ $literal: value }` is the value as it is, `$` keys included
+ */
+export type ValueSpec =
+  | string
+  | number
+  | boolean
+  | null
+  | ValueSpec[]
+  | { [key: string]: ValueSpec };
+
+/**
+ * How a condition compares the value at its path
+ */
+export type ConditionOperator = 'eq' | 'ne' | 'lt' | 'lte' | 'gt' | 'gte' | 'in' | 'truthy' | 'falsy';
+
+/**
+ * A test of `state`, `event` or `extendedState`, used as a guard or to
+ * select handlers
+ */
+export interface ConditionDeclaration {
+  /** Reported when the condition blocks a transition (default: describes the test) */
+  name?: string;
+  /** Value tested, e.g. `extendedState.attempts` or `event.payload.amount` */
+  path: string;
+  /** Comparison (default: `eq` with a value, `truthy` without) */
+  op?: ConditionOperator;
+  value?: ValueSpec;
+}
+
+/**
+ * Something a handler, hook or transition does. Paths of `set`,
+ * `increment` and `push` are in the extended state.
+ */
+export type EffectDeclaration =
+  | { type: 'set'; path: string; value: ValueSpec }
+  | { type: 'increment'; path: string; by?: ValueSpec }
+  | { type: 'push'; path: string; value: ValueSpec }
+  | {
+      type: 'emit';
+      event: string;
+      /** Default: the payload of the event's generator, or an empty object */
+      payload?: ValueSpec;
+      /** Simulated milliseconds, fixed or drawn from a distribution */
+      delay?: number | DistributionSpec;
+      priority?: number;
+    }
+  /** Only in handlers: hooks and transitions cannot start another transition */
+  | { type: 'transition'; to: string }
+  | { type: 'log'; message: ValueSpec };
+
+/**
+ * A state, with its place in the hierarchy and what happens on entry and exit
+ */
+export interface StateDeclaration {
+  name: string;
+  description?: string;
+  /** Kind of state, e.g. `waiting` or `final`; descriptive only */
+  type?: string;
+  parent?: string;
+  initial?: string;
+  onEntry?: EffectDeclaration[];
+  onExit?: EffectDeclaration[];
+  after?: StateTimeout[];
+}
+
+/**
+ * An edge of the state machine
+ */
+export interface TransitionDeclaration {
+  from: string | string[];
+  to: string;
+  /** Event type that takes the transition once handled */
+  on?: string;
+  description?: string;
+  guards?: ConditionDeclaration[];
+  effects?: EffectDeclaration[];
+  /** Chance the transition fires on its event once its guards pass */
+  probability?: number;
+}
+
+/**
+ * A payload field; types are `string`, `number`, `boolean`, `date`,
+ * `object`, `array` and the like, anything else accepts any value
+ */
+export interface PayloadFieldDeclaration {
+  name: string;
+  type: string;
+  optional?: boolean;
+  description?: string;
+}
+
+/**
+ * An event type with its payload fields, which become its payload schema
+ */
+export interface EventDeclaration {
+  name: string;
+  description?: string;
+  priority?: EventPriority | number;
+  payload?: PayloadFieldDeclaration[];
+}
+
+/**
+ * A field of the extended state
+ */
+export interface ExtendedFieldDeclaration {
+  type: string;
+  /** Default: the empty value of the type, e.g. 0 or false */
+  initial?: unknown;
+  description?: string;
+}
+
+/**
+ * A generator of one event type and when it fires (see `GeneratorRegistration`)
+ */
+export interface GeneratorDeclaration {
+  event: string;
+  weight?: number;
+  rate?: number;
+  interArrival?: DistributionSpec;
+  schedule?: GeneratorSchedule;
+  triggeredBy?: string[];
+  /** Only fires while one of these states is active */
+  whenStates?: string[];
+  maxOccurrences?: number;
+  /** Payload fields of the generated events */
+  payload?: Record<string, ValueSpec>;
+}
+
+/**
+ * Effects run when an event of a type is handled and the conditions hold
+ */
+export interface HandlerDeclaration {
+  event: string;
+  name?: string;
+  when?: ConditionDeclaration[];
+  effects: EffectDeclaration[];
+}
+
+/**
+ * An event flow (see `EventFlow`)
+ */
+export interface FlowDeclaration {
+  name: string;
+  description?: string;
+  startEvent: string;
+  endEvent: string;
+  steps: Partial<Record<string, string[]>>;
+  stepDelay?: DistributionSpec;
+  /**
+   * Payload fields of the steps, by event type, computed as the step before
+   * is handled (`event` refers to it); fields left out get the empty value
+   * of their declared type
+   */
+  payload?: Partial<Record<string, Record<string, ValueSpec>>>;
+}
+
+/**
+ * Engine settings a definition can carry
+ */
+export type DefinitionRunOptions = Pick<
+  SimulationOptions,
+  'mode' | 'startTime' | 'seed' | 'batchSize' | 'minInterval' | 'maxInterval' | 'maxEvents' | 'timeHorizon' | 'enableLogging' | 'recordEvents'
+> & {
+  interArrival?: DistributionSpec;
+};
+
+/**
+ * A complete simulation: states, transitions, extended state, events,
+ * generators, handlers and flows
+ */
+export interface SimulationDefinition {
+  name: string;
+  description?: string;
+  initialState: string;
+  finalStates?: string[];
+  states: StateDeclaration[];
+  transitions?: TransitionDeclaration[];
+  extendedState?: Record<string, ExtendedFieldDeclaration>;
+  events?: EventDeclaration[];
+  generators?: GeneratorDeclaration[];
+  handlers?: HandlerDeclaration[];
+  flows?: FlowDeclaration[];
+  simulation?: DefinitionRunOptions;
+}
+
+/**
+ * Document formats a definition can be written in
+ */
+export type DefinitionFormat = 'json' | 'yaml';
+
+/**
+ * Thrown when a document is not a valid simulation definition
+ */
+export class SimulationDefinitionError extends Error {
+  /** Each problem, prefixed with where it is, e.g. `transitions.2.to` */
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid simulation definition: ${issues.join('; ')}`);
+    this.name = 'SimulationDefinitionError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * A simulation built from a definition
+ */
+export interface LoadedSimulation {
+  definition: SimulationDefinition;
+  stateMachine: BaseStateMachine<string, Event, Record<string, any>>;
+  engine: SimulationEngine<string, Event>;
+  /** Run options of the definition, with its generators and final states */
+  options: SimulationOptions;
+  /** Builds another machine from the definition, e.g. for `runBatch` */
+  createMachine: () => BaseStateMachine<string, Event, Record<string, any>>;
+  start: (options?: SimulationOptions) => void;
+  run: (options?: SimulationOptions) => SimulationStats<string>;
+  stop: () => void;
+}
+
+const valueSchema: z.ZodType<ValueSpec> = z.lazy(() =>
+  z.union([z.string(), z.number(), z.boolean(), z.null(), z.array(valueSchema), z.record(valueSchema)]));
+
+const distributionSchema: z.ZodType<DistributionSpec> = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('constant'), value: z.number() }).strict(),
+  z.object({ type: z.literal('uniform'), min: z.number(), max: z.number() }).strict(),
+  z.object({ type: z.literal('exponential'), rate: z.number().positive() }).strict(),
+  z.object({ type: z.literal('poisson'), lambda: z.number().nonnegative() }).strict(),
+  z.object({ type: z.literal('normal'), mean: z.number(), stdDev: z.number().nonnegative() }).strict(),
+  z.object({ type: z.literal('lognormal'), mu: z.number(), sigma: z.number().nonnegative() }).strict(),
+  z.object({ type: z.literal('triangular'), min: z.number(), mode: z.number(), max: z.number() }).strict(),
+  z.object({ type: z.literal('weibull'), shape: z.number().positive(), scale: z.number().positive() }).strict(),
+  z.object({ type: z.literal('empirical'), values: z.array(z.number()).nonempty() }).strict(),
+  z.object({
+    type: z.literal('histogram'),
+    bins: z.array(z.object({ min: z.number(), max: z.number(), weight: z.number().nonnegative() }).strict()).nonempty()
+  }).strict(),
+  z.object({ type: z.literal('bernoulli'), p: z.number().min(0).max(1) }).strict()
+]);
+
+const conditionSchema: z.ZodType<ConditionDeclaration> = z.object({
+  name: z.string().optional(),
+  path: z.string(),
+  op: z.enum(['eq', 'ne', 'lt', 'lte', 'gt', 'gte', 'in', 'truthy', 'falsy']).optional(),
+  value: valueSchema.optional()
+}).strict();
+
+const effectSchema: z.ZodType<EffectDeclaration> = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('set'), path: z.string(), value: valueSchema }).strict(),
+  z.object({ type: z.literal('increment'), path: z.string(), by: valueSchema.optional() }).strict(),
+  z.object({ type: z.literal('push'), path: z.string(), value: valueSchema }).strict(),
+  z.object({
+    type: z.literal('emit'),
+    event: z.string(),
+    payload: valueSchema.optional(),
+    delay: z.union([z.number().nonnegative(), distributionSchema]).optional(),
+    priority: z.number().optional()
+  }).strict(),
+  z.object({ type: z.literal('transition'), to: z.string() }).strict(),
+  z.object({ type: z.literal('log'), message: valueSchema }).strict()
+]);
+
+const definitionSchema: z.ZodType<SimulationDefinition> = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  initialState: z.string(),
+  finalStates: z.array(z.string()).optional(),
+  states: z.array(z.object({
+    name: z.string(),
+    description: z.string().optional(),
+    type: z.string().optional(),
+    parent: z.string().optional(),
+    initial: z.string().optional(),
+    onEntry: z.array(effectSchema).optional(),
+    onExit: z.array(effectSchema).optional(),
+    after: z.array(z.object({
+      delay: z.number().nonnegative(),
+      event: z.string(),
+      payload: z.record(z.any()).optional()
+    }).strict()).optional()
+  }).strict()).nonempty(),
+  transitions: z.array(z.object({
+    from: z.union([z.string(), z.array(z.string())]),
+    to: z.string(),
+    on: z.string().optional(),
+    description: z.string().optional(),
+    guards: z.array(conditionSchema).optional(),
+    effects: z.array(effectSchema).optional(),
+    probability: z.number().min(0).max(1).optional()
+  }).strict()).optional(),
+  extendedState: z.record(z.object({
+    type: z.string(),
+    initial: z.unknown().optional(),
+    description: z.string().optional()
+  }).strict()).optional(),
+  events: z.array(z.object({
+    name: z.string(),
+    description: z.string().optional(),
+    priority: z.number().optional(),
+    payload: z.array(z.object({
+      name: z.string(),
+      type: z.string(),
+      optional: z.boolean().optional(),
+      description: z.string().optional()
+    }).strict()).optional()
+  }).strict()).optional(),
+  generators: z.array(z.object({
+    event: z.string(),
+    weight: z.number().nonnegative().optional(),
+    rate: z.number().positive().optional(),
+    interArrival: distributionSchema.optional(),
+    schedule: z.union([
+      z.object({ every: z.number().positive(), offset: z.number().optional() }).strict(),
+      z.object({ cron: z.string() }).strict()
+    ]).optional(),
+    triggeredBy: z.array(z.string()).optional(),
+    whenStates: z.array(z.string()).optional(),
+    maxOccurrences: z.number().int().nonnegative().optional(),
+    payload: z.record(valueSchema).optional()
+  }).strict()).optional(),
+  handlers: z.array(z.object({
+    event: z.string(),
+    name: z.string().optional(),
+    when: z.array(conditionSchema).optional(),
+    effects: z.array(effectSchema)
+  }).strict()).optional(),
+  flows: z.array(z.object({
+    name: z.string(),
+    description: z.string().optional(),
+    startEvent: z.string(),
+    endEvent: z.string(),
+    steps: z.record(z.array(z.string())),
+    stepDelay: distributionSchema.optional(),
+    payload: z.record(z.record(valueSchema)).optional()
+  }).strict()).optional(),
+  simulation: z.object({
+    mode: z.nativeEnum(SimulationMode).optional(),
+    startTime: z.number().optional(),
+    seed: z.number().optional(),
+    batchSize: z.number().int().positive().optional(),
+    minInterval: z.number().nonnegative().optional(),
+    maxInterval: z.number().nonnegative().optional(),
+    maxEvents: z.number().int().nonnegative().optional(),
+    timeHorizon: z.number().nonnegative().optional(),
+    enableLogging: z.boolean().optional(),
+    recordEvents: z.boolean().optional(),
+    interArrival: distributionSchema.optional()
+  }).strict().optional()
+}).strict();
+
+/**
+ * What values, conditions and effects are computed from
+ */
+interface ValueScope {
+  context: SimulationContext;
+  state?: string;
+  event?: Event;
+  extendedState?: Record<string, any>;
+}
+
+type Computed<T> = (scope: ValueScope) => T;
+
+type Effect = (scope: ValueScope, machine: DefinedStateMachine) => void;
+
+interface Condition {
+  name: string;
+  test: Computed<boolean>;
+}
+
+interface CompiledHandler {
+  event: string;
+  when: Condition[];
+  effects: Effect[];
+}
+
+interface CompiledFlow extends EventFlow {
+  /** Payload of a step, computed when the step before it is handled */
+  payload: (type: string, scope: ValueScope) => unknown;
+}
+
+/**
+ * A validated definition turned into the pieces machines are built from
+ */
+interface CompiledDefinition {
+  definition: SimulationDefinition;
+  allowedTransitions: Record<string, string[]>;
+  payloadSchemas: PayloadSchemas;
+  extendedState: Record<string, unknown>;
+  states: Array<{ name: string; parent?: string; initial?: string; onEntry: Effect[]; onExit: Effect[]; after?: StateTimeout[] }>;
+  transitions: Array<{ from: string | string[]; to: string; on?: string; probability?: number; guards: Condition[]; effects: Effect[] }>;
+  handlers: CompiledHandler[];
+  flows: CompiledFlow[];
+  generators: GeneratorRegistration[];
+  /** Payload of an event emitted without one */
+  defaultPayload: (type: string, context: SimulationContext) => unknown;
+  priorities: Map<string, number>;
+}
+
+const SCOPE_ROOTS = new Set(['state', 'event', 'extendedState']);
+
+/**
+ * Parses a JSON or YAML document and checks that it is a valid simulation
+ * definition. YAML is a superset of JSON, so the default format reads both.
+ */
+export function parseSimulationDefinition(text: string, format: DefinitionFormat = 'yaml'): SimulationDefinition {
+  return validateSimulationDefinition(parseDocument(text, format));
+}
+
+/**
+ * Checks the structure of a parsed document and that everything it names
+ * (states, events, extended-state fields, distributions, schedules)
+ * exists and makes sense. Throws a `SimulationDefinitionError` listing
+ * every problem.
+ */
+export function validateSimulationDefinition(document: unknown): SimulationDefinition {
+  return compileDefinition(document).definition;
+}
+
+/**
+ * Writes a definition as a YAML or JSON document
+ */
+export function stringifySimulationDefinition(definition: SimulationDefinition, format: DefinitionFormat = 'yaml'): string {
+  return format === 'json' ? `${JSON.stringify(definition, null, 2)}\n` : stringifyYaml(definition);
+}
+
+/**
+ * Builds a runnable simulation from a definition, or from the text of a
+ * JSON or YAML document. Handlers, hooks and transitions run their
+ * declared effects; follow-up events are caused by the event being handled.
+ */
+export function loadSimulation(source: SimulationDefinition | string, format: DefinitionFormat = 'yaml'): LoadedSimulation {
+  const compiled = compileDefinition(typeof source === 'string' ? parseDocument(source, format) : source);
+  const { definition } = compiled;
+  const createMachine = () => new DefinedStateMachine(compiled);
+  const stateMachine = createMachine();
+  const engine = new SimulationEngine(stateMachine);
+  const options: SimulationOptions = {
+    ...definition.simulation,
+    eventGenerators: compiled.generators,
+    finalStates: definition.finalStates ?? []
+  };
+
+  return {
+    definition,
+    stateMachine,
+    engine,
+    options,
+    createMachine,
+    start: (overrides?: SimulationOptions) => engine.start({ ...options, ...overrides }),
+    run: (overrides?: SimulationOptions) => engine.run({ ...options, ...overrides }),
+    stop: () => engine.stop()
+  };
+}
+
+/**
+ * Reads a definition file and builds its simulation; `.json` files are
+ * read as JSON, anything else as YAML
+ */
+export function loadSimulationFile(path: string): LoadedSimulation {
+  return loadSimulation(readFileSync(path, 'utf8'), path.toLowerCase().endsWith('.json') ? 'json' : 'yaml');
+}
+
+/**
+ * Name of a condition: its own, or a description of its test such as
+ * `extendedState.attempts lt 3`
+ */
+export function describeCondition(declaration: ConditionDeclaration): string {
+  const op = conditionOperator(declaration);
+  return declaration.name ?? (
+    op === 'truthy' ? declaration.path
+      : op === 'falsy' ? `!${declaration.path}`
+        : `${declaration.path} ${op} ${JSON.stringify(declaration.value)}`);
+}
+
+function parseDocument(text: string, format: DefinitionFormat): unknown {
+  try {
+    return format === 'json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new SimulationDefinitionError([`document: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+}
+
+/**
+ * Machine that runs the effects of a compiled definition
+ */
+class DefinedStateMachine extends BaseStateMachine<string, Event, Record<string, any>> {
+  private readonly _compiled: CompiledDefinition;
+
+  constructor(compiled: CompiledDefinition) {
+    // Hooks and actions only run once the machine exists
+    const ref: { machine?: DefinedStateMachine } = {};
+    super(machineConfig(compiled, ref));
+    ref.machine = this;
+    this._compiled = compiled;
+  }
+
+  /**
+   * Emits a follow-up event with the declared priority of its type and,
+   * unless given, the payload its generator would produce
+   */
+  emitFollowUp(type: string, payload: unknown, options: EmitOptions = {}): Event {
+    return this.emit(type, payload ?? this._compiled.defaultPayload(type, this.context), {
+      ...options,
+      priority: options.priority ?? this._compiled.priorities.get(type)
+    });
+  }
+
+  /**
+   * Transitions on behalf of the event being handled
+   */
+  transitionTo(state: string): boolean {
+    return this.transition(state, this._handling);
+  }
+
+  /**
+   * Logs a message from a `log` effect, if logging is enabled
+   */
+  log(message: string): void {
+    if (this._enableLogging) {
+      console.log(message);
+    }
+  }
+
+  protected handleEvent(event: Event): void {
+    const scope: ValueScope = {
+      context: this.context,
+      state: this.currentState,
+      event,
+      extendedState: this.extendedState
+    };
+    for (const handler of this._compiled.handlers) {
+      if (handler.event === event.type && handler.when.every(condition => condition.test(scope))) {
+        runEffects(handler.effects, scope, this);
+      }
+    }
+
+    // Steps get the flow's payload, so advancing a flow draws no IDs or random values of its own
+    for (const flow of this._compiled.flows) {
+      continueFlows([flow], event, (type, payload, options) => this.emitFollowUp(type, payload, options), this.context, {
+        payload: type => flow.payload(type, scope)
+      });
+    }
+  }
+}
+
+function machineConfig(compiled: CompiledDefinition, ref: { machine?: DefinedStateMachine }) {
+  const run = (effects: Effect[], scope: ValueScope) => {
+    if (ref.machine) {
+      runEffects(effects, scope, ref.machine);
+    }
+  };
+
+  const states: Record<string, StateNodeConfig<Record<string, any>>> = {};
+  for (const state of compiled.states) {
+    states[state.name] = {
+      parent: state.parent,
+      initial: state.initial,
+      after: state.after,
+      onEntry: state.onEntry.length > 0
+        ? args => run(state.onEntry, { context: args.context, state: args.state, event: args.event, extendedState: args.extendedState })
+        : undefined,
+      onExit: state.onExit.length > 0
+        ? args => run(state.onExit, { context: args.context, state: args.state, event: args.event, extendedState: args.extendedState })
+        : undefined
+    };
+  }
+
+  const transitions: Array<TransitionRule<string, Event, Record<string, any>>> = compiled.transitions.map(transition => ({
+    from: transition.from,
+    to: transition.to,
+    on: transition.on,
+    probability: transition.probability,
+    guards: transition.guards.map(guard => ({
+      name: guard.name,
+      check: args => guard.test({ context: args.context, state: args.from, event: args.event, extendedState: args.extendedState })
+    })),
+    actions: transition.effects.length > 0
+      ? [args => run(transition.effects, { context: args.context, state: args.from, event: args.event, extendedState: args.extendedState })]
+      : undefined
+  }));
+
+  return {
+    initialState: compiled.definition.initialState,
+    allowedTransitions: compiled.allowedTransitions,
+    states,
+    transitions,
+    extendedState: structuredClone(compiled.extendedState),
+    payloadSchemas: compiled.payloadSchemas,
+    enableLogging: compiled.definition.simulation?.enableLogging
+  };
+}
+
+function runEffects(effects: Effect[], scope: ValueScope, machine: DefinedStateMachine): void {
+  for (const effect of effects) {
+    effect(scope, machine);
+  }
+}
+
+function compileDefinition(document: unknown): CompiledDefinition {
+  const parsed = definitionSchema.safeParse(document);
+  if (!parsed.success) {
+    throw new SimulationDefinitionError(parsed.error.issues.map(issue =>
+      `${issue.path.length > 0 ? issue.path.join('.') : 'document'}: ${issue.message}`));
+  }
+
+  const definition = parsed.data;
+  const issues: string[] = [];
+  const issue = (at: string, message: string) => issues.push(`${at}: ${message}`);
+  const stateNames = new Set(definition.states.map(state => state.name));
+  const fields = definition.extendedState ?? {};
+  const eventNames = new Set([
+    ...(definition.events ?? []).map(event => event.name),
+    ...definition.states.flatMap(state => (state.after ?? []).map(timeout => timeout.event))
+  ]);
+  const checkState = (at: string, name: string) => {
+    if (!stateNames.has(name)) issue(at, `unknown state "${name}"`);
+  };
+  const checkEvent = (at: string, name: string) => {
+    if (!eventNames.has(name)) issue(at, `unknown event "${name}"`);
+  };
+
+  // States and their hierarchy
+  const seen = new Set<string>();
+  definition.states.forEach((state, index) => {
+    if (seen.has(state.name)) issue(`states.${index}.name`, `duplicate state "${state.name}"`);
+    // Nested states are reported as dotted paths, e.g. "Casework.Drafting"
+    if (state.name.includes('.')) issue(`states.${index}.name`, `state names cannot contain "."`);
+    seen.add(state.name);
+    if (state.parent !== undefined) checkState(`states.${index}.parent`, state.parent);
+    if (state.initial !== undefined) checkState(`states.${index}.initial`, state.initial);
+  });
+  checkState('initialState', definition.initialState);
+  (definition.finalStates ?? []).forEach((name, index) => checkState(`finalStates.${index}`, name));
+
+  // Extended state starts from each field's declared or empty value
+  const extendedState: Record<string, unknown> = {};
+  for (const [name, field] of Object.entries(fields)) {
+    const initial = field.initial !== undefined ? field.initial : emptyValue(field.type);
+    if (!fieldSchema(field.type).safeParse(initial).success) {
+      issue(`extendedState.${name}.initial`, `expected a value of type ${field.type}`);
+    }
+    extendedState[name] = initial;
+  }
+
+  // Events, their payload schemas and the empty payloads flow steps start from
+  const payloadSchemas: PayloadSchemas = {};
+  const emptyPayloads = new Map<string, Record<string, unknown>>();
+  const priorities = new Map<string, number>();
+  for (const event of definition.events ?? []) {
+    payloadSchemas[event.name] = payloadSchema(event.payload ?? []);
+    emptyPayloads.set(event.name, Object.fromEntries((event.payload ?? [])
+      .filter(field => !field.optional)
+      .map(field => [field.name, emptyValue(field.type)])));
+    if (event.priority !== undefined) priorities.set(event.name, event.priority);
+  }
+
+  const compiler = new Compiler(issue, fields, stateNames, checkEvent);
+
+  const states = definition.states.map((state, index) => ({
+    name: state.name,
+    parent: state.parent,
+    initial: state.initial,
+    after: state.after,
+    onEntry: compiler.effects(state.onEntry ?? [], `states.${index}.onEntry`, false),
+    onExit: compiler.effects(state.onExit ?? [], `states.${index}.onExit`, false)
+  }));
+
+  const allowedTransitions: Record<string, string[]> = {};
+  const transitions = (definition.transitions ?? []).map((transition, index) => {
+    const at = `transitions.${index}`;
+    const sources = Array.isArray(transition.from) ? transition.from : [transition.from];
+    sources.forEach((source, i) => checkState(Array.isArray(transition.from) ? `${at}.from.${i}` : `${at}.from`, source));
+    checkState(`${at}.to`, transition.to);
+    if (transition.on !== undefined) checkEvent(`${at}.on`, transition.on);
+    for (const source of sources) {
+      const targets = allowedTransitions[source] ??= [];
+      if (!targets.includes(transition.to)) targets.push(transition.to);
+    }
+    return {
+      from: transition.from,
+      to: transition.to,
+      on: transition.on,
+      probability: transition.probability,
+      guards: (transition.guards ?? []).map((guard, i) => compiler.condition(guard, `${at}.guards.${i}`)),
+      effects: compiler.effects(transition.effects ?? [], `${at}.effects`, false)
+    };
+  });
+
+  const handlers = (definition.handlers ?? []).map((handler, index) => {
+    checkEvent(`handlers.${index}.event`, handler.event);
+    return {
+      event: handler.event,
+      when: (handler.when ?? []).map((condition, i) => compiler.condition(condition, `handlers.${index}.when.${i}`)),
+      effects: compiler.effects(handler.effects, `handlers.${index}.effects`, true)
+    };
+  });
+
+  const flows: CompiledFlow[] = (definition.flows ?? []).map((flow, index) => {
+    const at = `flows.${index}`;
+    checkEvent(`${at}.startEvent`, flow.startEvent);
+    checkEvent(`${at}.endEvent`, flow.endEvent);
+    for (const [step, next] of Object.entries(flow.steps)) {
+      checkEvent(`${at}.steps`, step);
+      (next ?? []).forEach((name, i) => checkEvent(`${at}.steps.${step}.${i}`, name));
+    }
+    const payloads = new Map(Object.entries(flow.payload ?? {}).map(([type, fields]) => {
+      checkEvent(`${at}.payload`, type);
+      return [type, compiler.value(fields ?? {}, `${at}.payload.${type}`)] as const;
+    }));
+    return {
+      name: flow.name,
+      startEvent: flow.startEvent,
+      endEvent: flow.endEvent,
+      steps: flow.steps,
+      stepDelay: flow.stepDelay,
+      payload: (type, scope) => ({ ...emptyPayloads.get(type), ...(payloads.get(type)?.(scope) as object | undefined) })
+    };
+  });
+
+  const payloads = new Map<string, Computed<unknown>>();
+  const generators: GeneratorRegistration[] = (definition.generators ?? []).map((generator, index) => {
+    const at = `generators.${index}`;
+    checkEvent(`${at}.event`, generator.event);
+    (generator.triggeredBy ?? []).forEach((name, i) => checkEvent(`${at}.triggeredBy.${i}`, name));
+    (generator.whenStates ?? []).forEach((name, i) => checkState(`${at}.whenStates.${i}`, name));
+    if (generator.schedule && 'cron' in generator.schedule) {
+      try {
+        nextCronTime(generator.schedule.cron, 0);
+      } catch (error) {
+        issue(`${at}.schedule.cron`, error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    const payload = compiler.value(generator.payload ?? {}, `${at}.payload`);
+    if (!payloads.has(generator.event)) payloads.set(generator.event, payload);
+    const whenStates = generator.whenStates;
+    const priority = priorities.get(generator.event);
+
+    return {
+      name: generator.event,
+      weight: generator.weight,
+      rate: generator.rate,
+      interArrival: generator.interArrival,
+      schedule: generator.schedule,
+      triggeredBy: generator.triggeredBy,
+      maxOccurrences: generator.maxOccurrences,
+      // The current state is the active path, so ancestors of a nested state count too
+      enabled: whenStates ? (state: unknown) => String(state).split('.').some(s => whenStates.includes(s)) : undefined,
+      generate: (context: SimulationContext): Event => ({
+        id: context.ids.next('evt'),
+        type: generator.event,
+        timestamp: context.clock.nowISO(),
+        payload: payload({ context }),
+        ...(priority !== undefined && { priority })
+      })
+    };
+  });
+
+  if (issues.length > 0) {
+    throw new SimulationDefinitionError(issues);
+  }
+
+  return {
+    definition,
+    allowedTransitions,
+    payloadSchemas,
+    extendedState,
+    states,
+    transitions,
+    handlers,
+    flows,
+    generators,
+    defaultPayload: (type, context) => payloads.get(type)?.({ context }) ?? {},
+    priorities
+  };
+}
+
+/**
+ * Turns declared values, conditions and effects into functions, reporting
+ * what they refer to that doesn't exist
+ */
+class Compiler {
+  private readonly issue: (at: string, message: string) => void;
+  private readonly fields: Record<string, ExtendedFieldDeclaration>;
+  private readonly stateNames: Set<string>;
+  private readonly checkEvent: (at: string, name: string) => void;
+
+  constructor(
+    issue: (at: string, message: string) => void,
+    fields: Record<string, ExtendedFieldDeclaration>,
+    stateNames: Set<string>,
+    checkEvent: (at: string, name: string) => void
+  ) {
+    this.issue = issue;
+    this.fields = fields;
+    this.stateNames = stateNames;
+    this.checkEvent = checkEvent;
+  }
+
+  value(spec: ValueSpec | undefined, at: string): Computed<unknown> {
+    if (spec === null || typeof spec !== 'object') {
+      return () => spec;
+    }
+    if (Array.isArray(spec)) {
+      const items = spec.map((item, i) => this.value(item, `${at}.${i}`));
+      return scope => items.map(item => item(scope));
+    }
+
+    const operators = Object.keys(spec).filter(key => key.startsWith('$'));
+    if (operators.length === 0) {
+      const entries = Object.entries(spec).map(([key, item]) => [key, this.value(item, `${at}.${key}`)] as const);
+      return scope => Object.fromEntries(entries.map(([key, item]) => [key, item(scope)]));
+    }
+    return this.operator(spec, operators, at);
+  }
+
+  condition(declaration: ConditionDeclaration, at: string): Condition {
+    this.path(declaration.path, `${at}.path`);
+    const op = conditionOperator(declaration);
+    const expected = this.value(declaration.value, `${at}.value`);
+
+    return {
+      name: describeCondition(declaration),
+      test: scope => compare(op, readPath(scope, declaration.path), expected(scope))
+    };
+  }
+
+  effects(declarations: EffectDeclaration[], at: string, inHandler: boolean): Effect[] {
+    return declarations.map((declaration, index) => this.effect(declaration, `${at}.${index}`, inHandler));
+  }
+
+  private effect(declaration: EffectDeclaration, at: string, inHandler: boolean): Effect {
+    switch (declaration.type) {
+      case 'set': {
+        this.field(declaration.path, `${at}.path`);
+        const value = this.value(declaration.value, `${at}.value`);
+        return scope => writePath(scope.extendedState, declaration.path, value(scope));
+      }
+      case 'increment': {
+        this.field(declaration.path, `${at}.path`);
+        const by = this.value(declaration.by ?? 1, `${at}.by`);
+        return scope => {
+          const current = Number(readPath(scope, `extendedState.${declaration.path}`) ?? 0);
+          writePath(scope.extendedState, declaration.path, current + Number(by(scope)));
+        };
+      }
+      case 'push': {
+        this.field(declaration.path, `${at}.path`);
+        const value = this.value(declaration.value, `${at}.value`);
+        return scope => {
+          const current = readPath(scope, `extendedState.${declaration.path}`);
+          const list = Array.isArray(current) ? current : [];
+          list.push(value(scope));
+          if (list !== current) writePath(scope.extendedState, declaration.path, list);
+        };
+      }
+      case 'emit': {
+        this.checkEvent(`${at}.event`, declaration.event);
+        const payload = declaration.payload !== undefined ? this.value(declaration.payload, `${at}.payload`) : undefined;
+        const { event, priority, delay: fixed } = declaration;
+        const delay = typeof fixed === 'object'
+          ? this.distribution(fixed, `${at}.delay`)
+          : () => fixed ?? 0;
+        return (scope, machine) => {
+          machine.emitFollowUp(event, payload?.(scope), { delay: Math.max(0, delay(scope)), priority });
+        };
+      }
+      case 'transition': {
+        if (!this.stateNames.has(declaration.to)) this.issue(`${at}.to`, `unknown state "${declaration.to}"`);
+        if (!inHandler) this.issue(at, 'transitions can only be started from handlers');
+        return (_scope, machine) => {
+          machine.transitionTo(declaration.to);
+        };
+      }
+      case 'log': {
+        const message = this.value(declaration.message, `${at}.message`);
+        return (scope, machine) => machine.log(String(message(scope)));
+      }
+    }
+  }
+
+  private operator(spec: { [key: string]: ValueSpec }, operators: string[], at: string): Computed<unknown> {
+    const [operator] = operators;
+    const allowed = operator === '$sample' ? ['$sample', '$round'] : [operator];
+    const extra = Object.keys(spec).filter(key => !allowed.includes(key));
+    if (extra.length > 0) {
+      this.issue(at, `unexpected ${extra.join(', ')} next to ${operator}`);
+    }
+
+    const argument = spec[operator!];
+    switch (operator) {
+      case '$literal':
+        return () => structuredClone(argument);
+      case '$sample': {
+        const sample = this.distribution(argument, `${at}.$sample`);
+        return spec.$round === true ? scope => Math.round(sample(scope)) : sample;
+      }
+      case '$pick': {
+        if (!Array.isArray(argument) || argument.length === 0) {
+          this.issue(`${at}.$pick`, 'expected a non-empty list');
+          return () => undefined;
+        }
+        const options = argument.map((item, i) => this.value(item, `${at}.$pick.${i}`));
+        return scope => pick(options, scope.context.random)(scope);
+      }
+      case '$chance':
+        if (typeof argument !== 'number' || argument < 0 || argument > 1) {
+          this.issue(`${at}.$chance`, 'expected a probability between 0 and 1');
+        }
+        return scope => scope.context.random.next() < Number(argument);
+      case '$ref':
+        if (typeof argument !== 'string') {
+          this.issue(`${at}.$ref`, 'expected a path');
+          return () => undefined;
+        }
+        this.path(argument, `${at}.$ref`);
+        return scope => structuredClone(readPath(scope, argument));
+      case '$now':
+        if (typeof argument !== 'number') {
+          this.issue(`${at}.$now`, 'expected an offset in milliseconds');
+        }
+        return scope => new Date(scope.context.clock.now + Number(argument)).toISOString();
+      case '$id':
+        return scope => scope.context.ids.next(typeof argument === 'string' ? argument : 'id');
+      default:
+        this.issue(at, `unknown operator ${operator}`);
+        return () => undefined;
+    }
+  }
+
+  private distribution(spec: unknown, at: string): Computed<number> {
+    const parsed = distributionSchema.safeParse(spec);
+    if (!parsed.success) {
+      this.issue(at, `invalid distribution (${parsed.error.issues.map(issue => issue.message).join(', ')})`);
+      return () => 0;
+    }
+    const distribution = createDistribution(parsed.data);
+    return scope => distribution.sample(scope.context.random);
+  }
+
+  private path(path: string, at: string): void {
+    const [root, field] = path.split('.');
+    if (!SCOPE_ROOTS.has(root ?? '')) {
+      this.issue(at, `path must start with state, event or extendedState, got "${path}"`);
+    } else if (root === 'extendedState' && field !== undefined) {
+      this.field(path.slice('extendedState.'.length), at);
+    }
+  }
+
+  private field(path: string, at: string): void {
+    const [field] = path.split('.');
+    if (!field || !(field in this.fields)) {
+      this.issue(at, `unknown extended-state field "${field ?? ''}"`);
+    }
+  }
+}
+
+function conditionOperator(declaration: ConditionDeclaration): ConditionOperator {
+  return declaration.op ?? (declaration.value !== undefined ? 'eq' : 'truthy');
+}
+
+function compare(op: ConditionOperator, actual: unknown, expected: unknown): boolean {
+  switch (op) {
+    case 'eq': return actual === expected;
+    case 'ne': return actual !== expected;
+    case 'lt': return Number(actual) < Number(expected);
+    case 'lte': return Number(actual) <= Number(expected);
+    case 'gt': return Number(actual) > Number(expected);
+    case 'gte': return Number(actual) >= Number(expected);
+    case 'in': return Array.isArray(expected) && expected.includes(actual);
+    case 'truthy': return Boolean(actual);
+    case 'falsy': return !actual;
+  }
+}
+
+function readPath(scope: ValueScope, path: string): unknown {
+  let value: unknown = { state: scope.state, event: scope.event, extendedState: scope.extendedState };
+  for (const key of path.split('.')) {
+    if (value === null || typeof value !== 'object') {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function writePath(target: Record<string, any> | undefined, path: string, value: unknown): void {
+  if (!target) {
+    return;
+  }
+  const keys = path.split('.');
+  const last = keys.pop()!;
+  let node = target;
+  for (const key of keys) {
+    if (node[key] === null || typeof node[key] !== 'object') {
+      node[key] = {};
+    }
+    node = node[key];
+  }
+  node[last] = value;
+}
+
+/**
+ * Schema of a declared field type, matching the generator's payload schemas
+ */
+function fieldSchema(type: string): z.ZodTypeAny {
+  switch (type.toLowerCase()) {
+    case 'string':
+    case 'date':
+    case 'datetime':
+      return z.string();
+    case 'number':
+    case 'integer':
+    case 'float':
+      return z.number();
+    case 'boolean':
+      return z.boolean();
+    case 'object':
+      return z.record(z.unknown());
+    case 'array':
+      return z.array(z.unknown());
+    default:
+      return type.endsWith('[]') ? z.array(z.unknown()) : z.unknown();
+  }
+}
+
+function emptyValue(type: string): unknown {
+  const schema = fieldSchema(type);
+  if (schema instanceof z.ZodString) return '';
+  if (schema instanceof z.ZodNumber) return 0;
+  if (schema instanceof z.ZodBoolean) return false;
+  if (schema instanceof z.ZodRecord) return {};
+  if (schema instanceof z.ZodArray) return [];
+  return null;
+}
+
+/**
+ * Declared payload fields become an object schema; events without fields
+ * only need an object payload
+ */
+function payloadSchema(fields: PayloadFieldDeclaration[]): z.ZodTypeAny {
+  if (fields.length === 0) {
+    return z.record(z.unknown());
+  }
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const field of fields) {
+    let schema = fieldSchema(field.type);
+    if (field.description) schema = schema.describe(field.description);
+    shape[field.name] = field.optional ? schema.optional() : schema;
+  }
+  return z.object(shape);
+}
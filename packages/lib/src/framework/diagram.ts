@@ -0,0 +1,481 @@
+/**
+ * State machine diagrams as Mermaid, Graphviz DOT and PlantUML
+ */
+
+import { BaseStateMachine } from './state-machine.js';
+import type { StateMachine } from './state-machine.js';
+import { ParallelStateMachine } from './parallel-state-machine.js';
+import { describeCondition } from './definition.js';
+import type { SimulationDefinition } from './definition.js';
+
+/**
+ * A state in a diagram
+ */
+export interface StateGraphNode {
+  /** Unique name; states of a parallel machine's regions are named `region.state` */
+  name: string;
+  /** Shown instead of the name */
+  label?: string;
+  /** Compound state this state is part of */
+  parent?: string;
+  /** Child entered when this compound state is entered */
+  initial?: string;
+}
+
+/**
+ * A transition in a diagram
+ */
+export interface StateGraphEdge {
+  from: string;
+  to: string;
+  /** Event type that takes the transition */
+  event?: string;
+  /** Names of the guards that must pass */
+  guards?: string[];
+  /** Declared chance the transition fires on its event */
+  probability?: number;
+}
+
+/**
+ * The states and transitions a diagram is drawn from
+ */
+export interface StateGraph {
+  nodes: StateGraphNode[];
+  edges: StateGraphEdge[];
+  initialState?: string;
+  finalStates?: string[];
+}
+
+/**
+ * What happened in a completed run, drawn on top of the transitions
+ */
+export interface DiagramOverlay {
+  /** Transitions taken, keyed "from -> to" like `MetricsSummary.transitions` */
+  counts: Record<string, number>;
+  /** Label transitions with how often they were taken (default) or with their share of the transitions leaving their state */
+  show?: 'counts' | 'probabilities';
+}
+
+/**
+ * Options shared by the diagram formats
+ */
+export interface DiagramOptions {
+  title?: string;
+  /** Layout direction (default: top to bottom) */
+  direction?: 'TB' | 'LR';
+  overlay?: DiagramOverlay;
+}
+
+/**
+ * What a diagram can be drawn from: a graph, or a machine to take one from
+ */
+export type DiagramSource = StateGraph | StateMachine<any, any>;
+
+/**
+ * Builds the graph of a machine: its transition table (with events,
+ * guards and probabilities) and the edges of `allowedTransitions` no rule
+ * covers, plus the state hierarchy of a `BaseStateMachine` and the
+ * regions of a `ParallelStateMachine`. Machines don't know which states
+ * are final, so pass them to have them drawn.
+ */
+export function stateGraph(machine: StateMachine<any, any>, options: { finalStates?: string[] } = {}): StateGraph {
+  if (machine instanceof ParallelStateMachine) {
+    // Each region is a compound state of its own, with its states prefixed by its name
+    const nodes: StateGraphNode[] = [];
+    const edges: StateGraphEdge[] = [];
+    for (const name of machine.regionNames) {
+      const region = stateGraph(machine.region(name));
+      const prefixed = (state: string) => `${name}.${state}`;
+      nodes.push({ name, initial: region.initialState !== undefined ? prefixed(region.initialState) : undefined });
+      for (const node of region.nodes) {
+        nodes.push({
+          name: prefixed(node.name),
+          label: node.label ?? node.name,
+          parent: node.parent !== undefined ? prefixed(node.parent) : name,
+          initial: node.initial !== undefined ? prefixed(node.initial) : undefined
+        });
+      }
+      for (const edge of region.edges) {
+        edges.push({ ...edge, from: prefixed(edge.from), to: prefixed(edge.to) });
+      }
+    }
+    return { nodes, edges, finalStates: options.finalStates };
+  }
+
+  const names = new Set<string>();
+  const nodes: StateGraphNode[] = [];
+  const addNode = (name: string, node: Omit<StateGraphNode, 'name'> = {}) => {
+    if (!names.has(name)) {
+      names.add(name);
+      nodes.push({ name, ...node });
+    }
+  };
+  const edges: StateGraphEdge[] = [];
+  let initialState = String(machine.currentState);
+
+  if (machine instanceof BaseStateMachine) {
+    initialState = String(machine.stateHistory[0]?.state ?? machine.currentState);
+    for (const [name, config] of Object.entries(machine.states)) {
+      addNode(name, { parent: config.parent, initial: config.initial });
+    }
+    for (const rule of machine.transitions) {
+      for (const from of Array.isArray(rule.from) ? rule.from : [rule.from]) {
+        edges.push({
+          from,
+          to: rule.to,
+          event: rule.on,
+          guards: rule.guards && rule.guards.length > 0 ? rule.guards.map(guard => guard.name) : undefined,
+          probability: rule.probability
+        });
+      }
+    }
+  }
+
+  // Edges a rule already draws are left out
+  for (const [from, targets] of Object.entries(machine.allowedTransitions)) {
+    for (const to of targets) {
+      if (!edges.some(edge => edge.from === from && edge.to === to)) {
+        edges.push({ from, to });
+      }
+    }
+  }
+
+  addNode(initialState);
+  for (const edge of edges) {
+    addNode(edge.from);
+    addNode(edge.to);
+  }
+  for (const state of options.finalStates ?? []) {
+    addNode(state);
+  }
+
+  return { nodes, edges, initialState, finalStates: options.finalStates };
+}
+
+/**
+ * Builds the graph of a simulation definition. Transitions without an
+ * event are labelled with their description.
+ */
+export function definitionStateGraph(definition: SimulationDefinition): StateGraph {
+  return {
+    nodes: definition.states.map(state => ({ name: state.name, parent: state.parent, initial: state.initial })),
+    edges: (definition.transitions ?? []).flatMap(transition =>
+      (Array.isArray(transition.from) ? transition.from : [transition.from]).map(from => ({
+        from,
+        to: transition.to,
+        event: transition.on ?? transition.description,
+        guards: transition.guards && transition.guards.length > 0 ? transition.guards.map(describeCondition) : undefined,
+        probability: transition.probability
+      }))),
+    initialState: definition.initialState,
+    finalStates: definition.finalStates
+  };
+}
+
+/**
+ * Counts the transitions in a machine's state history, keyed "from -> to"
+ * like `MetricsSummary.transitions`; regions of a parallel machine are
+ * counted with their states prefixed by the region name
+ */
+export function transitionCounts(machine: StateMachine<any, any>): Record<string, number> {
+  const counts: Record<string, number> = {};
+  const count = (history: Array<{ state: unknown }>, prefix: string) => {
+    for (let i = 1; i < history.length; i++) {
+      const key = `${prefix}${String(history[i - 1]!.state)} -> ${prefix}${String(history[i]!.state)}`;
+      counts[key] = (counts[key] ?? 0) + 1;
+    }
+  };
+
+  if (machine instanceof ParallelStateMachine) {
+    for (const [region, history] of Object.entries(machine.stateHistory)) {
+      count(history, `${region}.`);
+    }
+  } else if (machine instanceof BaseStateMachine) {
+    count(machine.stateHistory, '');
+  }
+  return counts;
+}
+
+/**
+ * Renders a Mermaid `stateDiagram-v2`, e.g. for a fenced `mermaid` block in Markdown
+ */
+export function toMermaid(source: DiagramSource, options: DiagramOptions = {}): string {
+  const graph = toStateGraph(source);
+  const ids = nodeIds(graph);
+  const overlay = overlayLabels(graph, options.overlay);
+  const lines: string[] = [];
+
+  if (options.title) {
+    lines.push('---', `title: ${options.title}`, '---');
+  }
+  lines.push('stateDiagram-v2');
+  if (options.direction) {
+    lines.push(`  direction ${options.direction}`);
+  }
+
+  const writeNodes = (parent: string | undefined, indent: string) => {
+    for (const node of childNodes(graph, parent)) {
+      const id = ids.get(node.name)!;
+      const label = node.label ?? node.name;
+      if (label !== id) {
+        lines.push(`${indent}state "${quoted(label)}" as ${id}`);
+      }
+      if (childNodes(graph, node.name).length > 0) {
+        lines.push(`${indent}state ${id} {`);
+        if (node.initial !== undefined && ids.has(node.initial)) {
+          lines.push(`${indent}  [*] --> ${ids.get(node.initial)}`);
+        }
+        writeNodes(node.name, `${indent}  `);
+        lines.push(`${indent}}`);
+      } else if (label === id) {
+        lines.push(`${indent}${id}`);
+      }
+    }
+  };
+  writeNodes(undefined, '  ');
+
+  if (graph.initialState !== undefined && ids.has(graph.initialState)) {
+    lines.push(`  [*] --> ${ids.get(graph.initialState)}`);
+  }
+  graph.edges.forEach((edge, index) => {
+    const label = edgeLabel(edge, overlay[index]);
+    lines.push(`  ${ids.get(edge.from)} --> ${ids.get(edge.to)}${label ? ` : ${label}` : ''}`);
+  });
+  for (const state of graph.finalStates ?? []) {
+    if (ids.has(state)) {
+      lines.push(`  ${ids.get(state)} --> [*]`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Renders a Graphviz DOT digraph. Compound states are clusters; with an
+ * overlay, busier transitions are drawn thicker and unused ones dashed.
+ */
+export function toDot(source: DiagramSource, options: DiagramOptions = {}): string {
+  const graph = toStateGraph(source);
+  const overlay = overlayLabels(graph, options.overlay);
+  const finals = new Set(graph.finalStates ?? []);
+  const compound = new Set(graph.nodes.filter(node => childNodes(graph, node.name).length > 0).map(node => node.name));
+  const busiest = Math.max(1, ...overlay.map(entry => entry?.count ?? 0));
+  const lines: string[] = [`digraph ${dotId(options.title ?? 'StateMachine')} {`];
+
+  if (compound.size > 0) {
+    lines.push('  compound=true;');
+  }
+  if (options.direction === 'LR') {
+    lines.push('  rankdir=LR;');
+  }
+  if (options.title) {
+    lines.push(`  label=${dotId(options.title)};`, '  labelloc=t;');
+  }
+  lines.push('  node [shape=box, style=rounded];');
+
+  const writeNodes = (parent: string | undefined, indent: string) => {
+    for (const node of childNodes(graph, parent)) {
+      if (compound.has(node.name)) {
+        lines.push(`${indent}subgraph ${dotId(`cluster_${node.name}`)} {`);
+        lines.push(`${indent}  label=${dotId(node.label ?? node.name)};`);
+        writeNodes(node.name, `${indent}  `);
+        lines.push(`${indent}}`);
+        continue;
+      }
+      const attributes: string[] = [];
+      if (node.label !== undefined && node.label !== node.name) attributes.push(`label=${dotId(node.label)}`);
+      if (finals.has(node.name)) attributes.push('peripheries=2');
+      lines.push(`${indent}${dotId(node.name)}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`);
+    }
+  };
+  writeNodes(undefined, '  ');
+
+  // Edges can't end at a cluster, so they end at a state inside it and are clipped to its border
+  const endpoint = (name: string): string => {
+    let leaf = name;
+    for (let depth = 0; compound.has(leaf) && depth < graph.nodes.length; depth++) {
+      const node = graph.nodes.find(n => n.name === leaf);
+      leaf = node?.initial ?? childNodes(graph, leaf)[0]!.name;
+    }
+    return leaf;
+  };
+
+  if (graph.initialState !== undefined) {
+    lines.push('  __start [shape=point, label=""];');
+    lines.push(`  __start -> ${dotId(endpoint(graph.initialState))}${compound.has(graph.initialState) ? ` [lhead=${dotId(`cluster_${graph.initialState}`)}]` : ''};`);
+  }
+  graph.edges.forEach((edge, index) => {
+    const attributes: string[] = [];
+    const label = edgeLabel(edge, overlay[index]);
+    if (label) attributes.push(`label=${dotId(label)}`);
+    if (compound.has(edge.from)) attributes.push(`ltail=${dotId(`cluster_${edge.from}`)}`);
+    if (compound.has(edge.to)) attributes.push(`lhead=${dotId(`cluster_${edge.to}`)}`);
+    const entry = overlay[index];
+    if (entry && entry.count === 0) {
+      attributes.push('style=dashed', 'color=gray');
+    } else if (entry) {
+      attributes.push(`penwidth=${(1 + 3 * entry.count / busiest).toFixed(2)}`);
+    }
+    lines.push(`  ${dotId(endpoint(edge.from))} -> ${dotId(endpoint(edge.to))}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`);
+  });
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Renders a PlantUML state diagram; with an overlay, unused transitions are dashed
+ */
+export function toPlantUml(source: DiagramSource, options: DiagramOptions = {}): string {
+  const graph = toStateGraph(source);
+  const ids = nodeIds(graph);
+  const overlay = overlayLabels(graph, options.overlay);
+  const lines: string[] = ['@startuml'];
+
+  if (options.title) {
+    lines.push(`title ${options.title}`);
+  }
+  if (options.direction === 'LR') {
+    lines.push('left to right direction');
+  }
+
+  const writeNodes = (parent: string | undefined, indent: string) => {
+    for (const node of childNodes(graph, parent)) {
+      const id = ids.get(node.name)!;
+      const label = node.label ?? node.name;
+      const declaration = label !== id ? `state "${quoted(label)}" as ${id}` : `state ${id}`;
+      if (childNodes(graph, node.name).length > 0) {
+        lines.push(`${indent}${declaration} {`);
+        if (node.initial !== undefined && ids.has(node.initial)) {
+          lines.push(`${indent}  [*] --> ${ids.get(node.initial)}`);
+        }
+        writeNodes(node.name, `${indent}  `);
+        lines.push(`${indent}}`);
+      } else {
+        lines.push(`${indent}${declaration}`);
+      }
+    }
+  };
+  writeNodes(undefined, '');
+
+  if (graph.initialState !== undefined && ids.has(graph.initialState)) {
+    lines.push(`[*] --> ${ids.get(graph.initialState)}`);
+  }
+  graph.edges.forEach((edge, index) => {
+    const label = edgeLabel(edge, overlay[index]);
+    const arrow = overlay[index]?.count === 0 ? '-[dashed]->' : '-->';
+    lines.push(`${ids.get(edge.from)} ${arrow} ${ids.get(edge.to)}${label ? ` : ${label}` : ''}`);
+  });
+  for (const state of graph.finalStates ?? []) {
+    if (ids.has(state)) {
+      lines.push(`${ids.get(state)} --> [*]`);
+    }
+  }
+
+  lines.push('@enduml');
+  return lines.join('\n');
+}
+
+function toStateGraph(source: DiagramSource): StateGraph {
+  const graph = 'nodes' in source && 'edges' in source ? source : stateGraph(source);
+  // Edges may name states the graph doesn't list; draw those as top-level states
+  const names = new Set(graph.nodes.map(node => node.name));
+  const missing = [...new Set(graph.edges.flatMap(edge => [edge.from, edge.to]))].filter(name => !names.has(name));
+  return missing.length > 0 ? { ...graph, nodes: [...graph.nodes, ...missing.map(name => ({ name }))] } : graph;
+}
+
+function childNodes(graph: StateGraph, parent: string | undefined): StateGraphNode[] {
+  const names = new Set(graph.nodes.map(node => node.name));
+  return graph.nodes.filter(node =>
+    (node.parent !== undefined && names.has(node.parent) && node.parent !== node.name ? node.parent : undefined) === parent);
+}
+
+/**
+ * Identifiers Mermaid and PlantUML accept, unique per state; states whose
+ * name isn't one are declared with their name as a label
+ */
+function nodeIds(graph: StateGraph): Map<string, string> {
+  const ids = new Map<string, string>();
+  const used = new Set<string>();
+  for (const node of graph.nodes) {
+    let base = node.name.replace(/[^A-Za-z0-9_]/g, '_');
+    if (!/^[A-Za-z_]/.test(base)) base = `s_${base}`;
+    let id = base;
+    for (let n = 2; used.has(id); n++) id = `${base}_${n}`;
+    used.add(id);
+    ids.set(node.name, id);
+  }
+  return ids;
+}
+
+/**
+ * Count and label of each edge under an overlay. A recorded transition
+ * counts towards the most specific edge that covers it, so one between
+ * children of a compound state can count towards the compound's edge.
+ */
+function overlayLabels(graph: StateGraph, overlay: DiagramOverlay | undefined): Array<{ count: number; text: string } | undefined> {
+  if (!overlay) {
+    return graph.edges.map(() => undefined);
+  }
+
+  const parents = new Map(graph.nodes.map(node => [node.name, node.parent]));
+  const lineage = (state: string): string[] => {
+    const path: string[] = [];
+    for (let current: string | undefined = state; current !== undefined && !path.includes(current); current = parents.get(current)) {
+      path.push(current);
+    }
+    return path;
+  };
+
+  const counts = graph.edges.map(() => 0);
+  for (const [key, count] of Object.entries(overlay.counts)) {
+    const [from, to] = key.split(' -> ');
+    if (from === undefined || to === undefined) continue;
+    const sources = lineage(from);
+    const targets = lineage(to);
+
+    let best = -1;
+    let bestRank = Infinity;
+    graph.edges.forEach((edge, index) => {
+      const source = sources.indexOf(edge.from);
+      const target = targets.indexOf(edge.to);
+      if (source === -1 || target === -1) return;
+      const rank = source * targets.length + target;
+      if (rank < bestRank) {
+        best = index;
+        bestRank = rank;
+      }
+    });
+    if (best !== -1) counts[best]! += count;
+  }
+
+  const leaving = new Map<string, number>();
+  graph.edges.forEach((edge, index) => leaving.set(edge.from, (leaving.get(edge.from) ?? 0) + counts[index]!));
+
+  return graph.edges.map((edge, index) => {
+    const count = counts[index]!;
+    if (overlay.show === 'probabilities') {
+      const total = leaving.get(edge.from) ?? 0;
+      return { count, text: total > 0 ? `${Math.round(100 * count / total)}%` : '0%' };
+    }
+    return { count, text: `×${count}` };
+  });
+}
+
+function edgeLabel(edge: StateGraphEdge, overlay: { text: string } | undefined): string {
+  const parts: string[] = [];
+  if (edge.event) parts.push(edge.event);
+  if (edge.guards && edge.guards.length > 0) parts.push(`[${edge.guards.join(', ')}]`);
+  if (edge.probability !== undefined && edge.probability < 1) parts.push(`p=${edge.probability}`);
+  if (overlay) parts.push(overlay.text);
+  // Labels are single-line in every format
+  return parts.join(' ').replace(/[\r\n;]+/g, ' ');
+}
+
+function quoted(label: string): string {
+  return label.replace(/"/g, "'").replace(/[\r\n]+/g, ' ');
+}
+
+function dotId(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/[\r\n]+/g, ' ')}"`;
+}
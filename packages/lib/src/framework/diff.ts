@@ -0,0 +1,115 @@
+/**
+ * Structural diffs of plain data, used to move extended state through time
+ */
+
+/**
+ * Key of an object property or array index
+ */
+export type PathKey = string | number;
+
+/**
+ * One difference between two values. Array length changes are recorded as
+ * a splice of the tail so they can be undone.
+ */
+export type ValueChange =
+  | { op: 'add'; path: PathKey[]; after: unknown }
+  | { op: 'remove'; path: PathKey[]; before: unknown }
+  | { op: 'replace'; path: PathKey[]; before: unknown; after: unknown }
+  | { op: 'splice'; path: PathKey[]; index: number; before: unknown[]; after: unknown[] };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Lists the changes that turn `before` into `after`
+ */
+export function diffValues(before: unknown, after: unknown, path: PathKey[] = []): ValueChange[] {
+  if (Object.is(before, after)) {
+    return [];
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const common = Math.min(before.length, after.length);
+    const changes: ValueChange[] = [];
+    for (let i = 0; i < common; i++) {
+      changes.push(...diffValues(before[i], after[i], [...path, i]));
+    }
+    if (before.length !== after.length) {
+      changes.push({
+        op: 'splice',
+        path,
+        index: common,
+        before: structuredClone(before.slice(common)),
+        after: structuredClone(after.slice(common))
+      });
+    }
+    return changes;
+  }
+
+  if (isObject(before) && isObject(after)) {
+    const changes: ValueChange[] = [];
+    for (const key of Object.keys(before)) {
+      if (!(key in after)) {
+        changes.push({ op: 'remove', path: [...path, key], before: structuredClone(before[key]) });
+      } else {
+        changes.push(...diffValues(before[key], after[key], [...path, key]));
+      }
+    }
+    for (const key of Object.keys(after)) {
+      if (!(key in before)) {
+        changes.push({ op: 'add', path: [...path, key], after: structuredClone(after[key]) });
+      }
+    }
+    return changes;
+  }
+
+  return [{ op: 'replace', path, before: structuredClone(before), after: structuredClone(after) }];
+}
+
+/**
+ * Applies changes in place, forwards or in reverse, and returns the
+ * result (a new value only when the root itself is replaced)
+ */
+export function applyChanges<T>(target: T, changes: ValueChange[], direction: 'forward' | 'backward' = 'forward'): T {
+  let root: unknown = target;
+  const ordered = direction === 'forward' ? changes : [...changes].reverse();
+
+  for (const change of ordered) {
+    const forward = direction === 'forward';
+
+    if (change.op === 'splice') {
+      const array = resolve(root, change.path) as unknown[];
+      const items = structuredClone(forward ? change.after : change.before);
+      array.splice(change.index, array.length - change.index, ...items);
+      continue;
+    }
+
+    // add and remove are each other's inverse
+    const op = forward ? change.op : change.op === 'add' ? 'remove' : change.op === 'remove' ? 'add' : 'replace';
+    const value = structuredClone(
+      change.op === 'replace' ? (forward ? change.after : change.before)
+        : change.op === 'add' ? change.after
+        : change.before
+    );
+
+    if (change.path.length === 0) {
+      root = op === 'remove' ? undefined : value;
+      continue;
+    }
+
+    const parent = resolve(root, change.path.slice(0, -1)) as Record<PathKey, unknown>;
+    const key = change.path[change.path.length - 1]!;
+    if (op === 'remove') {
+      delete parent[key];
+    } else {
+      parent[key] = value;
+    }
+  }
+
+  return root as T;
+}
+
+function resolve(root: unknown, path: PathKey[]): unknown {
+  return path.reduce<unknown>((node, key) => (node as Record<PathKey, unknown>)[key], root);
+}
@@ -0,0 +1,259 @@
+/**
+ * Probability distributions for event timing and payload values
+ */
+
+import { mathRandom } from './random.js';
+import type { RandomSource } from './random.js';
+
+/**
+ * Serializable description of a distribution
+ */
+export type DistributionSpec =
+  | { type: 'constant'; value: number }
+  | { type: 'uniform'; min: number; max: number }
+  | { type: 'exponential'; rate: number }
+  | { type: 'poisson'; lambda: number }
+  | { type: 'normal'; mean: number; stdDev: number }
+  | { type: 'lognormal'; mu: number; sigma: number }
+  | { type: 'triangular'; min: number; mode: number; max: number }
+  | { type: 'weibull'; shape: number; scale: number }
+  | { type: 'empirical'; values: number[] }
+  | { type: 'histogram'; bins: Array<{ min: number; max: number; weight: number }> }
+  | { type: 'bernoulli'; p: number };
+
+/**
+ * A distribution that can be sampled with any random source
+ */
+export interface Distribution {
+  /** The description the distribution was built from */
+  readonly spec: DistributionSpec;
+  /** Expected value of a sample */
+  readonly mean: number;
+  /** Draws a single value */
+  sample(random?: RandomSource): number;
+}
+
+/**
+ * Anything that can be turned into a distribution
+ */
+export type DistributionLike = Distribution | DistributionSpec;
+
+/**
+ * Draws a standard normal value using the Box-Muller transform
+ */
+function standardNormal(random: RandomSource): number {
+  // 1 - next() keeps the argument of log in (0, 1]
+  const u1 = 1 - random.next();
+  const u2 = random.next();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+function define(
+  spec: DistributionSpec,
+  mean: number,
+  sample: (random: RandomSource) => number
+): Distribution {
+  return {
+    spec,
+    mean,
+    sample: (random: RandomSource = mathRandom) => sample(random)
+  };
+}
+
+/**
+ * Always returns the same value
+ */
+export function constant(value: number): Distribution {
+  return define({ type: 'constant', value }, value, () => value);
+}
+
+/**
+ * Continuous uniform distribution on [min, max)
+ */
+export function uniform(min: number, max: number): Distribution {
+  if (max < min) {
+    throw new Error(`uniform: max (${max}) must not be below min (${min})`);
+  }
+  return define({ type: 'uniform', min, max }, (min + max) / 2,
+    (random) => min + random.next() * (max - min));
+}
+
+/**
+ * Exponential distribution with the given rate (events per unit of time).
+ * Used as the inter-arrival time of a Poisson arrival process.
+ */
+export function exponential(rate: number): Distribution {
+  if (rate <= 0) {
+    throw new Error(`exponential: rate must be positive, got ${rate}`);
+  }
+  return define({ type: 'exponential', rate }, 1 / rate,
+    (random) => -Math.log(1 - random.next()) / rate);
+}
+
+/**
+ * Poisson distribution: the number of arrivals in an interval with mean lambda
+ */
+export function poisson(lambda: number): Distribution {
+  if (lambda < 0) {
+    throw new Error(`poisson: lambda must not be negative, got ${lambda}`);
+  }
+  return define({ type: 'poisson', lambda }, lambda, (random) => {
+    // Normal approximation keeps large lambdas from looping for long
+    if (lambda > 30) {
+      return Math.max(0, Math.round(lambda + Math.sqrt(lambda) * standardNormal(random)));
+    }
+
+    // Knuth's multiplication method
+    const limit = Math.exp(-lambda);
+    let count = 0;
+    let product = random.next();
+    while (product > limit) {
+      count++;
+      product *= random.next();
+    }
+    return count;
+  });
+}
+
+/**
+ * Normal (Gaussian) distribution
+ */
+export function normal(mean: number, stdDev: number): Distribution {
+  if (stdDev < 0) {
+    throw new Error(`normal: stdDev must not be negative, got ${stdDev}`);
+  }
+  return define({ type: 'normal', mean, stdDev }, mean,
+    (random) => mean + stdDev * standardNormal(random));
+}
+
+/**
+ * Lognormal distribution; mu and sigma are the parameters of the underlying normal
+ */
+export function lognormal(mu: number, sigma: number): Distribution {
+  if (sigma < 0) {
+    throw new Error(`lognormal: sigma must not be negative, got ${sigma}`);
+  }
+  return define({ type: 'lognormal', mu, sigma }, Math.exp(mu + (sigma * sigma) / 2),
+    (random) => Math.exp(mu + sigma * standardNormal(random)));
+}
+
+/**
+ * Triangular distribution on [min, max] peaking at mode
+ */
+export function triangular(min: number, mode: number, max: number): Distribution {
+  if (!(min <= mode && mode <= max) || min === max) {
+    throw new Error(`triangular: expected min <= mode <= max with min < max, got ${min}, ${mode}, ${max}`);
+  }
+  const split = (mode - min) / (max - min);
+  return define({ type: 'triangular', min, mode, max }, (min + mode + max) / 3, (random) => {
+    const u = random.next();
+    return u < split
+      ? min + Math.sqrt(u * (max - min) * (mode - min))
+      : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+  });
+}
+
+/**
+ * Weibull distribution with the given shape (k) and scale (lambda)
+ */
+export function weibull(shape: number, scale: number): Distribution {
+  if (shape <= 0 || scale <= 0) {
+    throw new Error(`weibull: shape and scale must be positive, got ${shape}, ${scale}`);
+  }
+  return define({ type: 'weibull', shape, scale }, scale * gamma(1 + 1 / shape),
+    (random) => scale * Math.pow(-Math.log(1 - random.next()), 1 / shape));
+}
+
+/**
+ * Resamples uniformly from observed values
+ */
+export function empirical(values: number[]): Distribution {
+  if (values.length === 0) {
+    throw new Error('empirical: at least one value is required');
+  }
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return define({ type: 'empirical', values: [...values] }, mean,
+    (random) => values[Math.floor(random.next() * values.length)]!);
+}
+
+/**
+ * Picks a bin by weight, then a uniform value within it
+ */
+export function histogram(bins: Array<{ min: number; max: number; weight: number }>): Distribution {
+  const totalWeight = bins.reduce((sum, bin) => sum + bin.weight, 0);
+  if (bins.length === 0 || totalWeight <= 0) {
+    throw new Error('histogram: at least one bin with positive weight is required');
+  }
+  const mean = bins.reduce((sum, bin) => sum + bin.weight * (bin.min + bin.max) / 2, 0) / totalWeight;
+  return define({ type: 'histogram', bins: bins.map(bin => ({ ...bin })) }, mean, (random) => {
+    let remaining = random.next() * totalWeight;
+    let chosen = bins[bins.length - 1]!;
+    for (const bin of bins) {
+      remaining -= bin.weight;
+      if (remaining <= 0) {
+        chosen = bin;
+        break;
+      }
+    }
+    return chosen.min + random.next() * (chosen.max - chosen.min);
+  });
+}
+
+/**
+ * Returns 1 with probability p, otherwise 0
+ */
+export function bernoulli(p: number): Distribution {
+  if (p < 0 || p > 1) {
+    throw new Error(`bernoulli: p must be within [0, 1], got ${p}`);
+  }
+  return define({ type: 'bernoulli', p }, p, (random) => (random.next() < p ? 1 : 0));
+}
+
+/**
+ * Builds a distribution from its serializable description
+ */
+export function createDistribution(spec: DistributionSpec): Distribution {
+  switch (spec.type) {
+    case 'constant': return constant(spec.value);
+    case 'uniform': return uniform(spec.min, spec.max);
+    case 'exponential': return exponential(spec.rate);
+    case 'poisson': return poisson(spec.lambda);
+    case 'normal': return normal(spec.mean, spec.stdDev);
+    case 'lognormal': return lognormal(spec.mu, spec.sigma);
+    case 'triangular': return triangular(spec.min, spec.mode, spec.max);
+    case 'weibull': return weibull(spec.shape, spec.scale);
+    case 'empirical': return empirical(spec.values);
+    case 'histogram': return histogram(spec.bins);
+    case 'bernoulli': return bernoulli(spec.p);
+    default:
+      throw new Error(`Unknown distribution type: ${(spec as { type: string }).type}`);
+  }
+}
+
+/**
+ * Accepts either a distribution or its description
+ */
+export function toDistribution(like: DistributionLike): Distribution {
+  return 'sample' in like ? like : createDistribution(like);
+}
+
+/**
+ * Lanczos approximation of the gamma function, used for the Weibull mean
+ */
+function gamma(z: number): number {
+  if (z < 0.5) {
+    return Math.PI / (Math.sin(Math.PI * z) * gamma(1 - z));
+  }
+  const coefficients = [
+    676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012,
+    9.9843695780195716e-6, 1.5056327351493116e-7
+  ];
+  const x = z - 1;
+  let sum = 0.99999999999980993;
+  coefficients.forEach((c, i) => {
+    sum += c / (x + i + 1);
+  });
+  const t = x + coefficients.length - 0.5;
+  return Math.sqrt(2 * Math.PI) * Math.pow(t, x + 0.5) * Math.exp(-t) * sum;
+}
@@ -0,0 +1,126 @@
+/**
+ * Typed publish/subscribe for engine and machine lifecycle events
+ */
+
+import type { Event } from './events.js';
+import type { StopReason, SimulationMode, SimulationStats } from './simulation-engine.js';
+import type { ErrorAction } from './error-policy.js';
+
+/**
+ * Listener for one kind of emitted event
+ */
+export type Listener<T> = (payload: T) => void;
+
+/**
+ * Minimal typed emitter. `TEvents` maps each event name to its payload.
+ * A listener that throws is reported and does not stop the others.
+ */
+export class TypedEmitter<TEvents extends object> {
+  private _listeners: { [K in keyof TEvents]?: Array<Listener<TEvents[K]>> } = {};
+
+  /**
+   * Subscribes to an event and returns a function that unsubscribes
+   */
+  on<K extends keyof TEvents>(type: K, listener: Listener<TEvents[K]>): () => void {
+    (this._listeners[type] ??= []).push(listener);
+    return () => this.off(type, listener);
+  }
+
+  /**
+   * Subscribes to the next occurrence of an event only
+   */
+  once<K extends keyof TEvents>(type: K, listener: Listener<TEvents[K]>): () => void {
+    const off = this.on(type, payload => {
+      off();
+      listener(payload);
+    });
+    return off;
+  }
+
+  /**
+   * Removes a listener added with `on`
+   */
+  off<K extends keyof TEvents>(type: K, listener: Listener<TEvents[K]>): void {
+    const listeners = this._listeners[type];
+    const index = listeners?.indexOf(listener) ?? -1;
+    if (index !== -1) {
+      listeners!.splice(index, 1);
+    }
+  }
+
+  /**
+   * Calls every listener of an event in subscription order
+   */
+  emit<K extends keyof TEvents>(type: K, payload: TEvents[K]): void {
+    // Copy so listeners can unsubscribe while being called
+    for (const listener of [...(this._listeners[type] ?? [])]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Listener for "${String(type)}" failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Checks whether an event has any listeners
+   */
+  hasListeners(type: keyof TEvents): boolean {
+    return (this._listeners[type]?.length ?? 0) > 0;
+  }
+
+  /**
+   * Removes all listeners, or all listeners of one event
+   */
+  clear(type?: keyof TEvents): void {
+    if (type === undefined) {
+      this._listeners = {};
+    } else {
+      delete this._listeners[type];
+    }
+  }
+}
+
+/**
+ * Events emitted by state machines
+ */
+export interface MachineEvents<TState, TEvent extends Event = Event> {
+  transition: { from: TState; to: TState; event?: TEvent; region?: string };
+  invalidTransition: {
+    from: TState;
+    to: TState;
+    event?: TEvent;
+    blockedBy?: string;
+    reason?: string;
+    region?: string;
+  };
+  /** A handler or action threw while processing an event */
+  error: { error: unknown; event?: TEvent };
+}
+
+/**
+ * Events emitted by the simulation engine. Machine events are re-emitted
+ * with the simulated time they happened at.
+ */
+export interface EngineEvents<TState, TEvent extends Event = Event> {
+  start: { mode: SimulationMode; time: number; resumed: boolean };
+  stop: { reason: StopReason; stats: SimulationStats<TState> };
+  pause: { time: number };
+  resume: { time: number };
+  tick: { time: number };
+  eventProcessed: {
+    event: TEvent;
+    state: TState;
+    time: number;
+    /** Wall-clock milliseconds the machine took to handle the event */
+    duration: number;
+    /** Entries left on the engine's agenda */
+    queueDepth: number;
+  };
+  /** Middleware dropped an event before it reached the machine */
+  eventDropped: { event: TEvent; time: number };
+  transition: MachineEvents<TState, TEvent>['transition'] & { time: number };
+  invalidTransition: MachineEvents<TState, TEvent>['invalidTransition'] & { time: number };
+  /** Processing failed; `action` is what the error policy did about it */
+  error: { error: unknown; event?: TEvent; time: number; action: ErrorAction };
+}
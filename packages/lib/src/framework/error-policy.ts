@@ -0,0 +1,143 @@
+/**
+ * Error policies and the dead-letter queue for events that fail
+ */
+
+import type { Event } from './events.js';
+
+/**
+ * What the engine does with an event whose processing failed
+ */
+export enum ErrorAction {
+  /** Report the error and carry on */
+  Skip = 'skip',
+  /** Process the event again after a backoff delay */
+  Retry = 'retry',
+  /** Report the error and stop the run */
+  Halt = 'halt',
+  /** Keep the event on the dead-letter queue for inspection and carry on */
+  DeadLetter = 'dead-letter'
+}
+
+/**
+ * Delay before each retry in simulated milliseconds: `initial`, then
+ * multiplied by `factor` per attempt up to `max`
+ */
+export interface BackoffOptions {
+  initial: number;
+  /** Default: 2 */
+  factor?: number;
+  /** Default: unlimited */
+  max?: number;
+}
+
+/**
+ * Detailed error policy
+ */
+export interface ErrorPolicy {
+  /** Action to take, or a function choosing one per failure */
+  action: ErrorAction | ((failure: FailedEvent) => ErrorAction);
+  /** Retries before giving up (default: 3) */
+  maxRetries?: number;
+  /** Delay between retries (default: 1 simulated second, doubling) */
+  backoff?: BackoffOptions;
+  /** Action once retries run out (default: dead-letter) */
+  onExhausted?: ErrorAction.Skip | ErrorAction.Halt | ErrorAction.DeadLetter;
+}
+
+/**
+ * An error policy, or just the action to take
+ */
+export type ErrorPolicyLike = ErrorAction | ErrorPolicy;
+
+/**
+ * An event whose processing failed, with what was known at the time
+ */
+export interface FailedEvent<TEvent extends Event = Event, TState = any> {
+  event: TEvent;
+  error: unknown;
+  /** Machine state when the event failed */
+  state: TState;
+  /** Simulated time of the failure */
+  time: number;
+  /** Number of times the event was processed, including the failed one */
+  attempts: number;
+}
+
+/**
+ * Events given up on, kept in the order they failed
+ */
+export class DeadLetterQueue<TEvent extends Event = Event, TState = any> {
+  private _entries: Array<FailedEvent<TEvent, TState>> = [];
+
+  /**
+   * Adds a failed event
+   */
+  add(failure: FailedEvent<TEvent, TState>): void {
+    this._entries.push(failure);
+  }
+
+  /**
+   * Gets the number of failed events held
+   */
+  get size(): number {
+    return this._entries.length;
+  }
+
+  /**
+   * Returns a copy of the failed events held
+   */
+  toArray(): Array<FailedEvent<TEvent, TState>> {
+    return [...this._entries];
+  }
+
+  /**
+   * Removes and returns every failed event, e.g. to inject them again once fixed
+   */
+  drain(): Array<FailedEvent<TEvent, TState>> {
+    const entries = this._entries;
+    this._entries = [];
+    return entries;
+  }
+
+  /**
+   * Removes all failed events
+   */
+  clear(): void {
+    this._entries = [];
+  }
+
+  /**
+   * Returns the failed events with errors reduced to their message and
+   * stack, e.g. for JSON.stringify
+   */
+  toJSON(): Array<Omit<FailedEvent<TEvent, TState>, 'error'> & { error: { message: string; stack?: string } }> {
+    return this._entries.map(entry => ({
+      ...entry,
+      error: entry.error instanceof Error
+        ? { message: entry.error.message, stack: entry.error.stack }
+        : { message: String(entry.error) }
+    }));
+  }
+}
+
+/**
+ * Decides what to do with a failure under a policy. Retries that have run
+ * out become the policy's `onExhausted` action.
+ */
+export function resolveErrorAction(policy: ErrorPolicyLike, failure: FailedEvent): ErrorAction {
+  const options: ErrorPolicy = typeof policy === 'string' ? { action: policy } : policy;
+  const action = typeof options.action === 'function' ? options.action(failure) : options.action;
+  if (action === ErrorAction.Retry && failure.attempts > (options.maxRetries ?? 3)) {
+    return options.onExhausted ?? ErrorAction.DeadLetter;
+  }
+  return action;
+}
+
+/**
+ * Returns the delay in simulated milliseconds before the next attempt of a failed event
+ */
+export function retryDelay(policy: ErrorPolicyLike, attempts: number): number {
+  const backoff = (typeof policy === 'string' ? undefined : policy.backoff) ?? { initial: 1000 };
+  const delay = backoff.initial * (backoff.factor ?? 2) ** Math.max(0, attempts - 1);
+  return Math.min(delay, backoff.max ?? Infinity);
+}
@@ -0,0 +1,277 @@
+/**
+ * Event log recording and deterministic replay
+ */
+
+import type { Event } from './events.js';
+import type { StateMachine } from './state-machine.js';
+import { VirtualClock } from './clock.js';
+import { SeededRandom, mathRandom } from './random.js';
+import { IdGenerator, isPromiseLike } from './utils.js';
+import type { SimulationContext } from './context.js';
+
+/**
+ * A processed event together with what is needed to process it again
+ */
+export interface EventLogEntry<TEvent extends Event = Event> {
+  /** Position in the log, starting at 1 */
+  seq: number;
+  /** Simulated time the event was processed at */
+  time: number;
+  event: TEvent;
+  /** Random source state before the event, or null if it cannot be saved */
+  random: number | null;
+  /** ID counter before the event */
+  idCounter: number;
+}
+
+/**
+ * An event in a causal tree, with the events its handling produced
+ */
+export interface CausalNode<TEvent extends Event = Event> {
+  entry: EventLogEntry<TEvent>;
+  /** Direct consequences, in the order they were processed */
+  children: Array<CausalNode<TEvent>>;
+}
+
+/**
+ * Serializable form of an event log
+ */
+export interface EventLogData<TEvent extends Event = Event> {
+  /** Simulated time the run started at */
+  startTime: number;
+  entries: Array<EventLogEntry<TEvent>>;
+}
+
+/**
+ * Append-only record of the events a run processed
+ */
+export class EventLog<TEvent extends Event = Event> {
+  private _startTime: number;
+  private _entries: Array<EventLogEntry<TEvent>> = [];
+
+  constructor(startTime = 0) {
+    this._startTime = startTime;
+  }
+
+  /**
+   * Gets the simulated time the run started at
+   */
+  get startTime(): number {
+    return this._startTime;
+  }
+
+  /**
+   * Gets the number of recorded events
+   */
+  get size(): number {
+    return this._entries.length;
+  }
+
+  /**
+   * Records an event about to be processed
+   */
+  append(event: TEvent, context: SimulationContext): EventLogEntry<TEvent> {
+    const entry: EventLogEntry<TEvent> = {
+      seq: this._entries.length + 1,
+      time: context.clock.now,
+      event: structuredClone(event),
+      random: context.random.getState?.() ?? null,
+      idCounter: context.ids.counter
+    };
+    this._entries.push(entry);
+    return entry;
+  }
+
+  /**
+   * Returns the entry with the given sequence number
+   */
+  get(seq: number): EventLogEntry<TEvent> | undefined {
+    return this._entries[seq - 1];
+  }
+
+  /**
+   * Returns the first entry of the event with the given ID. Retried events
+   * appear once per attempt.
+   */
+  find(eventId: string): EventLogEntry<TEvent> | undefined {
+    return this._entries.find(entry => entry.event.id === eventId);
+  }
+
+  /**
+   * Returns the entries of the events that led to an event, from the one
+   * that started the chain down to the event itself. The chain stops early
+   * at a cause that is not in the log, e.g. one from before a restore.
+   */
+  causalChain(eventId: string): Array<EventLogEntry<TEvent>> {
+    const byId = this.indexById();
+    const chain = new Set<EventLogEntry<TEvent>>();
+    let entry = byId.get(eventId);
+    while (entry && !chain.has(entry)) {
+      chain.add(entry);
+      entry = entry.event.causationId !== undefined ? byId.get(entry.event.causationId) : undefined;
+    }
+    return [...chain].reverse();
+  }
+
+  /**
+   * Returns the tree of events an event led to, directly or through other
+   * events, rooted at the event. Use the first entry of `causalChain` as
+   * the root to see the whole tree the event belongs to.
+   */
+  causalTree(eventId: string): CausalNode<TEvent> | undefined {
+    const root = this.find(eventId);
+    if (!root) {
+      return undefined;
+    }
+
+    // Causes are processed before their consequences, so one pass links every node
+    const nodes = new Map<string, CausalNode<TEvent>>([[root.event.id, { entry: root, children: [] }]]);
+    for (const entry of this._entries) {
+      const { id, causationId } = entry.event;
+      const parent = causationId !== undefined ? nodes.get(causationId) : undefined;
+      if (!parent || nodes.has(id)) {
+        continue;
+      }
+      const node: CausalNode<TEvent> = { entry, children: [] };
+      parent.children.push(node);
+      nodes.set(id, node);
+    }
+    return nodes.get(root.event.id);
+  }
+
+  /**
+   * Returns the entries of every event in a correlation, including the one
+   * that started it, in the order they were processed
+   */
+  correlated(correlationId: string): Array<EventLogEntry<TEvent>> {
+    return this._entries.filter(entry => (entry.event.correlationId ?? entry.event.id) === correlationId);
+  }
+
+  /**
+   * Returns a copy of all entries in order
+   */
+  toArray(): Array<EventLogEntry<TEvent>> {
+    return [...this._entries];
+  }
+
+  /**
+   * Removes all entries and sets a new start time
+   */
+  reset(startTime: number): void {
+    this._startTime = startTime;
+    this._entries = [];
+  }
+
+  /**
+   * Returns the log as plain data, e.g. for JSON.stringify
+   */
+  toJSON(): EventLogData<TEvent> {
+    return { startTime: this._startTime, entries: this.toArray() };
+  }
+
+  /**
+   * Rebuilds a log from data produced by `toJSON`
+   */
+  static fromJSON<TEvent extends Event = Event>(data: EventLogData<TEvent>): EventLog<TEvent> {
+    const log = new EventLog<TEvent>(data.startTime);
+    log._entries = data.entries.map(entry => ({ ...entry }));
+    return log;
+  }
+
+  /**
+   * Maps each event ID to its first entry
+   */
+  private indexById(): Map<string, EventLogEntry<TEvent>> {
+    const byId = new Map<string, EventLogEntry<TEvent>>();
+    for (const entry of this._entries) {
+      if (!byId.has(entry.event.id)) {
+        byId.set(entry.event.id, entry);
+      }
+    }
+    return byId;
+  }
+}
+
+/**
+ * Options for replaying an event log
+ */
+export interface ReplayOptions<TState, TEvent extends Event = Event> {
+  /** Stop after this many events */
+  until?: number;
+  /** Stop before the first event after this simulated time */
+  untilTime?: number;
+  /** Called after each replayed event */
+  onEvent?: (entry: EventLogEntry<TEvent>, machine: StateMachine<TState, TEvent>) => void;
+}
+
+/**
+ * Outcome of a replay
+ */
+export interface ReplayResult<TState, TEvent extends Event = Event> {
+  machine: StateMachine<TState, TEvent>;
+  state: TState;
+  eventsApplied: number;
+  /** Simulated time after the last replayed event */
+  time: number;
+}
+
+/**
+ * Rebuilds a state machine by feeding it a recorded log, without any
+ * generators. Before each event the random source and ID counter are put
+ * back where they were in the original run, so machines that draw from the
+ * context reach the same states. State timeouts are not armed: the events
+ * they raised are part of the log, as are emitted events. Handlers must be
+ * synchronous.
+ */
+export function replay<TState, TEvent extends Event = Event>(
+  log: EventLog<TEvent> | EventLogData<TEvent>,
+  createMachine: () => StateMachine<TState, TEvent>,
+  options: ReplayOptions<TState, TEvent> = {}
+): ReplayResult<TState, TEvent> {
+  const data = log instanceof EventLog ? log.toJSON() : log;
+  const clock = new VirtualClock(data.startTime);
+  const random = new SeededRandom(0);
+  const context: SimulationContext = {
+    random,
+    ids: new IdGenerator(),
+    clock,
+    scheduler: {
+      schedule: (_event, delay) => ({ time: clock.now + delay, cancel: () => true })
+    }
+  };
+
+  const machine = createMachine();
+  machine.bindContext?.(context);
+
+  let eventsApplied = 0;
+  for (const entry of data.entries) {
+    if (options.until !== undefined && eventsApplied >= options.until) {
+      break;
+    }
+    if (options.untilTime !== undefined && entry.time > options.untilTime) {
+      break;
+    }
+
+    clock.advanceTo(entry.time);
+    if (entry.random !== null) {
+      random.setState(entry.random);
+      context.random = random;
+    } else {
+      context.random = mathRandom;
+    }
+    context.ids.reset(entry.idCounter);
+
+    if (isPromiseLike(machine.processEvent(structuredClone(entry.event)))) {
+      throw new Error('replay() needs synchronous handlers; an event handler returned a promise');
+    }
+    eventsApplied++;
+    options.onEvent?.(entry, machine);
+  }
+
+  return {
+    machine,
+    state: machine.currentState,
+    eventsApplied,
+    time: clock.now
+  };
+}
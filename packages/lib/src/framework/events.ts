@@ -3,6 +3,22 @@
  */
 
 import { nextId, nowISO } from './utils.js';
+import type { SimulationContext } from './context.js';
+import { BinaryHeap } from './heap.js';
+import { validatePayload } from './schemas.js';
+import type { PayloadSchemas } from './schemas.js';
+import { DeadLetterQueue, ErrorAction, resolveErrorAction, retryDelay } from './error-policy.js';
+import type { ErrorPolicyLike } from './error-policy.js';
+
+/**
+ * How urgently a queued event should be handled; higher values go first
+ */
+export enum EventPriority {
+  Low = 1,
+  Medium = 2,
+  High = 3,
+  Critical = 4
+}
 
 /**
  * Generic event interface that all simulation events must implement
@@ -12,6 +28,14 @@ export interface Event<TType = string, TPayload = any> {
   type: TType;
   timestamp: string;
   payload?: TPayload;
+  /** Priority in an `EventQueue` (default: EventPriority.Medium) */
+  priority?: EventPriority | number;
+  /** ID of the event that started the chain this event belongs to */
+  correlationId?: string;
+  /** ID of the event whose handling produced this one */
+  causationId?: string;
+  /** Name of the event flow that emitted this event as one of its steps */
+  flow?: string;
 }
 
 /**
@@ -20,9 +44,11 @@ export interface Event<TType = string, TPayload = any> {
 export type EventHandler<TEvent extends Event = Event> = (event: TEvent) => void;
 
 /**
- * Event generator function type - creates events for simulation
+ * Event generator function type - creates events for simulation. Generators
+ * should draw IDs, timestamps and random values from the context so that
+ * seeded runs are reproducible.
  */
-export type EventGenerator<TEvent extends Event = Event> = () => TEvent;
+export type EventGenerator<TEvent extends Event = Event> = (context: SimulationContext) => TEvent;
 
 /**
  * Base event class that implements the Event interface
@@ -42,39 +68,184 @@ export class BaseEvent<TType = string, TPayload = any> implements Event<TType, T
 }
 
 /**
- * Event queue for managing event processing order
+ * Options for an event a handler emits
+ */
+export interface EmitOptions {
+  /** Priority of the emitted event */
+  priority?: EventPriority | number;
+  /** Simulated milliseconds until the event is processed (default: 0, right away) */
+  delay?: number;
+  /** Marks the event as a step of the named event flow */
+  flow?: string;
+}
+
+/**
+ * Emits a follow-up event of the given type from inside a handler
+ */
+export type EmitFunction<TEvent extends Event = Event> = <TType extends TEvent['type']>(
+  type: TType,
+  payload?: Extract<TEvent, { type: TType }>['payload'],
+  options?: EmitOptions
+) => TEvent;
+
+/**
+ * Marks an event as a consequence of `cause`: it joins the cause's
+ * correlation (or starts one at the cause) and records the cause's ID.
+ * Events that already name a cause, and the cause itself, are returned
+ * unchanged.
+ */
+export function causedBy<TEvent extends Event>(event: TEvent, cause: Event | undefined): TEvent {
+  if (!cause || event.causationId !== undefined || event.id === cause.id) {
+    return event;
+  }
+  return { ...event, correlationId: cause.correlationId ?? cause.id, causationId: cause.id };
+}
+
+/**
+ * Options for queueing an event
+ */
+export interface EnqueueOptions {
+  /** Overrides the event's own priority */
+  priority?: EventPriority | number;
+  /** Time the event becomes due; it is held back until then (default: now) */
+  deliverAt?: number;
+}
+
+/**
+ * How an `EventQueue` deals with handlers that throw
+ */
+export interface EventQueueOptions<TEvent extends Event = Event> {
+  /** What to do with an event once one of its handlers threw (default: skip) */
+  errorPolicy?: ErrorPolicyLike;
+  /** Called with each failure and the action taken; without it failures are logged */
+  onError?: (error: unknown, event: TEvent, action: ErrorAction) => void;
+}
+
+/**
+ * An event waiting in an `EventQueue`
+ */
+export interface QueuedEvent<TEvent extends Event = Event> {
+  event: TEvent;
+  priority: number;
+  deliverAt: number;
+  /** Insertion sequence, used to keep otherwise equal entries in FIFO order */
+  seq: number;
+}
+
+/**
+ * Event queue for managing event processing order. Due events come out
+ * highest priority first, then earliest delivery time, then in the order
+ * they were queued. Events with a later delivery time wait until the
+ * queue's clock (`now`, wall-clock by default) reaches it. Payloads are
+ * checked against `schemas` as events are queued. When a handler throws,
+ * the queue applies its error policy to the event, like the engine does,
+ * with retries delayed on the queue's clock.
  */
 export class EventQueue<TEvent extends Event = Event> {
-  private queue: TEvent[] = [];
+  private ready = new BinaryHeap<QueuedEvent<TEvent>>(
+    (a, b) => b.priority - a.priority || a.deliverAt - b.deliverAt || a.seq - b.seq
+  );
+  private scheduled = new BinaryHeap<QueuedEvent<TEvent>>(
+    (a, b) => a.deliverAt - b.deliverAt || a.seq - b.seq
+  );
+  private seq = 0;
+  private now: () => number;
+  private schemas: PayloadSchemas;
   private handlers = new Map<string, EventHandler<TEvent>[]>();
   private globalHandlers: EventHandler<TEvent>[] = [];
+  private errorPolicy: ErrorPolicyLike;
+  private onError?: (error: unknown, event: TEvent, action: ErrorAction) => void;
+  private failed = new DeadLetterQueue<TEvent>();
+  /** Failed attempts of events being retried, by event ID */
+  private attempts = new Map<string, number>();
+  private halted = false;
+
+  constructor(now: () => number = Date.now, schemas: PayloadSchemas = {}, options: EventQueueOptions<TEvent> = {}) {
+    this.now = now;
+    this.schemas = schemas;
+    this.errorPolicy = options.errorPolicy ?? ErrorAction.Skip;
+    this.onError = options.onError;
+  }
 
   /**
-   * Adds an event to the queue
+   * Gets the events given up on under the `dead-letter` error policy
    */
-  enqueue(event: TEvent): void {
-    this.queue.push(event);
+  get deadLetters(): DeadLetterQueue<TEvent> {
+    return this.failed;
   }
 
   /**
-   * Removes and returns the next event from the queue
+   * Adds an event to the queue. Throws a `PayloadValidationError` if its
+   * payload does not match the schema of its type.
+   */
+  enqueue(event: TEvent, options: EnqueueOptions = {}): QueuedEvent<TEvent> {
+    validatePayload(this.schemas, event);
+    const entry: QueuedEvent<TEvent> = {
+      event,
+      priority: options.priority ?? event.priority ?? EventPriority.Medium,
+      deliverAt: options.deliverAt ?? this.now(),
+      seq: this.seq++
+    };
+    if (entry.deliverAt > this.now()) {
+      this.scheduled.push(entry);
+    } else {
+      this.ready.push(entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Removes and returns the next due event
    */
   dequeue(): TEvent | undefined {
-    return this.queue.shift();
+    this.release();
+    return this.ready.pop()?.event;
   }
 
   /**
-   * Returns the number of events in the queue
+   * Returns the next due event without removing it
+   */
+  peek(): TEvent | undefined {
+    this.release();
+    return this.ready.peek()?.event;
+  }
+
+  /**
+   * Returns the number of events in the queue, due or not
    */
   get size(): number {
-    return this.queue.length;
+    return this.ready.size + this.scheduled.size;
+  }
+
+  /**
+   * Returns the delivery time of the earliest event that is not due yet
+   */
+  get nextDeliveryTime(): number | undefined {
+    this.release();
+    return this.scheduled.peek()?.deliverAt;
+  }
+
+  /**
+   * Returns a copy of the queued events: due ones in the order they will
+   * come out, then the rest by delivery time
+   */
+  toArray(): TEvent[] {
+    return this.entries().map(entry => entry.event);
+  }
+
+  /**
+   * Returns copies of the queued entries in the same order as `toArray`
+   */
+  entries(): Array<QueuedEvent<TEvent>> {
+    this.release();
+    return [...this.ready.toArray(), ...this.scheduled.toArray()].map(entry => ({ ...entry }));
   }
 
   /**
    * Checks if the queue is empty
    */
   get isEmpty(): boolean {
-    return this.queue.length === 0;
+    return this.size === 0;
   }
 
   /**
@@ -118,39 +289,39 @@ export class EventQueue<TEvent extends Event = Event> {
   }
 
   /**
-   * Processes an event by calling all registered handlers
+   * Processes an event by calling all registered handlers: type-specific
+   * ones, then global ones. Every handler runs even if an earlier one
+   * throws; the first error then goes to the error policy.
    */
   process(event: TEvent): void {
-    // Call type-specific handlers
-    const eventType = String(event.type);
-    const typeHandlers = this.handlers.get(eventType) ?? [];
-    for (const handler of typeHandlers) {
+    const handlers = [...(this.handlers.get(String(event.type)) ?? []), ...this.globalHandlers];
+    const errors: unknown[] = [];
+    for (const handler of handlers) {
       try {
         handler(event);
       } catch (error) {
-        console.error(`Error in event handler for ${eventType}:`, error);
+        errors.push(error);
       }
     }
 
-    // Call global handlers
-    for (const handler of this.globalHandlers) {
-      try {
-        handler(event);
-      } catch (error) {
-        console.error(`Error in global event handler:`, error);
-      }
+    if (errors.length > 0) {
+      this.handleFailure(errors[0], event);
+    } else if (this.attempts.size > 0) {
+      this.attempts.delete(event.id);
     }
   }
 
   /**
-   * Processes all events in the queue
+   * Processes every due event, including ones queued while processing.
+   * Events that are not due yet stay in the queue, and so does everything
+   * after an event that failed under the `halt` policy.
    */
   processAll(): void {
-    while (!this.isEmpty) {
-      const event = this.dequeue();
-      if (event) {
-        this.process(event);
-      }
+    this.halted = false;
+    let event = this.dequeue();
+    while (event) {
+      this.process(event);
+      event = this.halted ? undefined : this.dequeue();
     }
   }
 
@@ -158,7 +329,46 @@ export class EventQueue<TEvent extends Event = Event> {
    * Clears all events from the queue
    */
   clear(): void {
-    this.queue = [];
+    this.ready.clear();
+    this.scheduled.clear();
+  }
+
+  /**
+   * Applies the error policy to an event whose handler threw
+   */
+  private handleFailure(error: unknown, event: TEvent): void {
+    const attempts = (this.attempts.get(event.id) ?? 0) + 1;
+    const failure = { event, error, state: undefined, time: this.now(), attempts };
+    const action = resolveErrorAction(this.errorPolicy, failure);
+
+    if (action === ErrorAction.Retry) {
+      this.attempts.set(event.id, attempts);
+      this.enqueue(event, { deliverAt: this.now() + retryDelay(this.errorPolicy, attempts) });
+    } else {
+      this.attempts.delete(event.id);
+    }
+    if (action === ErrorAction.DeadLetter) {
+      this.failed.add(failure);
+    }
+    if (action === ErrorAction.Halt) {
+      this.halted = true;
+    }
+
+    if (this.onError) {
+      this.onError(error, event, action);
+    } else {
+      console.error(`Error in event handler for ${String(event.type)} (${action}):`, error);
+    }
+  }
+
+  /**
+   * Moves events whose delivery time has come to the due heap
+   */
+  private release(): void {
+    const now = this.now();
+    while ((this.scheduled.peek()?.deliverAt ?? Infinity) <= now) {
+      this.ready.push(this.scheduled.pop()!);
+    }
   }
 
   /**
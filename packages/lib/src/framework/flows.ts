@@ -0,0 +1,63 @@
+/**
+ * Event flows realized as chains of follow-up events
+ */
+
+import type { EmitFunction, Event } from './events.js';
+import type { SimulationContext } from './context.js';
+import { toDistribution } from './distributions.js';
+import type { DistributionLike } from './distributions.js';
+import { pick } from './utils.js';
+
+/**
+ * A chain of events: once `startEvent` happens, each step is followed by
+ * one of the steps listed for it, picked at random, until `endEvent`.
+ * Steps are emitted with the flow's name in their `flow` field, which is
+ * how later steps are told apart from unrelated events of the same type.
+ */
+export interface EventFlow<TEvent extends Event = Event> {
+  name: string;
+  startEvent: TEvent['type'];
+  endEvent: TEvent['type'];
+  /** Event types that may follow each step, by the step's event type */
+  steps: Partial<Record<string, Array<TEvent['type']>>>;
+  /** Simulated milliseconds between steps (default: 1000) */
+  stepDelay?: DistributionLike;
+}
+
+/**
+ * Options for continuing event flows
+ */
+export interface FlowOptions<TEvent extends Event = Event> {
+  /** Builds the payload of a follow-up event */
+  payload?: (type: TEvent['type'], context: SimulationContext) => TEvent['payload'] | undefined;
+}
+
+/**
+ * Continues the flows an event takes part in, for use in a handler: for
+ * each flow, emits one next step after the flow's step delay. An event
+ * takes part in a flow if it is the flow's start event, or a step the flow
+ * emitted earlier. Returns the emitted events.
+ */
+export function continueFlows<TEvent extends Event>(
+  flows: Array<EventFlow<TEvent>>,
+  event: TEvent,
+  emit: EmitFunction<TEvent>,
+  context: SimulationContext,
+  options: FlowOptions<TEvent> = {}
+): TEvent[] {
+  const emitted: TEvent[] = [];
+  for (const flow of flows) {
+    const next = flow.steps[String(event.type)] ?? [];
+    const inFlow = event.type === flow.startEvent || event.flow === flow.name;
+    if (!inFlow || event.type === flow.endEvent || next.length === 0) {
+      continue;
+    }
+
+    const type = pick(next, context.random);
+    const delay = flow.stepDelay !== undefined
+      ? Math.max(0, toDistribution(flow.stepDelay).sample(context.random))
+      : 1000;
+    emitted.push(emit(type, options.payload?.(type, context), { delay, flow: flow.name }));
+  }
+  return emitted;
+}
@@ -0,0 +1,155 @@
+/**
+ * Event generator registration and scheduling
+ */
+
+import type { Event, EventGenerator } from './events.js';
+import type { SimulationContext } from './context.js';
+import { toDistribution } from './distributions.js';
+import type { Distribution, DistributionLike } from './distributions.js';
+import type { GeneratorSchedule } from './schedule.js';
+
+/**
+ * An event generator together with the rules for when it fires.
+ *
+ * A registration with `rate`, `interArrival`, `schedule` or `triggeredBy`
+ * runs on its own timeline. Any other registration (and every plain
+ * generator function) shares the engine's global tick, where one of them
+ * is picked by `weight`.
+ */
+export interface GeneratorRegistration<TEvent extends Event = Event, TState = any> {
+  /** Name used in logs; defaults to the generator's index */
+  name?: string;
+  /** Creates the event */
+  generate: EventGenerator<TEvent>;
+  /** Relative weight when picked on the shared tick (default 1) */
+  weight?: number;
+  /** Average events per simulated millisecond (Poisson arrivals) */
+  rate?: number;
+  /** Distribution of simulated milliseconds between events */
+  interArrival?: DistributionLike;
+  /** Fixed period or cron schedule */
+  schedule?: GeneratorSchedule;
+  /** Fires right after an event of one of these types is processed */
+  triggeredBy?: string[];
+  /** Only fires while this returns true for the current state */
+  enabled?: (state: TState, context: SimulationContext) => boolean;
+  /** Stops firing after this many events (0 = unlimited) */
+  maxOccurrences?: number;
+}
+
+/**
+ * How a registered generator is driven at runtime
+ */
+export enum GeneratorTiming {
+  /** Picked by weight on the engine's global tick */
+  Shared = 'shared',
+  /** Own arrival process from `rate` or `interArrival` */
+  Random = 'random',
+  /** Own fixed period or cron schedule */
+  Scheduled = 'scheduled',
+  /** Fires in response to other events */
+  Triggered = 'triggered'
+}
+
+/**
+ * Runtime bookkeeping for a registered generator
+ */
+export class RegisteredGenerator<TEvent extends Event = Event, TState = any> {
+  readonly name: string;
+  readonly timing: GeneratorTiming;
+  readonly registration: GeneratorRegistration<TEvent, TState>;
+  private readonly _interArrival: Distribution | null;
+  private _occurrences = 0;
+
+  constructor(registration: GeneratorRegistration<TEvent, TState>, index: number) {
+    this.registration = registration;
+    this.name = registration.name ?? `generator_${index}`;
+
+    if (registration.interArrival) {
+      this._interArrival = toDistribution(registration.interArrival);
+    } else if (registration.rate !== undefined) {
+      this._interArrival = toDistribution({ type: 'exponential', rate: registration.rate });
+    } else {
+      this._interArrival = null;
+    }
+
+    if (this._interArrival) {
+      this.timing = GeneratorTiming.Random;
+    } else if (registration.schedule) {
+      this.timing = GeneratorTiming.Scheduled;
+    } else if (registration.triggeredBy && registration.triggeredBy.length > 0) {
+      this.timing = GeneratorTiming.Triggered;
+    } else {
+      this.timing = GeneratorTiming.Shared;
+    }
+  }
+
+  /**
+   * Gets the number of events generated so far
+   */
+  get occurrences(): number {
+    return this._occurrences;
+  }
+
+  /**
+   * Gets the weight used on the shared tick
+   */
+  get weight(): number {
+    return this.registration.weight ?? 1;
+  }
+
+  /**
+   * Checks whether the occurrence cap has been reached
+   */
+  get exhausted(): boolean {
+    const max = this.registration.maxOccurrences ?? 0;
+    return max > 0 && this._occurrences >= max;
+  }
+
+  /**
+   * Checks whether the generator may fire in the given state
+   */
+  isEnabled(state: TState, context: SimulationContext): boolean {
+    return !this.exhausted && (this.registration.enabled?.(state, context) ?? true);
+  }
+
+  /**
+   * Checks whether the generator reacts to the given event type
+   */
+  isTriggeredBy(eventType: string): boolean {
+    return this.registration.triggeredBy?.includes(eventType) ?? false;
+  }
+
+  /**
+   * Draws the delay until the next random arrival
+   */
+  sampleInterval(context: SimulationContext): number {
+    return this._interArrival ? Math.max(0, this._interArrival.sample(context.random)) : 0;
+  }
+
+  /**
+   * Creates the next event and counts it against the cap
+   */
+  generate(context: SimulationContext): TEvent {
+    this._occurrences++;
+    return this.registration.generate(context);
+  }
+
+  /**
+   * Restarts the occurrence count, or sets it when resuming a run
+   */
+  reset(occurrences = 0): void {
+    this._occurrences = occurrences;
+  }
+}
+
+/**
+ * Normalizes a plain generator function or registration
+ */
+export function registerGenerator<TEvent extends Event = Event, TState = any>(
+  generator: EventGenerator<TEvent> | GeneratorRegistration<TEvent, TState>,
+  index: number
+): RegisteredGenerator<TEvent, TState> {
+  const registration = typeof generator === 'function' ? { generate: generator } : generator;
+  return new RegisteredGenerator(registration, index);
+}
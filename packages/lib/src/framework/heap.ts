@@ -0,0 +1,103 @@
+/**
+ * Binary heap for priority-ordered collections
+ */
+
+/**
+ * Array-backed binary heap. `compare` returns a negative number when its
+ * first argument should come out first.
+ */
+export class BinaryHeap<T> {
+  private items: T[] = [];
+  private readonly compare: (a: T, b: T) => number;
+
+  constructor(compare: (a: T, b: T) => number) {
+    this.compare = compare;
+  }
+
+  /**
+   * Adds an item in O(log n)
+   */
+  push(item: T): void {
+    this.items.push(item);
+    this.siftUp(this.items.length - 1);
+  }
+
+  /**
+   * Removes and returns the first item in O(log n)
+   */
+  pop(): T | undefined {
+    const first = this.items[0];
+    const last = this.items.pop();
+    if (this.items.length > 0 && last !== undefined) {
+      this.items[0] = last;
+      this.siftDown(0);
+    }
+    return first;
+  }
+
+  /**
+   * Returns the first item without removing it
+   */
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  /**
+   * Returns the number of items
+   */
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Returns a copy of all items in the order they would be popped
+   */
+  toArray(): T[] {
+    return [...this.items].sort(this.compare);
+  }
+
+  /**
+   * Removes all items
+   */
+  clear(): void {
+    this.items = [];
+  }
+
+  /**
+   * Moves an item up until its parent comes first
+   */
+  private siftUp(index: number): void {
+    const items = this.items;
+    while (index > 0) {
+      const parent = (index - 1) >>> 1;
+      if (this.compare(items[index]!, items[parent]!) >= 0) {
+        break;
+      }
+      [items[index], items[parent]] = [items[parent]!, items[index]!];
+      index = parent;
+    }
+  }
+
+  /**
+   * Moves an item down until it comes before both children
+   */
+  private siftDown(index: number): void {
+    const items = this.items;
+    for (;;) {
+      const left = 2 * index + 1;
+      const right = left + 1;
+      let first = index;
+      if (left < items.length && this.compare(items[left]!, items[first]!) < 0) {
+        first = left;
+      }
+      if (right < items.length && this.compare(items[right]!, items[first]!) < 0) {
+        first = right;
+      }
+      if (first === index) {
+        return;
+      }
+      [items[index], items[first]] = [items[first]!, items[index]!];
+      index = first;
+    }
+  }
+}
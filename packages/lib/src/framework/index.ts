@@ -10,12 +10,58 @@ export * from './utils.js';
 
 // Event system
 export * from './events.js';
+export * from './heap.js';
+export * from './schemas.js';
 
 // State machine
 export * from './state-machine.js';
+export * from './parallel-state-machine.js';
+
+// Simulated time
+export * from './clock.js';
+
+// Random sources and run context
+export * from './random.js';
+export * from './context.js';
+
+// Probability distributions
+export * from './distributions.js';
+
+// Generator registration and schedules
+export * from './schedule.js';
+export * from './generators.js';
+export * from './flows.js';
+
+// Declarative simulation definitions
+export * from './definition.js';
+
+// State diagrams
+export * from './diagram.js';
 
 // Simulation engine
 export * from './simulation-engine.js';
+export * from './emitter.js';
+export * from './middleware.js';
+export * from './error-policy.js';
+
+// Snapshots on disk
+export * from './checkpoint.js';
+
+// Event log and replay
+export * from './event-log.js';
+
+// Monte Carlo batches
+export * from './statistics.js';
+export * from './batch.js';
+export * from './sweep.js';
+
+// Metrics
+export * from './metrics.js';
+export * from './prometheus.js';
+
+// Time-travel debugging
+export * from './diff.js';
+export * from './time-travel.js';
 
 // Framework version
 export const FRAMEWORK_VERSION = '1.0.0';
@@ -31,38 +77,52 @@ export type {
 
 export type {
   StateMachine,
-  StateMachineConfig
+  StateMachineConfig,
+  StateNodeConfig,
+  TransitionRule,
+  TransitionGuard,
+  TransitionAction,
+  TransitionCheck
 } from './state-machine.js';
 
 export type {
   SimulationOptions,
+  SimulationStats,
   ISimulationEngine
 } from './simulation-engine.js';
 
 /**
  * Quick start factory function for creating a basic simulation
  */
-export function createSimulation<TState, TEvent extends Event>(
-  config: StateMachineConfig<TState> & {
-    handleEvent: (event: TEvent) => void;
-    eventGenerators?: EventGenerator[];
+export function createSimulation<TState, TEvent extends Event, TExtended = any>(
+  config: StateMachineConfig<TState, TEvent, TExtended> & {
+    /** Domain handling, possibly async; `emit` raises follow-up events caused by `event` */
+    handleEvent: (event: TEvent, emit: EmitFunction<TEvent>, context: SimulationContext) => void | Promise<void>;
+    eventGenerators?: Array<EventGenerator<any> | GeneratorRegistration<any, any>>;
   }
 ): {
   stateMachine: StateMachine<TState, TEvent>;
   engine: ISimulationEngine<TState, TEvent>;
-  start: (options?: SimulationOptions) => void;
+  start: (options?: SimulationOptions<TState, TEvent>) => void;
   stop: () => void;
 } {
   // Create a concrete state machine implementation
-  class ConcreteStateMachine extends BaseStateMachine<TState, TEvent> {
-    protected handleEvent(event: TEvent): void {
-      config.handleEvent(event);
+  class ConcreteStateMachine extends BaseStateMachine<TState, TEvent, TExtended> {
+    private readonly emitFollowUp: EmitFunction<TEvent> = (type, payload, options) => this.emit(type, payload, options);
+
+    protected handleEvent(event: TEvent): void | Promise<void> {
+      return config.handleEvent(event, this.emitFollowUp, this.context);
     }
   }
 
   const stateMachine = new ConcreteStateMachine({
     initialState: config.initialState,
     allowedTransitions: config.allowedTransitions,
+    states: config.states,
+    transitions: config.transitions,
+    extendedState: config.extendedState,
+    recordSteps: config.recordSteps,
+    payloadSchemas: config.payloadSchemas,
     onStateChange: config.onStateChange,
     onInvalidTransition: config.onInvalidTransition,
     enableLogging: config.enableLogging
@@ -73,7 +133,7 @@ export function createSimulation<TState, TEvent extends Event>(
   return {
     stateMachine,
     engine,
-    start: (options?: SimulationOptions) => {
+    start: (options?: SimulationOptions<TState, TEvent>) => {
       engine.start({
         eventGenerators: config.eventGenerators,
         ...options
@@ -86,4 +146,8 @@ export function createSimulation<TState, TEvent extends Event>(
 // Import the framework classes for the factory function
 import { BaseStateMachine } from './state-machine.js';
 import { SimulationEngine } from './simulation-engine.js';
-import { Event } from './events.js';
\ No newline at end of file
+import type { StateMachine, StateMachineConfig } from './state-machine.js';
+import type { ISimulationEngine, SimulationOptions } from './simulation-engine.js';
+import type { EmitFunction, Event, EventGenerator } from './events.js';
+import type { SimulationContext } from './context.js';
+import type { GeneratorRegistration } from './generators.js';
\ No newline at end of file
@@ -0,0 +1,214 @@
+/**
+ * Metrics collection over a simulation run
+ */
+
+import type { Event } from './events.js';
+import type { ISimulationEngine } from './simulation-engine.js';
+import { summarize } from './statistics.js';
+import type { SummaryStatistics } from './statistics.js';
+import { toCSV } from './utils.js';
+
+/**
+ * A value recorded at a point in simulated time
+ */
+export interface MetricSample {
+  time: number;
+  value: number;
+}
+
+/**
+ * Options for collecting metrics
+ */
+export interface MetricsOptions<TMachine = any> {
+  /** User-defined values read from the machine after each sampled event, by name */
+  gauges?: Record<string, (machine: TMachine) => number>;
+  /** Record time series every this many events (default: 1) */
+  sampleEvery?: number;
+}
+
+/**
+ * Aggregated view of the collected metrics
+ */
+export interface MetricsSummary {
+  eventCount: number;
+  /** Simulated milliseconds spent in each state */
+  timeInState: Record<string, number>;
+  /** Number of transitions, keyed as "from -> to" */
+  transitions: Record<string, number>;
+  /** Transitions that were rejected, keyed as "from -> to" */
+  rejectedTransitions: Record<string, number>;
+  eventsByType: Record<string, number>;
+  /** Statistics of every time series, including handler latency and queue depth */
+  series: Record<string, SummaryStatistics>;
+}
+
+/**
+ * Serializable form of the collected metrics
+ */
+export interface MetricsData extends MetricsSummary {
+  timeSeries: Record<string, MetricSample[]>;
+}
+
+/**
+ * Collects metrics from an engine's events: time in each state,
+ * transition counts, event counts per type, and time series of handler
+ * latency, agenda depth and user-defined gauges keyed by simulated time.
+ * Metrics start over when a new run starts.
+ */
+export class MetricsCollector<TState = any, TEvent extends Event = Event, TMachine = any> {
+  private readonly _gauges: Record<string, (machine: TMachine) => number>;
+  private readonly _sampleEvery: number;
+  private readonly _unsubscribe: Array<() => void>;
+  private _eventCount = 0;
+  private _timeInState: Record<string, number> = {};
+  private _transitions: Record<string, number> = {};
+  private _rejected: Record<string, number> = {};
+  private _eventsByType: Record<string, number> = {};
+  private _series: Record<string, MetricSample[]> = {};
+  private _state = '';
+  private _stateSince = 0;
+  private _lastTime = 0;
+
+  constructor(engine: ISimulationEngine<TState, TEvent>, options: MetricsOptions<TMachine> = {}) {
+    this._gauges = options.gauges ?? {};
+    this._sampleEvery = Math.max(1, options.sampleEvery ?? 1);
+    this.enterState(engine.stateMachine.currentState, engine.clock.now);
+
+    this._unsubscribe = [
+      engine.on('start', ({ time, resumed }) => {
+        if (!resumed) {
+          this.reset();
+        }
+        this.enterState(engine.stateMachine.currentState, time);
+      }),
+      engine.on('transition', ({ from, to, time }) => {
+        this.advance(time);
+        this.increment(this._transitions, `${stateKey(from)} -> ${stateKey(to)}`);
+        this._timeInState[this._state] = (this._timeInState[this._state] ?? 0) + (time - this._stateSince);
+        this.enterState(to, time);
+      }),
+      engine.on('invalidTransition', ({ from, to }) => {
+        this.increment(this._rejected, `${stateKey(from)} -> ${stateKey(to)}`);
+      }),
+      engine.on('eventProcessed', ({ event, time, duration, queueDepth }) => {
+        this.advance(time);
+        this._eventCount++;
+        this.increment(this._eventsByType, String(event.type));
+
+        if (this._eventCount % this._sampleEvery === 0) {
+          this.record('handlerLatency', time, duration);
+          this.record('queueDepth', time, queueDepth);
+          for (const [name, gauge] of Object.entries(this._gauges)) {
+            this.record(name, time, gauge(engine.stateMachine as TMachine));
+          }
+        }
+      }),
+      engine.on('tick', ({ time }) => this.advance(time)),
+      engine.on('stop', () => this.advance(engine.clock.now))
+    ];
+  }
+
+  /**
+   * Returns the recorded samples of one time series
+   */
+  series(name: string): MetricSample[] {
+    return [...(this._series[name] ?? [])];
+  }
+
+  /**
+   * Returns counts, time in state and statistics of every time series
+   */
+  summary(): MetricsSummary {
+    const timeInState = { ...this._timeInState };
+    // Count the time spent in the current state so far
+    timeInState[this._state] = (timeInState[this._state] ?? 0) + (this._lastTime - this._stateSince);
+
+    const series: Record<string, SummaryStatistics> = {};
+    for (const [name, samples] of Object.entries(this._series)) {
+      series[name] = summarize(samples.map(sample => sample.value));
+    }
+
+    return {
+      eventCount: this._eventCount,
+      timeInState,
+      transitions: { ...this._transitions },
+      rejectedTransitions: { ...this._rejected },
+      eventsByType: { ...this._eventsByType },
+      series
+    };
+  }
+
+  /**
+   * Returns the summary together with every time series, e.g. for JSON.stringify
+   */
+  toJSON(): MetricsData {
+    const timeSeries: Record<string, MetricSample[]> = {};
+    for (const name of Object.keys(this._series)) {
+      timeSeries[name] = this.series(name);
+    }
+    return { ...this.summary(), timeSeries };
+  }
+
+  /**
+   * Formats every time series as CSV in long form: one row per sample
+   */
+  toCSV(): string {
+    const rows = Object.entries(this._series).flatMap(([name, samples]) =>
+      samples.map(sample => [name, sample.time, new Date(sample.time).toISOString(), sample.value]));
+    return toCSV(['metric', 'time', 'timeISO', 'value'], rows);
+  }
+
+  /**
+   * Discards everything collected so far
+   */
+  reset(): void {
+    this._eventCount = 0;
+    this._timeInState = {};
+    this._transitions = {};
+    this._rejected = {};
+    this._eventsByType = {};
+    this._series = {};
+  }
+
+  /**
+   * Stops listening to the engine
+   */
+  detach(): void {
+    this._unsubscribe.forEach(off => off());
+  }
+
+  /**
+   * Starts timing a state
+   */
+  private enterState(state: TState, time: number): void {
+    this._state = stateKey(state);
+    this._stateSince = time;
+    this._lastTime = time;
+  }
+
+  /**
+   * Moves the latest seen simulated time forward
+   */
+  private advance(time: number): void {
+    this._lastTime = Math.max(this._lastTime, time);
+  }
+
+  /**
+   * Appends a sample to a time series
+   */
+  private record(name: string, time: number, value: number): void {
+    (this._series[name] ??= []).push({ time, value });
+  }
+
+  /**
+   * Adds one to a counter
+   */
+  private increment(counts: Record<string, number>, key: string): void {
+    counts[key] = (counts[key] ?? 0) + 1;
+  }
+}
+
+function stateKey(state: unknown): string {
+  // Parallel machines report one state per region
+  return typeof state === 'object' && state !== null ? JSON.stringify(state) : String(state);
+}
@@ -0,0 +1,220 @@
+/**
+ * Event middleware: transform, filter or observe events around processing
+ */
+
+import type { Event } from './events.js';
+import type { SimulationContext } from './context.js';
+
+/**
+ * What middleware sees about the event being processed
+ */
+export interface MiddlewareContext<TState = any> {
+  /** Simulated time the event is processed at */
+  time: number;
+  /** Machine state: before the event in `before`, after it in `after` and `onError` */
+  state: TState;
+  /** Random source, IDs and clock of the run */
+  context: SimulationContext;
+}
+
+/**
+ * Hooks run around the processing of each event. Every hook is optional.
+ */
+export interface EventMiddleware<TEvent extends Event = Event, TState = any> {
+  /** Shown when a hook throws */
+  name?: string;
+  /**
+   * Runs before the machine sees the event. Return a replacement event,
+   * `null` to drop it, or nothing to pass it on unchanged.
+   */
+  before?: (event: TEvent, context: MiddlewareContext<TState>) => TEvent | null | void;
+  /** Runs after the machine processed the event, whether or not it failed */
+  after?: (event: TEvent, context: MiddlewareContext<TState>) => void;
+  /** Runs when processing the event failed; return true if the error was dealt with */
+  onError?: (error: unknown, event: TEvent, context: MiddlewareContext<TState>) => boolean | void;
+}
+
+/**
+ * Ordered list of middleware. `before` hooks run in the order middleware
+ * was added and `after` and `onError` hooks in reverse, so the first
+ * middleware wraps all the others.
+ */
+export class MiddlewarePipeline<TEvent extends Event = Event, TState = any> {
+  private _middleware: Array<EventMiddleware<TEvent, TState>> = [];
+
+  /**
+   * Adds middleware at the end of the pipeline and returns a function that removes it
+   */
+  use(middleware: EventMiddleware<TEvent, TState>): () => void {
+    this._middleware.push(middleware);
+    return () => {
+      const index = this._middleware.indexOf(middleware);
+      if (index !== -1) {
+        this._middleware.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Gets the number of middleware in the pipeline
+   */
+  get size(): number {
+    return this._middleware.length;
+  }
+
+  /**
+   * Passes an event through every `before` hook. Returns the event to
+   * process, or null if a middleware dropped it.
+   */
+  before(event: TEvent, context: MiddlewareContext<TState>): TEvent | null {
+    let current = event;
+    for (const middleware of this._middleware) {
+      const result = middleware.before?.(current, context);
+      if (result === null) {
+        return null;
+      }
+      current = result ?? current;
+    }
+    return current;
+  }
+
+  /**
+   * Runs every `after` hook
+   */
+  after(event: TEvent, context: MiddlewareContext<TState>): void {
+    for (const middleware of [...this._middleware].reverse()) {
+      middleware.after?.(event, context);
+    }
+  }
+
+  /**
+   * Runs every `onError` hook and reports whether any of them dealt with the error
+   */
+  onError(error: unknown, event: TEvent, context: MiddlewareContext<TState>): boolean {
+    let handled = false;
+    for (const middleware of [...this._middleware].reverse()) {
+      try {
+        handled = middleware.onError?.(error, event, context) === true || handled;
+      } catch (hookError) {
+        console.error(`Error hook of middleware "${middleware.name ?? 'anonymous'}" failed:`, hookError);
+      }
+    }
+    return handled;
+  }
+
+  /**
+   * Removes all middleware
+   */
+  clear(): void {
+    this._middleware = [];
+  }
+}
+
+/**
+ * Drops events that fail a check. `check` returns true for valid events,
+ * or false or a reason for invalid ones.
+ */
+export function validateEvents<TEvent extends Event = Event>(
+  check: (event: TEvent) => boolean | string,
+  onInvalid: (event: TEvent, reason: string) => void = (event, reason) =>
+    console.warn(`Dropped invalid event ${String(event.type)}: ${reason}`)
+): EventMiddleware<TEvent> {
+  return {
+    name: 'validate',
+    before: event => {
+      const result = check(event);
+      if (result === true) {
+        return;
+      }
+      onInvalid(event, typeof result === 'string' ? result : 'failed validation');
+      return null;
+    }
+  };
+}
+
+/**
+ * Keeps a random fraction of events, drawn from the run's random source so
+ * that seeded runs keep the same events. Only events of the given types
+ * are sampled when `types` is set; the rest always pass.
+ */
+export function sampleEvents<TEvent extends Event = Event>(rate: number, types?: string[]): EventMiddleware<TEvent> {
+  return {
+    name: 'sample',
+    before: (event, { context }) => {
+      if (types && !types.includes(String(event.type))) {
+        return;
+      }
+      return context.random.next() < rate ? undefined : null;
+    }
+  };
+}
+
+/**
+ * Replaces payload fields with a placeholder. Nested fields are given as
+ * dotted paths, e.g. "client.email".
+ */
+export function redactPayload<TEvent extends Event = Event>(
+  fields: string[],
+  replacement: unknown = '[REDACTED]'
+): EventMiddleware<TEvent> {
+  return {
+    name: 'redact',
+    before: event => {
+      if (event.payload === null || typeof event.payload !== 'object') {
+        return;
+      }
+      const payload = structuredClone(event.payload);
+      for (const field of fields) {
+        const path = field.split('.');
+        const parent = path.slice(0, -1).reduce<any>((node, key) => node?.[key], payload);
+        const key = path[path.length - 1]!;
+        if (parent !== null && typeof parent === 'object' && key in parent) {
+          parent[key] = replacement;
+        }
+      }
+      return { ...event, payload };
+    }
+  };
+}
+
+/**
+ * Stamps each event with the simulated time it is processed at, in place
+ * of whatever wall-clock time its generator used
+ */
+export function virtualTimestamps<TEvent extends Event = Event>(): EventMiddleware<TEvent> {
+  return {
+    name: 'virtual-timestamps',
+    before: (event, { time }) => ({ ...event, timestamp: new Date(time).toISOString() })
+  };
+}
+
+/**
+ * Logs each event as it goes in and comes out, with the state it moved
+ * to and the wall-clock milliseconds it took
+ */
+export function traceEvents<TEvent extends Event = Event>(
+  log: (message: string) => void = console.log
+): EventMiddleware<TEvent> {
+  const started = new Map<string, { at: number; state: unknown }>();
+  return {
+    name: 'trace',
+    before: (event, { time, state }) => {
+      started.set(event.id, { at: performance.now(), state });
+      log(`-> ${String(event.type)} (${event.id}) at ${new Date(time).toISOString()} in ${formatState(state)}`);
+    },
+    after: (event, { state }) => {
+      const start = started.get(event.id);
+      started.delete(event.id);
+      const took = start ? ` in ${(performance.now() - start.at).toFixed(2)}ms` : '';
+      log(`<- ${String(event.type)} (${event.id}) ${formatState(start?.state)} -> ${formatState(state)}${took}`);
+    },
+    onError: (error, event) => {
+      log(`!! ${String(event.type)} (${event.id}) failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+}
+
+function formatState(state: unknown): string {
+  // Parallel machines report one state per region
+  return typeof state === 'object' && state !== null ? JSON.stringify(state) : String(state);
+}
@@ -0,0 +1,425 @@
+/**
+ * Parallel (orthogonal) regions for the simulation framework
+ */
+
+import { causedBy } from './events.js';
+import type { EmitOptions, Event } from './events.js';
+import { BaseStateMachine } from './state-machine.js';
+import type { MachineSnapshot, StateHistoryEntry, StateMachine, StateMachineConfig } from './state-machine.js';
+import { createSimulationContext } from './context.js';
+import type { SimulationContext } from './context.js';
+import { TypedEmitter } from './emitter.js';
+import type { Listener, MachineEvents } from './emitter.js';
+import { validatePayload } from './schemas.js';
+import type { PayloadSchemas } from './schemas.js';
+import { isPromiseLike } from './utils.js';
+
+/**
+ * Active leaf state of each region, keyed by region name
+ */
+export type ParallelStateValue = Record<string, string>;
+
+/**
+ * Configuration of a single region. Regions share the machine's extended
+ * state and logging setting.
+ */
+export type RegionConfig<TEvent extends Event = Event, TExtended = any> =
+  Omit<StateMachineConfig<string, TEvent, TExtended>, 'extendedState' | 'enableLogging' | 'payloadSchemas'>;
+
+/**
+ * Configuration for creating a parallel state machine
+ */
+export interface ParallelStateMachineConfig<TEvent extends Event = Event, TExtended = any> {
+  regions: Record<string, RegionConfig<TEvent, TExtended>>;
+  /** Data shared by all regions, visible to their guards and actions */
+  extendedState?: TExtended;
+  /** Called after any region changes state */
+  onStateChange?: (from: ParallelStateValue, to: ParallelStateValue, region: string) => void;
+  /** Payload schema of each event type; events are checked before any region sees them */
+  payloadSchemas?: PayloadSchemas;
+  enableLogging?: boolean;
+}
+
+/**
+ * One region of a parallel machine. Regions react to events only through
+ * their transition tables; domain handling happens once, in the parent.
+ */
+class RegionStateMachine<TEvent extends Event, TExtended> extends BaseStateMachine<string, TEvent, TExtended> {
+  protected handleEvent(): void {
+    // Events are handled by the parallel machine
+  }
+}
+
+/**
+ * State machine made of independent regions that are all active at once.
+ * Every event is handled once and then offered to each region in
+ * declaration order, so each region can take its own transition.
+ */
+export class ParallelStateMachine<TEvent extends Event = Event, TExtended = any>
+  implements StateMachine<ParallelStateValue, TEvent> {
+
+  protected _regions: Map<string, BaseStateMachine<string, TEvent, TExtended>> = new Map();
+  protected _extendedState: TExtended;
+  protected _onStateChange?: (from: ParallelStateValue, to: ParallelStateValue, region: string) => void;
+  protected _enableLogging: boolean;
+  protected _payloadSchemas: PayloadSchemas;
+  protected _context: SimulationContext = createSimulationContext();
+  /** Event being handled, the cause of anything emitted meanwhile */
+  protected _handling: TEvent | undefined;
+  protected _emitter = new TypedEmitter<MachineEvents<ParallelStateValue, TEvent>>();
+
+  constructor(config: ParallelStateMachineConfig<TEvent, TExtended>) {
+    const names = Object.keys(config.regions);
+    if (names.length === 0) {
+      throw new Error('A parallel state machine needs at least one region');
+    }
+
+    this._extendedState = config.extendedState ?? ({} as TExtended);
+    this._onStateChange = config.onStateChange;
+    this._enableLogging = config.enableLogging ?? false;
+    this._payloadSchemas = config.payloadSchemas ?? {};
+
+    for (const name of names) {
+      const regionConfig = config.regions[name]!;
+      const region = new RegionStateMachine<TEvent, TExtended>({
+        ...regionConfig,
+        extendedState: this._extendedState,
+        enableLogging: this._enableLogging,
+        onStateChange: (from, to) => {
+          regionConfig.onStateChange?.(from, to);
+          this._onStateChange?.({ ...this.currentState, [name]: from }, this.currentState, name);
+        }
+      });
+
+      // Region events are re-emitted with whole-machine state values
+      region.on('transition', ({ from, event }) => {
+        this._emitter.emit('transition', { from: { ...this.currentState, [name]: from }, to: this.currentState, event, region: name });
+      });
+      region.on('invalidTransition', ({ to, event, blockedBy, reason }) => {
+        this._emitter.emit('invalidTransition', {
+          from: this.currentState,
+          to: { ...this.currentState, [name]: to },
+          event,
+          blockedBy,
+          reason,
+          region: name
+        });
+      });
+      region.on('error', payload => this._emitter.emit('error', payload));
+      this._regions.set(name, region);
+    }
+  }
+
+  /**
+   * Gets the active leaf state of every region
+   */
+  get currentState(): ParallelStateValue {
+    const value: ParallelStateValue = {};
+    this._regions.forEach((region, name) => {
+      value[name] = region.currentState;
+    });
+    return value;
+  }
+
+  /**
+   * Gets the active path of every region as a dotted string
+   */
+  get stateValue(): ParallelStateValue {
+    const value: ParallelStateValue = {};
+    this._regions.forEach((region, name) => {
+      value[name] = region.stateValue;
+    });
+    return value;
+  }
+
+  /**
+   * Gets the allowed transitions of all regions, keyed as "region.state"
+   */
+  get allowedTransitions(): Record<string, string[]> {
+    const transitions: Record<string, string[]> = {};
+    this._regions.forEach((region, name) => {
+      for (const [state, targets] of Object.entries(region.allowedTransitions)) {
+        transitions[`${name}.${state}`] = targets;
+      }
+    });
+    return transitions;
+  }
+
+  /**
+   * Gets the names of the regions in declaration order
+   */
+  get regionNames(): string[] {
+    return [...this._regions.keys()];
+  }
+
+  /**
+   * Gets the extended state shared by all regions
+   */
+  get extendedState(): TExtended {
+    return this._extendedState;
+  }
+
+  /**
+   * Gets the state history of every region
+   */
+  get stateHistory(): Record<string, Array<StateHistoryEntry<string, TEvent>>> {
+    const history: Record<string, Array<StateHistoryEntry<string, TEvent>>> = {};
+    this._regions.forEach((region, name) => {
+      history[name] = region.stateHistory;
+    });
+    return history;
+  }
+
+  /**
+   * Gets the context the machine draws random values, IDs and time from
+   */
+  get context(): SimulationContext {
+    return this._context;
+  }
+
+  /**
+   * Subscribes to a machine event and returns a function that unsubscribes.
+   * Region events carry the region's name.
+   */
+  on<K extends keyof MachineEvents<ParallelStateValue, TEvent>>(
+    type: K,
+    listener: Listener<MachineEvents<ParallelStateValue, TEvent>[K]>
+  ): () => void {
+    return this._emitter.on(type, listener);
+  }
+
+  /**
+   * Subscribes to the next occurrence of a machine event only
+   */
+  once<K extends keyof MachineEvents<ParallelStateValue, TEvent>>(
+    type: K,
+    listener: Listener<MachineEvents<ParallelStateValue, TEvent>[K]>
+  ): () => void {
+    return this._emitter.once(type, listener);
+  }
+
+  /**
+   * Removes a listener added with `on`
+   */
+  off<K extends keyof MachineEvents<ParallelStateValue, TEvent>>(
+    type: K,
+    listener: Listener<MachineEvents<ParallelStateValue, TEvent>[K]>
+  ): void {
+    this._emitter.off(type, listener);
+  }
+
+  /**
+   * Returns a region's state machine
+   */
+  region(name: string): BaseStateMachine<string, TEvent, TExtended> {
+    const region = this._regions.get(name);
+    if (!region) {
+      throw new Error(`Unknown region "${name}"`);
+    }
+    return region;
+  }
+
+  /**
+   * Checks whether a region is in the given state or one of its descendants
+   */
+  isIn(regionName: string, state: string): boolean {
+    return this.region(regionName).isIn(state);
+  }
+
+  /**
+   * Checks whether every region named in `newState` can move to its target
+   */
+  canTransition(newState: ParallelStateValue, event?: TEvent): boolean {
+    return Object.entries(newState).every(([name, state]) =>
+      this.region(name).canTransition(state, event));
+  }
+
+  /**
+   * Moves the named regions to their targets. Nothing changes unless every
+   * region can make its transition.
+   */
+  transition(newState: ParallelStateValue, event?: TEvent): boolean {
+    const entries = Object.entries(newState);
+    const blocked = entries.find(([name, state]) => !this.region(name).canTransition(state, event));
+
+    if (blocked) {
+      // Let the blocked region record and report the rejection
+      this.region(blocked[0]).transition(blocked[1], event);
+      return false;
+    }
+
+    entries.forEach(([name, state]) => this.region(name).transition(state, event));
+    return true;
+  }
+
+  /**
+   * Handles an event, then offers it to every region. With an async
+   * `handleEvent` the regions see the event once it settles; if the payload
+   * is invalid or the handler fails, they do not see it at all.
+   */
+  processEvent(event: TEvent): void | Promise<void> {
+    const cause = this._handling;
+    this._handling = event;
+    let handled: void | Promise<void> = undefined;
+    try {
+      this.validateEvent(event);
+      handled = this.handleEvent(event);
+    } catch (error) {
+      this._handling = cause;
+      // Regions never see events that were invalid or whose handler failed
+      this.reportEventError(error, event);
+      return;
+    }
+
+    if (isPromiseLike(handled)) {
+      return this.settleEvent(handled, event, cause);
+    }
+    this._handling = cause;
+    this.offerToRegions(event);
+  }
+
+  /**
+   * Throws a `PayloadValidationError` if the event's payload does not match
+   * the schema registered for its type
+   */
+  validateEvent(event: TEvent): void {
+    validatePayload(this._payloadSchemas, event);
+  }
+
+  /**
+   * Binds every region to the run context
+   */
+  bindContext(context: SimulationContext): void {
+    this._context = context;
+    this._regions.forEach(region => region.bindContext(context));
+  }
+
+  /**
+   * Resets every region to its initial state
+   */
+  reset(): void {
+    this._regions.forEach(region => region.reset());
+  }
+
+  /**
+   * Captures every region along with the shared extended state
+   */
+  snapshot(): MachineSnapshot<ParallelStateValue, TEvent, TExtended> {
+    const regions: Record<string, MachineSnapshot<string, TEvent, TExtended>> = {};
+    this._regions.forEach((region, name) => {
+      regions[name] = region.snapshot();
+    });
+
+    return {
+      currentState: this.currentState,
+      extendedState: structuredClone(this._extendedState),
+      history: [],
+      pendingEvents: [],
+      timeouts: Object.values(regions).flatMap(region => region.timeouts),
+      regions
+    };
+  }
+
+  /**
+   * Resumes every region from a snapshot taken by `snapshot()`
+   */
+  restore(snapshot: MachineSnapshot<ParallelStateValue, TEvent, TExtended>): void {
+    for (const [name, region] of this._regions) {
+      const regionSnapshot = snapshot.regions?.[name];
+      if (!regionSnapshot) {
+        throw new Error(`Snapshot has no state for region "${name}"`);
+      }
+      // Regions update the shared extended state in place
+      region.restore({ ...regionSnapshot, extendedState: snapshot.extendedState });
+    }
+  }
+
+  /**
+   * Gets a summary of the state machine with one entry per region
+   */
+  getSummary(): {
+    currentState: ParallelStateValue;
+    regions: Record<string, ReturnType<BaseStateMachine<string, TEvent, TExtended>['getSummary']>>;
+  } {
+    const regions: Record<string, ReturnType<BaseStateMachine<string, TEvent, TExtended>['getSummary']>> = {};
+    this._regions.forEach((region, name) => {
+      regions[name] = region.getSummary();
+    });
+    return {
+      currentState: this.currentState,
+      regions
+    };
+  }
+
+  /**
+   * Emits a follow-up event from `handleEvent`. It is marked as caused by
+   * the event being handled and put on the context's timeline, now or
+   * after `delay`.
+   */
+  protected emit<TType extends TEvent['type']>(
+    type: TType,
+    payload?: Extract<TEvent, { type: TType }>['payload'],
+    options: EmitOptions = {}
+  ): TEvent {
+    const delay = Math.max(0, options.delay ?? 0);
+    const event = causedBy({
+      id: this._context.ids.next('evt'),
+      type,
+      timestamp: new Date(this._context.clock.now + delay).toISOString(),
+      payload,
+      ...(options.priority !== undefined && { priority: options.priority }),
+      ...(options.flow !== undefined && { flow: options.flow })
+    } as unknown as TEvent, this._handling);
+    if (this._context.scheduler) {
+      this._context.scheduler.schedule(event, delay);
+    } else {
+      setTimeout(() => this.processEvent(event), delay);
+    }
+    return event;
+  }
+
+  /**
+   * Domain handling for each event before the regions see it (can be
+   * overridden by subclasses)
+   */
+  protected handleEvent(event: TEvent): void | Promise<void> {
+    // Default implementation - regions react through their transition tables
+  }
+
+  /**
+   * Waits for an asynchronous handler, then offers the event to the regions
+   * unless it rejected
+   */
+  private async settleEvent(handled: PromiseLike<unknown>, event: TEvent, cause: TEvent | undefined): Promise<void> {
+    let offer = true;
+    try {
+      await handled;
+    } catch (error) {
+      offer = false;
+      this.reportEventError(error, event);
+    } finally {
+      this._handling = cause;
+    }
+    if (offer) {
+      this.offerToRegions(event);
+    }
+  }
+
+  /**
+   * Lets every region react to an event, in declaration order
+   */
+  private offerToRegions(event: TEvent): void {
+    this._regions.forEach(region => region.processEvent(event));
+  }
+
+  /**
+   * Reports a handler error to listeners
+   */
+  private reportEventError(error: unknown, event: TEvent): void {
+    // Errors nobody listens for would otherwise go unnoticed
+    if (this._enableLogging || !this._emitter.hasListeners('error')) {
+      console.error(`Error processing event ${String(event.type)}:`, error);
+    }
+    this._emitter.emit('error', { error, event });
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Prometheus text exposition of a running simulation
+ */
+
+import { createServer } from 'node:http';
+import type { Server } from 'node:http';
+import type { Event } from './events.js';
+import { SimulationStatus } from './simulation-engine.js';
+import type { ISimulationEngine } from './simulation-engine.js';
+import { MetricsCollector } from './metrics.js';
+
+/**
+ * Options for rendering metrics in Prometheus format
+ */
+export interface PrometheusOptions {
+  /** Prefix of every metric name (default: "simulation") */
+  prefix?: string;
+  /** Labels added to every sample, e.g. { simulation: "legal" } */
+  labels?: Record<string, string>;
+}
+
+/**
+ * Options for serving a `/metrics` endpoint
+ */
+export interface MetricsServerOptions extends PrometheusOptions {
+  /** Port to listen on; 0 picks a free one (default: 9464) */
+  port?: number;
+  /** Interface to listen on (default: 127.0.0.1) */
+  host?: string;
+  /** Collector to report from; one is created if omitted */
+  collector?: MetricsCollector;
+}
+
+/**
+ * A running metrics endpoint
+ */
+export interface MetricsServer {
+  /** Resolves once the server is listening; rejects if it can't, e.g. when the port is in use */
+  ready: Promise<void>;
+  /** URL of the endpoint, known once `ready` has resolved */
+  readonly url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Renders engine status, current state, processed events per type,
+ * transition counters, time in state and the latest gauge values in the
+ * Prometheus text format
+ */
+export function renderPrometheus<TState, TEvent extends Event>(
+  engine: ISimulationEngine<TState, TEvent>,
+  collector: MetricsCollector,
+  options: PrometheusOptions = {}
+): string {
+  const prefix = options.prefix ?? 'simulation';
+  const base = options.labels ?? {};
+  const stats = engine.stats;
+  const summary = collector.summary();
+  const lines: string[] = [];
+
+  const metric = (name: string, type: 'gauge' | 'counter', help: string, samples: Array<[Record<string, string>, number]>) => {
+    lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} ${type}`);
+    for (const [labels, value] of samples) {
+      lines.push(`${prefix}_${name}${formatLabels({ ...base, ...labels })} ${formatValue(value)}`);
+    }
+  };
+
+  metric('status', 'gauge', 'Engine status (1 for the current one)',
+    Object.values(SimulationStatus).map(status => [{ status }, stats.status === status ? 1 : 0]));
+
+  const state = stats.currentState;
+  metric('current_state', 'gauge', 'Current state of the machine (1 for the active one)',
+    typeof state === 'object' && state !== null
+      // Parallel machines report one state per region
+      ? Object.entries(state as Record<string, unknown>).map(([region, value]) => [{ region, state: String(value) }, 1])
+      : [[{ state: String(state) }, 1]]);
+
+  metric('events_processed_total', 'counter', 'Events processed in the current run, by type',
+    Object.entries(summary.eventsByType).map(([type, count]) => [{ type }, count]));
+  metric('transitions_total', 'counter', 'Transitions taken in the current run',
+    Object.entries(summary.transitions).map(([key, count]) => [transitionLabels(key), count]));
+  metric('rejected_transitions_total', 'counter', 'Transitions rejected in the current run',
+    Object.entries(summary.rejectedTransitions).map(([key, count]) => [transitionLabels(key), count]));
+  metric('time_in_state_seconds', 'gauge', 'Simulated seconds spent in each state',
+    Object.entries(summary.timeInState).map(([stateName, ms]) => [{ state: stateName }, ms / 1000]));
+
+  metric('simulated_time_seconds', 'gauge', 'Simulated seconds since the run started', [[{}, stats.simulatedTime / 1000]]);
+  metric('runtime_seconds', 'gauge', 'Wall-clock seconds the run has taken', [[{}, stats.runtime / 1000]]);
+
+  const gauges: Array<[Record<string, string>, number]> = [];
+  for (const name of Object.keys(summary.series)) {
+    const samples = collector.series(name);
+    const last = samples[samples.length - 1];
+    if (last) {
+      gauges.push([{ name }, last.value]);
+    }
+  }
+  metric('gauge', 'gauge', 'Latest value of each collected time series', gauges);
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Serves `GET /metrics` for an engine in Prometheus format until closed
+ */
+export function serveMetrics<TState, TEvent extends Event>(
+  engine: ISimulationEngine<TState, TEvent>,
+  options: MetricsServerOptions = {}
+): MetricsServer {
+  const collector = options.collector ?? new MetricsCollector(engine);
+  const host = options.host ?? '127.0.0.1';
+  let url = '';
+
+  const server: Server = createServer((request, response) => {
+    if (request.method !== 'GET' || request.url?.split('?')[0] !== '/metrics') {
+      response.writeHead(404).end('Not found\n');
+      return;
+    }
+    response.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+    response.end(renderPrometheus(engine, collector, options));
+  });
+
+  const ready = new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 9464, host, () => {
+      const address = server.address();
+      const port = typeof address === 'object' && address ? address.port : options.port;
+      url = `http://${host}:${port}/metrics`;
+      resolve();
+    });
+  });
+
+  return {
+    ready,
+    get url() {
+      return url;
+    },
+    close: () => new Promise<void>((resolve, reject) => {
+      if (!options.collector) {
+        collector.detach();
+      }
+      // A server that never started listening (e.g. the port was taken) has nothing to close
+      if (!server.listening) {
+        resolve();
+        return;
+      }
+      server.close(error => (error ? reject(error) : resolve()));
+    })
+  };
+}
+
+function transitionLabels(key: string): Record<string, string> {
+  const [from = '', to = ''] = key.split(' -> ');
+  return { from, to };
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  return `{${entries.map(([name, value]) => `${name}="${escape(value)}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+  return String(value);
+}
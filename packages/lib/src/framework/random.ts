@@ -0,0 +1,82 @@
+/**
+ * Random number sources for the simulation framework
+ */
+
+/**
+ * Interface for sources of uniformly distributed random numbers
+ */
+export interface RandomSource {
+  /** Returns a float in [0, 1) */
+  next(): number;
+  /** Returns the internal state, for sources that can be saved and restored */
+  getState?(): number;
+  /** Restores a state previously returned by getState */
+  setState?(state: number): void;
+}
+
+/**
+ * Random source backed by Math.random (not reproducible)
+ */
+export const mathRandom: RandomSource = {
+  next: () => Math.random()
+};
+
+/**
+ * Seedable pseudo-random number generator (mulberry32). Two instances created
+ * with the same seed produce the same sequence.
+ */
+export class SeededRandom implements RandomSource {
+  private _seed: number;
+  private _state: number;
+
+  constructor(seed: number) {
+    this._seed = seed >>> 0;
+    this._state = this._seed;
+  }
+
+  /**
+   * Gets the seed the generator was created with
+   */
+  get seed(): number {
+    return this._seed;
+  }
+
+  /**
+   * Returns the next float in [0, 1)
+   */
+  next(): number {
+    this._state = (this._state + 0x6d2b79f5) >>> 0;
+    let t = this._state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Returns the current position in the sequence
+   */
+  getState(): number {
+    return this._state;
+  }
+
+  /**
+   * Continues the sequence from a saved position
+   */
+  setState(state: number): void {
+    this._state = state >>> 0;
+  }
+
+  /**
+   * Creates an independent generator whose seed is drawn from this one
+   */
+  fork(): SeededRandom {
+    return new SeededRandom(Math.floor(this.next() * 4294967296));
+  }
+}
+
+/**
+ * Creates a seeded random source, or a Math.random source when no seed is given
+ */
+export function createRandom(seed?: number): RandomSource {
+  return seed === undefined ? mathRandom : new SeededRandom(seed);
+}
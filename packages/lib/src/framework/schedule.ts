@@ -0,0 +1,154 @@
+/**
+ * Fixed-period and cron-like schedules over simulated time
+ */
+
+/**
+ * When a scheduled generator fires. Cron expressions use the usual five
+ * fields (minute hour day-of-month month day-of-week) evaluated in UTC.
+ */
+export type GeneratorSchedule =
+  | { every: number; offset?: number }
+  | { cron: string };
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const cronCache = new Map<string, CronFields>();
+
+/**
+ * Parses one cron field: `*`, single values, ranges (`1-5`), lists (`0,30`)
+ * and steps over either (`10-50/10`)
+ */
+function parseCronField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText !== undefined ? Number(stepText) : 1;
+    let start = min;
+    let end = max;
+
+    if (range !== '*') {
+      const [from, to] = (range ?? '').split('-');
+      start = Number(from);
+      end = to !== undefined ? Number(to) : (stepText !== undefined ? max : start);
+    }
+
+    if (![start, end, step].every(Number.isInteger) || step <= 0 || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron field "${field}" (expected values in ${min}-${max})`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parses a five-field cron expression
+ */
+function parseCron(expression: string): CronFields {
+  const cached = cronCache.get(expression);
+  if (cached) {
+    return cached;
+  }
+
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields as [string, string, string, string, string];
+  const daysOfWeek = parseCronField(dayOfWeek, 0, 7);
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+  }
+
+  const parsed: CronFields = {
+    minutes: parseCronField(minute, 0, 59),
+    hours: parseCronField(hour, 0, 23),
+    daysOfMonth: parseCronField(dayOfMonth, 1, 31),
+    months: parseCronField(month, 1, 12),
+    daysOfWeek,
+    domRestricted: dayOfMonth !== '*',
+    dowRestricted: dayOfWeek !== '*'
+  };
+  cronCache.set(expression, parsed);
+  return parsed;
+}
+
+/**
+ * Returns the first time strictly after `after` that matches the cron expression
+ */
+export function nextCronTime(expression: string, after: number): number {
+  const cron = parseCron(expression);
+  const date = new Date(after);
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  // Five years is enough to find any valid expression (e.g. 29 Feb)
+  const limit = after + 5 * 366 * 24 * 3600 * 1000;
+
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+
+    const domMatch = cron.daysOfMonth.has(date.getUTCDate());
+    const dowMatch = cron.daysOfWeek.has(date.getUTCDay());
+    const dayMatch = cron.domRestricted && cron.dowRestricted
+      ? domMatch || dowMatch
+      : domMatch && dowMatch;
+    if (!dayMatch) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+
+    if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+      continue;
+    }
+
+    if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+      continue;
+    }
+
+    return date.getTime();
+  }
+
+  throw new Error(`Cron expression "${expression}" never matches`);
+}
+
+/**
+ * Returns the first time strictly after `after` at which the schedule fires.
+ * Fixed periods are aligned to `origin` (normally the run's start time).
+ */
+export function nextScheduledTime(schedule: GeneratorSchedule, after: number, origin: number): number {
+  if ('cron' in schedule) {
+    return nextCronTime(schedule.cron, after);
+  }
+
+  if (schedule.every <= 0) {
+    throw new Error(`Schedule period must be positive, got ${schedule.every}`);
+  }
+
+  const first = origin + (schedule.offset ?? schedule.every);
+  if (after < first) {
+    return first;
+  }
+  return first + (Math.floor((after - first) / schedule.every) + 1) * schedule.every;
+}
@@ -0,0 +1,69 @@
+/**
+ * Runtime payload schemas for events, with payload types inferred from them
+ */
+
+import { z } from 'zod';
+import type { Event } from './events.js';
+
+export { z };
+
+/**
+ * Payload schema of each event type, by type
+ */
+export type PayloadSchemas = Record<string, z.ZodTypeAny>;
+
+/**
+ * Union of the events described by a set of schemas, each with the payload
+ * type its schema infers, e.g. `type LegalEvent = SchemaEvent<typeof LEGAL_PAYLOAD_SCHEMAS>`
+ */
+export type SchemaEvent<TSchemas extends PayloadSchemas> = {
+  [K in keyof TSchemas & string]: Event<K, z.infer<TSchemas[K]>> & { payload: z.infer<TSchemas[K]> };
+}[keyof TSchemas & string];
+
+/**
+ * The member of an event union with the given type
+ */
+export type EventOfType<TEvent extends Event, TType> = Extract<TEvent, { type: TType }>;
+
+/**
+ * Thrown when an event's payload does not match the schema of its type
+ */
+export class PayloadValidationError extends Error {
+  readonly eventType: string;
+  readonly eventId: string;
+  readonly issues: z.ZodIssue[];
+
+  constructor(event: Event, issues: z.ZodIssue[]) {
+    const details = issues
+      .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : 'payload'}: ${issue.message}`)
+      .join('; ');
+    super(`Invalid payload for event ${String(event.type)} (${event.id}): ${details}`);
+    this.name = 'PayloadValidationError';
+    this.eventType = String(event.type);
+    this.eventId = event.id;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Declares payload schemas, keeping their exact types for `SchemaEvent`
+ */
+export function definePayloadSchemas<TSchemas extends PayloadSchemas>(schemas: TSchemas): TSchemas {
+  return schemas;
+}
+
+/**
+ * Checks an event's payload against the schema of its type and throws a
+ * `PayloadValidationError` listing every problem. Events of types without
+ * a schema pass. The event itself is left as it is.
+ */
+export function validatePayload(schemas: PayloadSchemas, event: Event): void {
+  const schema = schemas[String(event.type)];
+  if (!schema) {
+    return;
+  }
+  const result = schema.safeParse(event.payload);
+  if (!result.success) {
+    throw new PayloadValidationError(event, result.error.issues);
+  }
+}
@@ -2,28 +2,94 @@
  * Simulation engine for the simulation framework
  */
 
-import { Event, EventGenerator } from './events.js';
-import { StateMachine } from './state-machine.js';
-import { rand, pick } from './utils.js';
+import { causedBy } from './events.js';
+import type { Event, EventGenerator } from './events.js';
+import { BaseStateMachine } from './state-machine.js';
+import { ParallelStateMachine } from './parallel-state-machine.js';
+import type { MachineSnapshot, StateMachine } from './state-machine.js';
+import { rand, weightedPick, IdGenerator, isPromiseLike } from './utils.js';
+import { Agenda, VirtualClock } from './clock.js';
+import type { SimulationClock } from './clock.js';
+import { SeededRandom, createRandom } from './random.js';
+import type { RandomSource } from './random.js';
+import { createSimulationContext } from './context.js';
+import type { ScheduledEventHandle, SimulationContext } from './context.js';
+import { toDistribution } from './distributions.js';
+import type { Distribution, DistributionLike } from './distributions.js';
+import { GeneratorTiming, registerGenerator } from './generators.js';
+import type { GeneratorRegistration, RegisteredGenerator } from './generators.js';
+import { nextScheduledTime } from './schedule.js';
+import { saveSnapshot } from './checkpoint.js';
+import type { CheckpointOptions } from './checkpoint.js';
+import { EventLog } from './event-log.js';
+import { TypedEmitter } from './emitter.js';
+import type { EngineEvents, Listener } from './emitter.js';
+import { MiddlewarePipeline } from './middleware.js';
+import type { EventMiddleware, MiddlewareContext } from './middleware.js';
+import { DeadLetterQueue, ErrorAction, resolveErrorAction, retryDelay } from './error-policy.js';
+import type { ErrorPolicyLike } from './error-policy.js';
+
+/**
+ * Start time used for seeded runs that do not set one, so that timestamps
+ * are reproducible as well (2025-01-01T00:00:00Z)
+ */
+export const DEFAULT_SEEDED_START_TIME = Date.UTC(2025, 0, 1);
+
+/**
+ * Format version of engine snapshots
+ */
+export const SNAPSHOT_VERSION = 2;
 
 /**
  * Configuration options for the simulation engine
  */
-export interface SimulationOptions {
-  /** Minimum interval between events in milliseconds */
+export interface SimulationOptions<TState = any, TEvent extends Event = Event> {
+  /** How simulated time relates to wall-clock time (default: realtime) */
+  mode?: SimulationMode;
+  /** Simulated time the run starts at, in milliseconds since the epoch (default: now) */
+  startTime?: number;
+  /** Seed for the run's random source; the same seed reproduces the same run */
+  seed?: number;
+  /** Random source to use instead of a seeded one */
+  random?: RandomSource;
+  /** Number of agenda entries processed before yielding in discrete-event mode */
+  batchSize?: number;
+  /** Minimum interval between events in simulated milliseconds */
   minInterval?: number;
-  /** Maximum interval between events in milliseconds */
+  /** Maximum interval between events in simulated milliseconds */
   maxInterval?: number;
-  /** Array of event generator functions */
-  eventGenerators?: EventGenerator[];
+  /** Distribution of simulated milliseconds between events; overrides min/maxInterval */
+  interArrival?: DistributionLike;
+  /** Event generator functions, or registrations with their own timing */
+  eventGenerators?: Array<EventGenerator<any> | GeneratorRegistration<any, any>>;
   /** Enable debug logging */
   enableLogging?: boolean;
   /** Maximum number of events to process before stopping (0 = unlimited) */
   maxEvents?: number;
+  /**
+   * Stop once the machine enters one of these states; inside a compound
+   * state, any state on the active path counts. For a parallel machine, a
+   * state of any region counts, and "region.State" names one region's state.
+   */
+  finalStates?: unknown[];
+  /** Stop before any work due more than this many simulated milliseconds after the start */
+  timeHorizon?: number;
+  /** Stop once this returns true after an event, e.g. over the machine's extended state */
+  stopWhen?: (machine: StateMachine<TState, TEvent>, stats: SimulationStats<TState>) => boolean;
+  /** Stop once the run has taken this many wall-clock milliseconds, not counting pauses */
+  maxRuntime?: number;
+  /** Stop once a measured value stops changing */
+  steadyState?: SteadyStateCondition<TState, TEvent>;
+  /** Periodically write snapshots to disk */
+  checkpoint?: CheckpointOptions;
+  /** Record every processed event in the engine's event log (default: true) */
+  recordEvents?: boolean;
+  /** What to do with events whose processing fails (default: skip) */
+  errorPolicy?: ErrorPolicyLike;
   /** Callback called when simulation starts */
   onStart?: () => void;
-  /** Callback called when simulation stops */
-  onStop?: () => void;
+  /** Callback called when simulation stops, with the condition that ended it */
+  onStop?: (reason: StopReason) => void;
   /** Callback called when simulation pauses */
   onPause?: () => void;
   /** Callback called when simulation resumes */
@@ -34,6 +100,37 @@ export interface SimulationOptions {
   onTick?: () => void;
 }
 
+/**
+ * Detects a steady state: the run stops once the last `window` values of
+ * `measure`, taken after each event, lie within `tolerance` of each other
+ */
+export interface SteadyStateCondition<TState = any, TEvent extends Event = Event> {
+  measure: (machine: StateMachine<TState, TEvent>) => number;
+  window: number;
+  tolerance: number;
+}
+
+/**
+ * Why a run ended
+ */
+export enum StopReason {
+  /** `stop()` was called */
+  Manual = 'manual',
+  MaxEvents = 'max-events',
+  FinalState = 'final-state',
+  TimeHorizon = 'time-horizon',
+  Predicate = 'predicate',
+  WallClock = 'wall-clock',
+  SteadyState = 'steady-state',
+  /** An event failed under the `halt` error policy, or `run()` met an async handler */
+  Error = 'error',
+  /**
+   * Nothing was left to do: the agenda ran dry in `run()`, or in
+   * discrete-event mode only ticks that fire no generator were left
+   */
+  AgendaEmpty = 'agenda-empty'
+}
+
 /**
  * Status of the simulation engine
  */
@@ -43,18 +140,83 @@ export enum SimulationStatus {
   Paused = 'paused'
 }
 
+/**
+ * How the engine advances simulated time
+ */
+export enum SimulationMode {
+  /** Waits in wall-clock time for each agenda entry to fall due */
+  Realtime = 'realtime',
+  /** Jumps the virtual clock straight to the next agenda entry */
+  DiscreteEvent = 'discrete-event'
+}
+
+/**
+ * Work item held on the engine's agenda
+ */
+export type ScheduledItem<TEvent extends Event = Event> =
+  | { kind: 'tick' }
+  | { kind: 'event'; event: TEvent }
+  | { kind: 'generator'; index: number };
+
+/**
+ * Serializable copy of an engine's run, including its state machine
+ */
+export interface EngineSnapshot<TState = any, TEvent extends Event = Event> {
+  version: number;
+  mode: SimulationMode;
+  clock: { startTime: number; now: number };
+  eventCount: number;
+  /** Random source state, or null if the source cannot be saved */
+  random: number | null;
+  /** Number of IDs issued by the run's ID sequence */
+  idCounter: number;
+  /** Pending work in time order, excluding the machine's own timeouts */
+  agenda: Array<{ time: number; item: ScheduledItem<TEvent> }>;
+  /** Occurrences of each registered generator, by index */
+  generatorOccurrences: number[];
+  machine: MachineSnapshot<TState, TEvent>;
+}
+
+/**
+ * Statistics about the current or last run
+ */
+export interface SimulationStats<TState = any> {
+  status: SimulationStatus;
+  mode: SimulationMode;
+  eventCount: number;
+  runtime: number; // wall-clock milliseconds
+  simulatedTime: number; // simulated milliseconds
+  simulatedNow: string;
+  currentState: TState;
+  /** Why the last run ended, or null while it is still going */
+  stopReason: StopReason | null;
+}
+
 /**
  * Interface for simulation engine implementations
  */
 export interface ISimulationEngine<TState, TEvent extends Event = Event> {
   stateMachine: StateMachine<TState, TEvent>;
   status: SimulationStatus;
-  start(options?: SimulationOptions): void;
+  clock: SimulationClock;
+  stats: SimulationStats<TState>;
+  deadLetters: DeadLetterQueue<TEvent, TState>;
+  start(options?: SimulationOptions<TState, TEvent>): void;
   stop(): void;
   pause(): void;
   resume(): void;
   injectEvent(event: TEvent): void;
+  scheduleEvent(event: TEvent, delay: number): ScheduledEventHandle;
   tick(): void;
+  use(middleware: EventMiddleware<TEvent, TState>): () => void;
+  on<K extends keyof EngineEvents<TState, TEvent>>(
+    type: K,
+    listener: Listener<EngineEvents<TState, TEvent>[K]>
+  ): () => void;
+  off<K extends keyof EngineEvents<TState, TEvent>>(
+    type: K,
+    listener: Listener<EngineEvents<TState, TEvent>[K]>
+  ): void;
 }
 
 /**
@@ -65,15 +227,43 @@ export class SimulationEngine<TState, TEvent extends Event = Event>
   
   private _stateMachine: StateMachine<TState, TEvent>;
   private _status: SimulationStatus = SimulationStatus.Stopped;
-  private _options: SimulationOptions = {};
+  private _options: SimulationOptions<TState, TEvent> = {};
   private _timer: ReturnType<typeof setTimeout> | null = null;
+  private _timerSetAt = 0;
+  private _clock = new VirtualClock();
+  private _agenda = new Agenda<ScheduledItem<TEvent>>();
+  private _context: SimulationContext = createSimulationContext({ clock: this._clock });
+  private _interArrival: Distribution | null = null;
+  private _generators: RegisteredGenerator<TEvent, TState>[] = [];
+  private _inAgenda = false;
+  private _lastCheckpointAt = 0;
+  private _eventLog = new EventLog<TEvent>();
   private _eventCount = 0;
+  private _stopReason: StopReason | null = null;
+  private _steadySamples: number[] = [];
+  private _emitter = new TypedEmitter<EngineEvents<TState, TEvent>>();
+  private _middleware = new MiddlewarePipeline<TEvent, TState>();
+  private _deadLetters = new DeadLetterQueue<TEvent, TState>();
+  /** Failed attempts of events being retried, by event ID */
+  private _attempts = new Map<string, number>();
+  private _eventFailed = false;
+  /** Settles once the async handler of the event being processed does */
+  private _inFlight: Promise<void> | null = null;
+  /** Event being processed, the cause of events injected or scheduled meanwhile */
+  private _handling: TEvent | undefined;
   private _startTime: Date | null = null;
   private _pausedTime: Date | null = null;
   private _totalPausedDuration = 0;
 
   constructor(stateMachine: StateMachine<TState, TEvent>) {
     this._stateMachine = stateMachine;
+
+    // Machine events are re-emitted with the simulated time
+    stateMachine.on?.('transition', payload =>
+      this._emitter.emit('transition', { ...payload, time: this._clock.now }));
+    stateMachine.on?.('invalidTransition', payload =>
+      this._emitter.emit('invalidTransition', { ...payload, time: this._clock.now }));
+    stateMachine.on?.('error', ({ error, event }) => this._handleError(error, event));
   }
 
   /**
@@ -91,36 +281,107 @@ export class SimulationEngine<TState, TEvent extends Event = Event>
   }
 
   /**
-   * Gets simulation statistics
+   * Gets the virtual clock driving simulated time
    */
-  get stats(): {
-    status: SimulationStatus;
-    eventCount: number;
-    runtime: number; // in milliseconds
-    currentState: TState;
-  } {
-    const now = new Date();
-    let runtime = 0;
-    
-    if (this._startTime) {
-      runtime = now.getTime() - this._startTime.getTime() - this._totalPausedDuration;
-      if (this._status === SimulationStatus.Paused && this._pausedTime) {
-        runtime -= (now.getTime() - this._pausedTime.getTime());
-      }
-    }
+  get clock(): VirtualClock {
+    return this._clock;
+  }
 
+  /**
+   * Gets the context (random source, IDs, clock) of the current run
+   */
+  get context(): SimulationContext {
+    return this._context;
+  }
+
+  /**
+   * Gets the generators registered for the current run
+   */
+  get generators(): ReadonlyArray<RegisteredGenerator<TEvent, TState>> {
+    return this._generators;
+  }
+
+  /**
+   * Gets the log of events processed in the current run
+   */
+  get eventLog(): EventLog<TEvent> {
+    return this._eventLog;
+  }
+
+  /**
+   * Gets the events of the current run given up on under the `dead-letter` error policy
+   */
+  get deadLetters(): DeadLetterQueue<TEvent, TState> {
+    return this._deadLetters;
+  }
+
+  /**
+   * Gets the number of entries waiting on the agenda
+   */
+  get agendaSize(): number {
+    return this._agenda.size;
+  }
+
+  /**
+   * Gets simulation statistics
+   */
+  get stats(): SimulationStats<TState> {
     return {
       status: this._status,
+      mode: this._options.mode ?? SimulationMode.Realtime,
       eventCount: this._eventCount,
-      runtime: Math.max(0, runtime),
-      currentState: this._stateMachine.currentState
+      runtime: this._runtime(),
+      simulatedTime: this._clock.elapsed,
+      simulatedNow: this._clock.nowISO(),
+      currentState: this._stateMachine.currentState,
+      stopReason: this._stopReason
     };
   }
 
+  /**
+   * Subscribes to an engine event and returns a function that unsubscribes.
+   * Any number of listeners can be attached, independently of the
+   * callbacks in `SimulationOptions`.
+   */
+  on<K extends keyof EngineEvents<TState, TEvent>>(
+    type: K,
+    listener: Listener<EngineEvents<TState, TEvent>[K]>
+  ): () => void {
+    return this._emitter.on(type, listener);
+  }
+
+  /**
+   * Subscribes to the next occurrence of an engine event only
+   */
+  once<K extends keyof EngineEvents<TState, TEvent>>(
+    type: K,
+    listener: Listener<EngineEvents<TState, TEvent>[K]>
+  ): () => void {
+    return this._emitter.once(type, listener);
+  }
+
+  /**
+   * Removes a listener added with `on`
+   */
+  off<K extends keyof EngineEvents<TState, TEvent>>(
+    type: K,
+    listener: Listener<EngineEvents<TState, TEvent>[K]>
+  ): void {
+    this._emitter.off(type, listener);
+  }
+
+  /**
+   * Adds middleware that sees every event before and after the state
+   * machine does, and returns a function that removes it
+   */
+  use(middleware: EventMiddleware<TEvent, TState>): () => void {
+    return this._middleware.use(middleware);
+  }
+
   /**
    * Starts the simulation
    */
-  start(options: SimulationOptions = {}): void {
+  start(options: SimulationOptions<TState, TEvent> = {}): void {
     if (this._status === SimulationStatus.Running) {
       if (options.enableLogging) {
         console.warn('Simulation is already running');
@@ -128,46 +389,171 @@ export class SimulationEngine<TState, TEvent extends Event = Event>
       return;
     }
 
-    this._options = { 
-      minInterval: 1500,
-      maxInterval: 4500,
-      enableLogging: false,
-      maxEvents: 0,
-      eventGenerators: [],
-      ...options 
-    };
-
-    this._status = SimulationStatus.Running;
-    this._eventCount = 0;
-    this._startTime = new Date();
-    this._totalPausedDuration = 0;
-    this._pausedTime = null;
+    this._prepareRun(options);
+    this._clock.reset(this._defaultStartTime());
+    this._eventLog.reset(this._clock.startTime);
+    this._stateMachine.bindContext?.(this._context);
 
     if (this._options.enableLogging) {
-      console.log('Simulation started');
+      console.log(`Simulation started (${this._options.mode})`);
     }
 
     this._options.onStart?.();
+    this._emitter.emit('start', { mode: this._options.mode!, time: this._clock.now, resumed: false });
     this._scheduleNextEvent();
+    this._generators.forEach((generator, index) => this._scheduleGenerator(generator, index, true));
+    this._scheduleRun();
+  }
+
+  /**
+   * Runs the simulation to the end without yielding, in discrete-event
+   * mode, and returns the final stats. The run ends when it is stopped
+   * (e.g. by `maxEvents` or from a callback), or when nothing is left to
+   * do: the agenda runs dry, which happens once every generator has
+   * reached its `maxOccurrences`, or only ticks remain and none of the
+   * generators sharing them is enabled. Machines with async handlers need
+   * `runAsync`; here the run stops with an error at the first one. A run
+   * whose generators never run out needs a stop condition, or it throws
+   * before starting.
+   */
+  run(options: SimulationOptions<TState, TEvent> = {}): SimulationStats<TState> {
+    this._assertBounded(options);
+    this.start({ ...options, mode: SimulationMode.DiscreteEvent });
+    // start() arms a timer for the first batch; drive the agenda here instead
+    this._clearTimer();
+
+    while (this._status === SimulationStatus.Running && !this._agenda.isEmpty) {
+      this._runAgenda(this._options.batchSize ?? 1000);
+      if (this._inFlight) {
+        this.stop(StopReason.Error);
+        throw new Error('An event handler returned a promise; use runAsync() for async handlers');
+      }
+    }
+    if (this._status === SimulationStatus.Running) {
+      this.stop(StopReason.AgendaEmpty);
+    }
+    return this.stats;
+  }
+
+  /**
+   * Like `run`, but waits for async handlers: each event's handler settles
+   * before the next event is processed
+   */
+  async runAsync(options: SimulationOptions<TState, TEvent> = {}): Promise<SimulationStats<TState>> {
+    this._assertBounded(options);
+    this.start({ ...options, mode: SimulationMode.DiscreteEvent });
+    this._clearTimer();
+
+    while (this._status === SimulationStatus.Running && (this._inFlight || !this._agenda.isEmpty)) {
+      if (this._inFlight) {
+        await this._inFlight;
+        // Settling re-arms the run timer; keep driving the agenda here
+        this._clearTimer();
+        continue;
+      }
+      this._runAgenda(this._options.batchSize ?? 1000);
+    }
+    if (this._status === SimulationStatus.Running) {
+      this.stop(StopReason.AgendaEmpty);
+    }
+    return this.stats;
+  }
+
+  /**
+   * Captures the run so it can be resumed later with `restore`. Requires a
+   * state machine that supports snapshots.
+   */
+  snapshot(): EngineSnapshot<TState, TEvent> {
+    if (!this._stateMachine.snapshot) {
+      throw new Error('State machine does not support snapshots');
+    }
+
+    this._syncRealtimeClock();
+    const machine = this._stateMachine.snapshot();
+    // The machine re-arms its own timeouts when restored
+    const timeoutIds = new Set(machine.timeouts.map(timeout => timeout.event.id));
+
+    return structuredClone({
+      version: SNAPSHOT_VERSION,
+      mode: this._options.mode ?? SimulationMode.Realtime,
+      clock: { startTime: this._clock.startTime, now: this._clock.now },
+      eventCount: this._eventCount,
+      random: this._context.random.getState?.() ?? null,
+      idCounter: this._context.ids.counter,
+      agenda: this._agenda.toArray()
+        .filter(entry => !(entry.item.kind === 'event' && timeoutIds.has(entry.item.event.id)))
+        .map(entry => ({ time: entry.time, item: entry.item })),
+      generatorOccurrences: this._generators.map(generator => generator.occurrences),
+      machine
+    });
+  }
+
+  /**
+   * Resumes a run from a snapshot and starts processing again. Options
+   * that cannot be saved (generators, callbacks) must be passed again; the
+   * generators must be registered in the same order as in the saved run.
+   */
+  restore(snapshot: EngineSnapshot<TState, TEvent>, options: SimulationOptions<TState, TEvent> = {}): void {
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported snapshot version ${snapshot.version}`);
+    }
+    if (!this._stateMachine.restore) {
+      throw new Error('State machine does not support snapshots');
+    }
+
+    this._clearTimer();
+    this._prepareRun({ ...options, mode: options.mode ?? snapshot.mode });
+    this._eventCount = snapshot.eventCount;
+    this._clock.reset(snapshot.clock.startTime);
+    this._clock.advanceTo(snapshot.clock.now);
+    // The log of a resumed run starts at the restore point
+    this._eventLog.reset(snapshot.clock.now);
+
+    if (snapshot.random !== null && !options.random) {
+      const random = new SeededRandom(0);
+      random.setState(snapshot.random);
+      this._context.random = random;
+    }
+    this._context.ids.reset(snapshot.idCounter);
+    this._generators.forEach((generator, index) =>
+      generator.reset(snapshot.generatorOccurrences[index] ?? 0));
+
+    for (const entry of structuredClone(snapshot.agenda)) {
+      this._agenda.schedule(entry.time, entry.item);
+    }
+
+    this._stateMachine.bindContext?.(this._context);
+    this._stateMachine.restore(snapshot.machine);
+
+    if (this._options.enableLogging) {
+      console.log(`Simulation restored at ${this._clock.nowISO()} (${this._eventCount} events)`);
+    }
+
+    this._emitter.emit('start', { mode: this._options.mode!, time: this._clock.now, resumed: true });
+
+    this._scheduleRun();
   }
 
   /**
    * Stops the simulation
    */
-  stop(): void {
+  stop(reason: StopReason = StopReason.Manual): void {
     if (this._status === SimulationStatus.Stopped) {
       return;
     }
 
     this._clearTimer();
     this._status = SimulationStatus.Stopped;
+    this._stopReason = reason;
+    this._checkpoint(true);
 
     if (this._options.enableLogging) {
-      console.log('Simulation stopped');
+      console.log(`Simulation stopped (${reason})`);
       console.log(`Final stats:`, this.stats);
     }
 
-    this._options.onStop?.();
+    this._options.onStop?.(reason);
+    this._emitter.emit('stop', { reason, stats: this.stats });
   }
 
   /**
@@ -178,6 +564,7 @@ export class SimulationEngine<TState, TEvent extends Event = Event>
       return;
     }
 
+    this._syncRealtimeClock();
     this._clearTimer();
     this._status = SimulationStatus.Paused;
     this._pausedTime = new Date();
@@ -187,6 +574,7 @@ export class SimulationEngine<TState, TEvent extends Event = Event>
     }
 
     this._options.onPause?.();
+    this._emitter.emit('pause', { time: this._clock.now });
   }
 
   /**
@@ -209,30 +597,80 @@ export class SimulationEngine<TState, TEvent extends Event = Event>
     }
 
     this._options.onResume?.();
-    this._scheduleNextEvent();
+    this._emitter.emit('resume', { time: this._clock.now });
+    this._scheduleRun();
   }
 
   /**
-   * Injects an event directly into the simulation
+   * Injects an event directly into the simulation. Throws a
+   * `PayloadValidationError` if the machine has a schema for the event's
+   * type and the payload does not match it. Events injected while another
+   * event is processed, e.g. from a listener, are marked as caused by it.
+   * While an async handler is running the event waits its turn on the agenda.
    */
   injectEvent(event: TEvent): void {
-    this._processEvent(event);
+    const stamped = causedBy(event, this._handling);
+    this._stateMachine.validateEvent?.(stamped);
+    if (this._inFlight) {
+      this._schedule(stamped, 0);
+      return;
+    }
+    this._syncRealtimeClock();
+    this._processEvent(stamped);
+  }
+
+  /**
+   * Schedules an event to be processed after a delay in simulated
+   * milliseconds. Payloads and causes are handled like in `injectEvent`.
+   */
+  scheduleEvent(event: TEvent, delay: number): ScheduledEventHandle {
+    const stamped = causedBy(event, this._handling);
+    this._stateMachine.validateEvent?.(stamped);
+    return this._schedule(stamped, delay);
   }
 
   /**
-   * Advances the simulation by one tick
+   * Puts an event on the agenda after a delay in simulated milliseconds
    */
-  tick(): void {
+  private _schedule(event: TEvent, delay: number): ScheduledEventHandle {
+    this._syncRealtimeClock();
+    const entry = this._agenda.schedule(this._clock.now + Math.max(0, delay), { kind: 'event', event });
+    this._rearm();
+
+    return {
+      time: entry.time,
+      cancel: () => {
+        this._syncRealtimeClock();
+        const removed = this._agenda.cancel(entry);
+        if (removed) {
+          this._rearm();
+        }
+        return removed;
+      }
+    };
+  }
+
+  /**
+   * Advances the simulation by one tick. Returns true if a generator fired.
+   */
+  tick(): boolean {
     if (this._status === SimulationStatus.Running) {
       this._options.onTick?.();
+      this._emitter.emit('tick', { time: this._clock.now });
       
-      // Generate and process an event if generators are available
-      if (this._options.eventGenerators && this._options.eventGenerators.length > 0) {
-        const generator = pick(this._options.eventGenerators);
-        const event = generator() as TEvent;
-        this._processEvent(event);
+      // Pick one of the enabled shared generators by weight
+      const state = this._stateMachine.currentState;
+      const candidates = this._generators
+        .filter(g => g.timing === GeneratorTiming.Shared && g.isEnabled(state, this._context))
+        .map(g => ({ item: g, weight: g.weight }));
+
+      if (candidates.length > 0) {
+        const generator = weightedPick(candidates, this._context.random);
+        this._processEvent(generator.generate(this._context));
+        return true;
       }
     }
+    return false;
   }
 
   /**
@@ -242,6 +680,11 @@ export class SimulationEngine<TState, TEvent extends Event = Event>
     this.stop();
     this._stateMachine.reset();
     this._eventCount = 0;
+    this._agenda.clear();
+    this._clock.reset(this._defaultStartTime());
+    this._eventLog.reset(this._clock.startTime);
+    this._deadLetters.clear();
+    this._attempts.clear();
     
     if (this._options.enableLogging) {
       console.log('Simulation reset');
@@ -249,7 +692,8 @@ export class SimulationEngine<TState, TEvent extends Event = Event>
   }
 
   /**
-   * Schedules the next event to be generated
+   * Puts the next generator tick on the agenda, if any generator that
+   * shares it can still fire
    */
   private _scheduleNextEvent(): void {
     if (this._status !== SimulationStatus.Running) {
@@ -259,42 +703,586 @@ export class SimulationEngine<TState, TEvent extends Event = Event>
     // Check if we've reached the maximum event count
     if (this._options.maxEvents && this._options.maxEvents > 0 && 
         this._eventCount >= this._options.maxEvents) {
-      this.stop();
+      this.stop(StopReason.MaxEvents);
+      return;
+    }
+
+    // Generators with their own timeline never need the tick, nor do ones that ran out
+    if (!this._generators.some(generator => generator.timing === GeneratorTiming.Shared && !generator.exhausted)) {
       return;
     }
 
     const minMs = this._options.minInterval ?? 1500;
     const maxMs = this._options.maxInterval ?? 4500;
-    const nextInterval = rand(minMs, maxMs);
+    const nextInterval = this._interArrival
+      ? Math.max(0, this._interArrival.sample(this._context.random))
+      : rand(minMs, maxMs, this._context.random);
+
+    this._agenda.schedule(this._clock.now + nextInterval, { kind: 'tick' });
+  }
+
+  /**
+   * Puts the next firing of a generator with its own timeline on the agenda
+   */
+  private _scheduleGenerator(generator: RegisteredGenerator<TEvent, TState>, index: number, initial = false): void {
+    if (generator.exhausted) {
+      return;
+    }
+
+    const now = this._clock.now;
+    switch (generator.timing) {
+      case GeneratorTiming.Random:
+        this._agenda.schedule(now + generator.sampleInterval(this._context), { kind: 'generator', index });
+        break;
+      case GeneratorTiming.Scheduled: {
+        // On the first call look from just before the start so that offset 0 fires immediately
+        const after = initial ? now - 1 : now;
+        const time = nextScheduledTime(generator.registration.schedule!, after, this._clock.startTime);
+        this._agenda.schedule(time, { kind: 'generator', index });
+        break;
+      }
+      default:
+        // Shared generators run on the global tick, triggered ones after their events
+        break;
+    }
+  }
+
+  /**
+   * Fires a generator whose agenda entry has come due, then reschedules it
+   */
+  private _fireGenerator(index: number): void {
+    const generator = this._generators[index];
+    if (!generator) {
+      return;
+    }
+
+    // Reschedule before processing, as for the global tick
+    const event = generator.isEnabled(this._stateMachine.currentState, this._context)
+      ? generator.generate(this._context)
+      : null;
+
+    if (generator.timing !== GeneratorTiming.Triggered) {
+      this._scheduleGenerator(generator, index);
+    }
 
+    if (event) {
+      this._processEvent(event);
+    }
+  }
+
+  /**
+   * Queues any triggered generators that react to the processed event.
+   * Returns true if anything was added to the agenda.
+   */
+  private _trigger(event: TEvent): boolean {
+    const eventType = String(event.type);
+    let triggered = false;
+    this._generators.forEach((generator, index) => {
+      if (generator.timing === GeneratorTiming.Triggered && generator.isTriggeredBy(eventType)) {
+        this._agenda.schedule(this._clock.now, { kind: 'generator', index });
+        triggered = true;
+      }
+    });
+    return triggered;
+  }
+
+  /**
+   * Checks whether the agenda holds nothing but the next tick
+   */
+  private _onlyTicksLeft(): boolean {
+    return this._agenda.toArray().every(entry => entry.item.kind === 'tick');
+  }
+
+  /**
+   * In realtime mode, credits the wall time already waited towards the next
+   * agenda entry so that work scheduled mid-wait lands at the right time
+   */
+  private _syncRealtimeClock(): void {
+    if (!this._timer || this._options.mode !== SimulationMode.Realtime) {
+      return;
+    }
+
+    const next = this._agenda.peek();
+    if (next) {
+      const waited = Date.now() - this._timerSetAt;
+      this._clock.advanceTo(Math.max(this._clock.now, Math.min(next.time, this._clock.now + waited)));
+      this._timerSetAt = Date.now();
+    }
+  }
+
+  /**
+   * Re-arms the run timer after the agenda changed outside the run loop
+   */
+  private _rearm(): void {
+    if (this._status === SimulationStatus.Running && !this._inAgenda) {
+      this._scheduleRun();
+    }
+  }
+
+  /**
+   * Arms the timer that works through the agenda. In realtime mode it waits
+   * for the next entry to fall due; in discrete-event mode it only yields to
+   * the event loop so that pause and stop calls can get in between batches.
+   */
+  private _scheduleRun(): void {
+    this._clearTimer();
+
+    const next = this._agenda.peek();
+    // An async handler re-arms the timer once it settles
+    if (this._status !== SimulationStatus.Running || !next || this._inFlight) {
+      return;
+    }
+
+    const discrete = this._options.mode === SimulationMode.DiscreteEvent;
+    const due = discrete ? 0 : Math.max(0, next.time - this._clock.now);
+    let delay = due;
+    if (!discrete) {
+      // Wake up in time to end the run at its horizon or wall-clock budget
+      if (this._options.timeHorizon !== undefined) {
+        delay = Math.min(delay, Math.max(0, this._horizonEnd() - this._clock.now));
+      }
+      if (this._options.maxRuntime !== undefined) {
+        delay = Math.min(delay, Math.max(0, this._options.maxRuntime - this._runtime()));
+      }
+    }
+
+    this._timerSetAt = Date.now();
     this._timer = setTimeout(() => {
-      if (this._status === SimulationStatus.Running) {
-        this.tick();
-        this._scheduleNextEvent();
+      if (delay < due) {
+        // Woke up early for a limit; credit the wait, nothing is due yet
+        this._syncRealtimeClock();
+        this._timer = null;
+        const reason = this._limitReached(next.time);
+        if (reason) {
+          this.stop(reason);
+        }
+      } else {
+        this._timer = null;
+        this._runAgenda(discrete ? this._options.batchSize ?? 1000 : 1);
+      }
+      this._scheduleRun();
+    }, delay);
+  }
+
+  /**
+   * Processes up to `limit` agenda entries, advancing the clock to each one
+   */
+  private _runAgenda(limit: number): void {
+    const discrete = this._options.mode === SimulationMode.DiscreteEvent;
+    let processed = 0;
+    this._inAgenda = true;
+
+    try {
+      while (this._status === SimulationStatus.Running && processed < limit && !this._inFlight) {
+        const next = this._agenda.peek();
+        if (!next) {
+          break;
+        }
+
+        const reason = this._limitReached(next.time);
+        if (reason) {
+          this.stop(reason);
+          break;
+        }
+
+        const entry = this._agenda.next()!;
+
+        this._clock.advanceTo(entry.time);
+        processed++;
+
+        switch (entry.item.kind) {
+          case 'tick':
+            // Follow-up work is scheduled before the event is processed so
+            // that snapshots taken from callbacks include it
+            this._scheduleNextEvent();
+            if (!this.tick() && discrete && this._onlyTicksLeft()) {
+              // Nothing can enable the shared generators again, so the ticks would go on forever
+              this.stop(StopReason.AgendaEmpty);
+            }
+            break;
+          case 'generator':
+            this._fireGenerator(entry.item.index);
+            break;
+          case 'event':
+            this._processEvent(entry.item.event);
+            break;
+        }
       }
-    }, nextInterval);
+    } finally {
+      this._inAgenda = false;
+    }
   }
 
   /**
    * Processes an event through the state machine
    */
-  private _processEvent(event: TEvent): void {
+  private _processEvent(incoming: TEvent): void {
+    let event = incoming;
+    let reached = false;
+    const cause = this._handling;
+    try {
+      const processed = this._middleware.size > 0 ? this._middleware.before(event, this._middlewareContext()) : event;
+      if (!processed) {
+        this._emitter.emit('eventDropped', { event, time: this._clock.now });
+        return;
+      }
+      event = processed;
+      this._handling = event;
+      reached = true;
+
+      // The log holds events as the machine saw them, so replays match
+      if (this._options.recordEvents !== false) {
+        this._eventLog.append(event, this._context);
+      }
+      const started = performance.now();
+      this._eventFailed = false;
+      const handled = this._stateMachine.processEvent(event);
+      if (isPromiseLike(handled)) {
+        // The agenda waits for async handlers, so events are still processed one at a time
+        const pending = event;
+        this._inFlight = Promise.resolve(handled)
+          .then(() => {
+            this._inFlight = null;
+            this._completeEvent(pending, started);
+          })
+          .catch(error => {
+            this._handleError(error, pending);
+            this._afterFailure(pending);
+          })
+          .finally(() => {
+            // A failure must not leave the agenda waiting for this event
+            this._inFlight = null;
+            this._rearm();
+          });
+        return;
+      }
+      this._completeEvent(event, started);
+    } catch (error) {
+      this._handleError(error, event);
+      if (reached) {
+        this._afterFailure(event);
+      }
+    } finally {
+      this._handling = cause;
+    }
+  }
+
+  /**
+   * Runs the `after` middleware for an event the machine failed on. The
+   * event already failed, so a hook that throws here is only logged.
+   */
+  private _afterFailure(event: TEvent): void {
+    if (this._middleware.size === 0) {
+      return;
+    }
+    try {
+      this._middleware.after(event, this._middlewareContext());
+    } catch (hookError) {
+      console.error(`After hooks failed for event ${String(event.type)}:`, hookError);
+    }
+  }
+
+  /**
+   * Finishes an event once the machine is done with it: counts it, runs
+   * middleware and callbacks, and checks the stop conditions
+   */
+  private _completeEvent(event: TEvent, started: number): void {
+    const cause = this._handling;
+    this._handling = event;
     try {
-      this._stateMachine.processEvent(event);
+      const duration = performance.now() - started;
       this._eventCount++;
+      if (!this._eventFailed && this._attempts.size > 0) {
+        this._attempts.delete(event.id);
+      }
+      if (this._middleware.size > 0) {
+        this._middleware.after(event, this._middlewareContext());
+      }
 
       if (this._options.enableLogging) {
         const stats = this.stats;
+        // Parallel machines report one state per region
+        const state = typeof stats.currentState === 'object'
+          ? JSON.stringify(stats.currentState)
+          : String(stats.currentState);
         console.log(`[${new Date().toLocaleTimeString()}] Event: ${String(event.type)}, ` +
-                   `State: ${String(stats.currentState)}, Count: ${stats.eventCount}`);
+                   `State: ${state}, Count: ${stats.eventCount}`);
+      }
+
+      if (this._trigger(event)) {
+        this._rearm();
       }
 
       this._options.onEventProcessed?.(event);
+      this._emitter.emit('eventProcessed', {
+        event,
+        state: this._stateMachine.currentState,
+        time: this._clock.now,
+        duration,
+        queueDepth: this._agenda.size
+      });
+      this._checkpoint();
+
+      const reason = this._checkStopConditions();
+      if (reason) {
+        this.stop(reason);
+      }
     } catch (error) {
-      if (this._options.enableLogging) {
-        console.error('Error processing event:', error);
+      this._handleError(error, event);
+    } finally {
+      this._handling = cause;
+    }
+  }
+
+  /**
+   * Offers an error to the middleware, then applies the error policy
+   * unless one of them dealt with it. Errors nobody listens for are logged.
+   */
+  private _handleError(error: unknown, event?: TEvent): void {
+    this._eventFailed = true;
+    if (event && this._middleware.onError(error, event, this._middlewareContext())) {
+      return;
+    }
+
+    const time = this._clock.now;
+    let action = ErrorAction.Skip;
+    if (event) {
+      const attempts = (this._attempts.get(event.id) ?? 0) + 1;
+      const failure = { event, error, state: this._stateMachine.currentState, time, attempts };
+      action = resolveErrorAction(this._options.errorPolicy ?? ErrorAction.Skip, failure);
+
+      if (action === ErrorAction.Retry) {
+        this._attempts.set(event.id, attempts);
+        this._schedule(event, retryDelay(this._options.errorPolicy!, attempts));
+      } else {
+        this._attempts.delete(event.id);
+      }
+      if (action === ErrorAction.DeadLetter) {
+        this._deadLetters.add(failure);
+      }
+    }
+
+    if (this._options.enableLogging || !this._emitter.hasListeners('error')) {
+      console.error(`Error processing event${event ? ` ${String(event.type)}` : ''} (${action}):`, error);
+    }
+    this._emitter.emit('error', { error, event, time, action });
+
+    if (action === ErrorAction.Halt) {
+      this.stop(StopReason.Error);
+    }
+  }
+
+  /**
+   * Describes the current moment to middleware
+   */
+  private _middlewareContext(): MiddlewareContext<TState> {
+    return {
+      time: this._clock.now,
+      state: this._stateMachine.currentState,
+      context: this._context
+    };
+  }
+
+  /**
+   * Applies options and sets up a fresh context, agenda and generators.
+   * Callers set the clock and bind the state machine afterwards.
+   */
+  private _prepareRun(options: SimulationOptions<TState, TEvent>): void {
+    this._options = { 
+      mode: SimulationMode.Realtime,
+      batchSize: 1000,
+      minInterval: 1500,
+      maxInterval: 4500,
+      enableLogging: false,
+      maxEvents: 0,
+      eventGenerators: [],
+      ...options 
+    };
+
+    this._status = SimulationStatus.Running;
+    this._stopReason = null;
+    this._steadySamples = [];
+    this._eventCount = 0;
+    this._deadLetters.clear();
+    this._attempts.clear();
+    this._inFlight = null;
+    this._startTime = new Date();
+    this._totalPausedDuration = 0;
+    this._pausedTime = null;
+    this._lastCheckpointAt = Date.now();
+    this._agenda.clear();
+    this._context = {
+      random: this._options.random ?? createRandom(this._options.seed),
+      ids: new IdGenerator(),
+      clock: this._clock,
+      scheduler: {
+        schedule: (event, delay) => this.scheduleEvent(event as TEvent, delay)
+      }
+    };
+    this._interArrival = this._options.interArrival ? toDistribution(this._options.interArrival) : null;
+    this._generators = (this._options.eventGenerators ?? []).map((generator, index) =>
+      registerGenerator<TEvent, TState>(generator, index));
+  }
+
+  /**
+   * Rejects a run to the end that could never end: a random or scheduled
+   * generator without `maxOccurrences` keeps its next arrival on the agenda
+   * whatever the state, so the agenda never runs dry. Shared generators are
+   * fine, as the tick stops once none of them is enabled.
+   */
+  private _assertBounded(options: SimulationOptions<TState, TEvent>): void {
+    const bounded = !!options.maxEvents ||
+      options.finalStates !== undefined ||
+      options.timeHorizon !== undefined ||
+      options.stopWhen !== undefined ||
+      options.maxRuntime !== undefined ||
+      options.steadyState !== undefined;
+    if (bounded) {
+      return;
+    }
+
+    const endless = (options.eventGenerators ?? [])
+      .map((generator, index) => registerGenerator<TEvent, TState>(generator, index))
+      .filter(generator =>
+        (generator.timing === GeneratorTiming.Random || generator.timing === GeneratorTiming.Scheduled) &&
+        !generator.registration.maxOccurrences);
+    if (endless.length > 0) {
+      throw new Error(
+        `A run needs a stop condition: ${endless.map(generator => generator.name).join(', ')} never run out; ` +
+        'set maxEvents, timeHorizon or another stop condition, or cap them with maxOccurrences'
+      );
+    }
+  }
+
+  /**
+   * Writes a checkpoint if one is configured and due
+   */
+  private _checkpoint(force = false): void {
+    const checkpoint = this._options.checkpoint;
+    if (!checkpoint || !this._stateMachine.snapshot) {
+      return;
+    }
+
+    const dueByCount = !!checkpoint.everyEvents && this._eventCount % checkpoint.everyEvents === 0;
+    const dueByTime = checkpoint.intervalMs !== undefined &&
+      Date.now() - this._lastCheckpointAt >= checkpoint.intervalMs;
+    if (!force && !dueByCount && !dueByTime) {
+      return;
+    }
+
+    try {
+      saveSnapshot(checkpoint.path, this.snapshot());
+      this._lastCheckpointAt = Date.now();
+    } catch (error) {
+      // A failed checkpoint should not end the run, but must not go unnoticed
+      console.error(`Failed to write checkpoint to ${checkpoint.path}:`, error);
+      this._emitter.emit('error', { error, time: this._clock.now, action: ErrorAction.Skip });
+    }
+  }
+
+  /**
+   * Returns the first condition that says the run should end, if any
+   */
+  private _checkStopConditions(): StopReason | null {
+    const options = this._options;
+
+    if (options.maxEvents && options.maxEvents > 0 && this._eventCount >= options.maxEvents) {
+      return StopReason.MaxEvents;
+    }
+    if (options.finalStates && this._isInAnyOf(options.finalStates)) {
+      return StopReason.FinalState;
+    }
+    if (options.stopWhen?.(this._stateMachine, this.stats)) {
+      return StopReason.Predicate;
+    }
+    if (options.steadyState) {
+      const { measure, window, tolerance } = options.steadyState;
+      this._steadySamples.push(measure(this._stateMachine));
+      if (this._steadySamples.length > window) {
+        this._steadySamples.shift();
       }
+      if (this._steadySamples.length === window &&
+          Math.max(...this._steadySamples) - Math.min(...this._steadySamples) <= tolerance) {
+        return StopReason.SteadyState;
+      }
+    }
+    if (options.maxRuntime !== undefined && this._runtime() >= options.maxRuntime) {
+      return StopReason.WallClock;
+    }
+    return null;
+  }
+
+  /**
+   * Checks whether the machine is in one of the given states; inside a
+   * compound state, any state on the active path counts. A parallel machine
+   * is in a state once any region is, and "region.State" names the state of
+   * one region only.
+   */
+  private _isInAnyOf(states: unknown[]): boolean {
+    const machine = this._stateMachine;
+    if (machine instanceof ParallelStateMachine) {
+      return states.some(state => {
+        const name = String(state);
+        const dot = name.indexOf('.');
+        if (dot > 0 && machine.regionNames.includes(name.slice(0, dot))) {
+          return machine.isIn(name.slice(0, dot), name.slice(dot + 1));
+        }
+        return machine.regionNames.some(region => machine.isIn(region, name));
+      });
+    }
+    if (states.includes(machine.currentState)) {
+      return true;
+    }
+    return machine instanceof BaseStateMachine && machine.activePath.some(state => states.includes(state));
+  }
+
+  /**
+   * Checks the time horizon and wall-clock budget before work due at
+   * `nextTime`. Work past the horizon stays on the agenda, so a snapshot
+   * can extend the run.
+   */
+  private _limitReached(nextTime: number): StopReason | null {
+    if (this._options.timeHorizon !== undefined && nextTime > this._horizonEnd()) {
+      this._clock.advanceTo(Math.max(this._clock.now, this._horizonEnd()));
+      return StopReason.TimeHorizon;
+    }
+    if (this._options.maxRuntime !== undefined && this._runtime() >= this._options.maxRuntime) {
+      return StopReason.WallClock;
+    }
+    return null;
+  }
+
+  /**
+   * Returns the simulated time at which the horizon is reached
+   */
+  private _horizonEnd(): number {
+    return this._clock.startTime + (this._options.timeHorizon ?? Infinity);
+  }
+
+  /**
+   * Returns the wall-clock milliseconds the run has taken, not counting pauses
+   */
+  private _runtime(): number {
+    if (!this._startTime) {
+      return 0;
+    }
+
+    const now = Date.now();
+    let runtime = now - this._startTime.getTime() - this._totalPausedDuration;
+    if (this._status === SimulationStatus.Paused && this._pausedTime) {
+      runtime -= now - this._pausedTime.getTime();
+    }
+    return Math.max(0, runtime);
+  }
+
+  /**
+   * Resolves the simulated start time for a run
+   */
+  private _defaultStartTime(): number {
+    if (this._options.startTime !== undefined) {
+      return this._options.startTime;
     }
+    return this._options.seed !== undefined ? DEFAULT_SEEDED_START_TIME : Date.now();
   }
 
   /**
@@ -349,7 +1337,7 @@ export class SimulationEngineFactory {
  */
 export function startRealtimeFeed<TState, TEvent extends Event = Event>(
   stateMachine: StateMachine<TState, TEvent>,
-  options: SimulationOptions = {}
+  options: SimulationOptions<TState, TEvent> = {}
 ): () => void {
   const engine = new SimulationEngine(stateMachine);
   engine.start(options);
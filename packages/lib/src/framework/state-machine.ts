@@ -2,8 +2,17 @@
  * State machine implementation for the simulation framework
  */
 
-import { Event, EventQueue } from './events.js';
-import { nowISO } from './utils.js';
+import { EventQueue, causedBy } from './events.js';
+import type { Event, EmitOptions, EnqueueOptions, QueuedEvent } from './events.js';
+import { createSimulationContext } from './context.js';
+import type { ScheduledEventHandle, SimulationContext } from './context.js';
+import { applyChanges, diffValues } from './diff.js';
+import type { ValueChange } from './diff.js';
+import { TypedEmitter } from './emitter.js';
+import type { Listener, MachineEvents } from './emitter.js';
+import { validatePayload } from './schemas.js';
+import { isPromiseLike } from './utils.js';
+import type { PayloadSchemas } from './schemas.js';
 
 /**
  * Interface for state machine implementations
@@ -11,58 +20,274 @@ import { nowISO } from './utils.js';
 export interface StateMachine<TState, TEvent extends Event = Event> {
   currentState: TState;
   allowedTransitions: Record<string, string[]>;
-  transition(newState: TState): boolean;
-  canTransition(newState: TState): boolean;
-  processEvent(event: TEvent): void;
+  transition(newState: TState, event?: TEvent): boolean;
+  canTransition(newState: TState, event?: TEvent): boolean;
+  /** Returns a promise while an asynchronous handler is still running */
+  processEvent(event: TEvent): void | Promise<void>;
+  /** Returns to the initial state */
+  reset(): void;
+  /** Throws if the event's payload does not match the schema of its type */
+  validateEvent?(event: TEvent): void;
+  /** Supplies the run's random source, ID sequence and clock */
+  bindContext?(context: SimulationContext): void;
+  /** Captures everything needed to resume the machine later */
+  snapshot?(): MachineSnapshot<TState, TEvent>;
+  /** Resumes from a snapshot taken by `snapshot()` */
+  restore?(snapshot: MachineSnapshot<TState, TEvent>): void;
+  /** Subscribes to transitions, rejected transitions and handler errors */
+  on?<K extends keyof MachineEvents<TState, TEvent>>(
+    type: K,
+    listener: Listener<MachineEvents<TState, TEvent>[K]>
+  ): () => void;
+}
+
+/**
+ * An entry in a machine's state history
+ */
+export interface StateHistoryEntry<TState, TEvent extends Event = Event> {
+  state: TState;
+  timestamp: string;
+  /** Event being processed when the state was entered */
+  event?: TEvent;
+}
+
+/**
+ * A transition that was attempted and rejected
+ */
+export interface RejectedTransition<TState> {
+  from: TState;
+  to: TState;
+  blockedBy?: string;
+  reason?: string;
+}
+
+/**
+ * Everything that happened while the machine processed one event
+ */
+export interface HistoryStep<TState, TEvent extends Event = Event> {
+  /** Position in the timeline, starting at 1 */
+  seq: number;
+  event: TEvent;
+  timestamp: string;
+  stateBefore: TState;
+  stateAfter: TState;
+  /** Changes the event made to the extended state */
+  changes: ValueChange[];
+  /** Transitions rejected while the event was processed */
+  rejected: Array<RejectedTransition<TState>>;
+  /** Length of the state history after the step */
+  historyLength: number;
+}
+
+/**
+ * A state timeout that has been scheduled but has not fired yet
+ */
+export interface PendingTimeout<TEvent extends Event = Event> {
+  state: string;
+  /** Simulated time the timeout fires at */
+  time: number;
+  event: TEvent;
+}
+
+/**
+ * Serializable copy of a state machine's runtime state
+ */
+export interface MachineSnapshot<TState = any, TEvent extends Event = Event, TExtended = any> {
+  currentState: TState;
+  extendedState: TExtended;
+  /** State history; empty for parallel machines, whose regions keep their own */
+  history: Array<StateHistoryEntry<TState, TEvent>>;
+  /** Events queued but not yet processed, with their priority and delivery time */
+  pendingEvents: Array<QueuedEvent<TEvent>>;
+  /** Timeouts of active states, re-armed on restore */
+  timeouts: Array<PendingTimeout<TEvent>>;
+  /** Snapshots of the regions of a parallel machine */
+  regions?: Record<string, MachineSnapshot<string, TEvent, TExtended>>;
+}
+
+/**
+ * What state entry and exit hooks see
+ */
+export interface StateHookArgs<TExtended = any> {
+  state: string;
+  /** Event that caused the transition, if any */
+  event?: Event;
+  extendedState: TExtended;
+  context: SimulationContext;
+}
+
+/**
+ * Internal event raised when a state has been active for a while
+ */
+export interface StateTimeout {
+  /** Simulated milliseconds after entering the state */
+  delay: number;
+  /** Type of the event raised */
+  event: string;
+  /** Extra payload; `state` and `delay` are always included */
+  payload?: Record<string, any>;
+}
+
+/**
+ * Per-state configuration. A state that is the parent of other states is a
+ * compound state: its transitions are inherited by all of its descendants,
+ * and entering it enters its initial child.
+ */
+export interface StateNodeConfig<TExtended = any> {
+  /** Parent (compound) state */
+  parent?: string;
+  /** Child entered when this compound state is the transition target */
+  initial?: string;
+  /** Runs each time the state is entered */
+  onEntry?: (args: StateHookArgs<TExtended>) => void;
+  /** Runs each time the state is left */
+  onExit?: (args: StateHookArgs<TExtended>) => void;
+  /** Events raised if the state is still active after the given delays */
+  after?: StateTimeout[];
+}
+
+/**
+ * What guards and actions see while a transition is evaluated
+ */
+export interface TransitionArgs<TState, TEvent extends Event = Event, TExtended = any> {
+  from: TState;
+  to: TState;
+  /** Event that triggered the transition, if any */
+  event?: TEvent;
+  /** The machine's extended state */
+  extendedState: TExtended;
+  context: SimulationContext;
+}
+
+/**
+ * Named predicate that must hold for a transition to be taken
+ */
+export interface TransitionGuard<TState, TEvent extends Event = Event, TExtended = any> {
+  /** Reported when the guard blocks a transition */
+  name: string;
+  check: (args: TransitionArgs<TState, TEvent, TExtended>) => boolean;
+}
+
+/**
+ * Runs while a transition is taken. A returned object is merged into the
+ * extended state.
+ */
+export type TransitionAction<TState, TEvent extends Event = Event, TExtended = any> =
+  (args: TransitionArgs<TState, TEvent, TExtended>) => Partial<TExtended> | void;
+
+/**
+ * An edge in the transition table
+ */
+export interface TransitionRule<TState, TEvent extends Event = Event, TExtended = any> {
+  /** Source state(s); a compound state covers all of its descendants */
+  from: string | string[];
+  to: string;
+  /** Event type that takes this transition automatically once handled */
+  on?: string;
+  /** All guards must pass, in order; the first failure is reported */
+  guards?: Array<TransitionGuard<TState, TEvent, TExtended>>;
+  /** Run in order after the guards pass and before the state changes */
+  actions?: Array<TransitionAction<TState, TEvent, TExtended>>;
+  /** Chance an event-triggered rule fires once its guards pass (default 1) */
+  probability?: number;
+}
+
+/**
+ * Outcome of checking a transition
+ */
+export interface TransitionCheck<TState, TEvent extends Event = Event, TExtended = any> {
+  allowed: boolean;
+  from: TState;
+  to: TState;
+  /** Rule that allows the transition, if it came from the transition table */
+  rule?: TransitionRule<TState, TEvent, TExtended>;
+  /** Name of the guard that blocked the transition */
+  blockedBy?: string;
+  /** Human-readable explanation of a rejection */
+  reason?: string;
 }
 
 /**
  * Configuration for creating a state machine
  */
-export interface StateMachineConfig<TState> {
+export interface StateMachineConfig<TState, TEvent extends Event = Event, TExtended = any> {
   initialState: TState;
   allowedTransitions: Record<string, string[]>;
+  /** State hierarchy; states not listed are top-level leaves */
+  states?: Record<string, StateNodeConfig<TExtended>>;
+  /** Guarded edges, checked before `allowedTransitions` */
+  transitions?: Array<TransitionRule<TState, TEvent, TExtended>>;
+  /** Data the machine carries alongside its state, visible to guards and actions */
+  extendedState?: TExtended;
+  /** Record a step per processed event for time-travel debugging (default: false) */
+  recordSteps?: boolean;
+  /** Payload schema of each event type; events are checked when queued and processed */
+  payloadSchemas?: PayloadSchemas;
   onStateChange?: (from: TState, to: TState) => void;
-  onInvalidTransition?: (from: TState, to: TState) => void;
+  onInvalidTransition?: (from: TState, to: TState, reason?: string) => void;
   enableLogging?: boolean;
 }
 
 /**
  * Base state machine implementation
  */
-export abstract class BaseStateMachine<TState, TEvent extends Event = Event> 
+export abstract class BaseStateMachine<TState, TEvent extends Event = Event, TExtended = any> 
   implements StateMachine<TState, TEvent> {
   
   protected _currentState: TState;
   protected _allowedTransitions: Record<string, string[]>;
+  protected _states: Record<string, StateNodeConfig<TExtended>>;
+  protected _timeouts = new Map<string, Array<{ event: TEvent; handle: ScheduledEventHandle }>>();
+  protected _transitions: Array<TransitionRule<TState, TEvent, TExtended>>;
+  protected _extendedState: TExtended;
+  protected _lastRejection: TransitionCheck<TState, TEvent, TExtended> | null = null;
   protected _onStateChange?: (from: TState, to: TState) => void;
-  protected _onInvalidTransition?: (from: TState, to: TState) => void;
+  protected _onInvalidTransition?: (from: TState, to: TState, reason?: string) => void;
   protected _enableLogging: boolean;
   protected _eventQueue: EventQueue<TEvent>;
-  protected _stateHistory: Array<{ state: TState; timestamp: string }> = [];
+  protected _stateHistory: Array<StateHistoryEntry<TState, TEvent>> = [];
+  protected _context: SimulationContext = createSimulationContext();
+  protected _recordSteps: boolean;
+  protected _payloadSchemas: PayloadSchemas;
+  protected _steps: Array<HistoryStep<TState, TEvent>> = [];
+  /** History length when step recording (re)started */
+  protected _stepsHistoryStart = 1;
+  protected _currentEvent: TEvent | undefined;
+  /** Innermost event being processed, the cause of anything emitted meanwhile */
+  protected _handling: TEvent | undefined;
+  protected _stepRejections: Array<RejectedTransition<TState>> | null = null;
+  protected _emitter = new TypedEmitter<MachineEvents<TState, TEvent>>();
 
-  constructor(config: StateMachineConfig<TState>) {
-    this._currentState = config.initialState;
+  constructor(config: StateMachineConfig<TState, TEvent, TExtended>) {
     this._allowedTransitions = config.allowedTransitions;
+    this._states = config.states ?? {};
+    this._transitions = config.transitions ?? [];
+    this._extendedState = config.extendedState ?? ({} as TExtended);
+    this.validateHierarchy();
+    this._currentState = this.resolveTarget(config.initialState);
     this._onStateChange = config.onStateChange;
     this._onInvalidTransition = config.onInvalidTransition;
     this._enableLogging = config.enableLogging ?? false;
-    this._eventQueue = new EventQueue<TEvent>();
+    this._recordSteps = config.recordSteps ?? false;
+    this._payloadSchemas = config.payloadSchemas ?? {};
+    this._eventQueue = new EventQueue<TEvent>(() => this._context.clock.now, this._payloadSchemas);
     
     // Record initial state
     this._stateHistory.push({
       state: this._currentState,
-      timestamp: nowISO()
+      timestamp: this._context.clock.nowISO()
     });
 
     this.setupEventHandlers();
   }
 
   /**
-   * Gets the current state
+   * Gets the current state. Inside a compound state this is the full active
+   * path, e.g. "Casework.Drafting"; `activePath` lists the same states one
+   * by one
    */
   get currentState(): TState {
-    return this._currentState;
+    return (this.ancestorsOf(String(this._currentState)).length > 0 ? this.stateValue : this._currentState) as TState;
   }
 
   /**
@@ -72,64 +297,231 @@ export abstract class BaseStateMachine<TState, TEvent extends Event = Event>
     return { ...this._allowedTransitions };
   }
 
+  /**
+   * Gets the transition table
+   */
+  get transitions(): Array<TransitionRule<TState, TEvent, TExtended>> {
+    return [...this._transitions];
+  }
+
+  /**
+   * Gets the extended state
+   */
+  get extendedState(): TExtended {
+    return this._extendedState;
+  }
+
+  /**
+   * Subscribes to a machine event and returns a function that unsubscribes
+   */
+  on<K extends keyof MachineEvents<TState, TEvent>>(
+    type: K,
+    listener: Listener<MachineEvents<TState, TEvent>[K]>
+  ): () => void {
+    return this._emitter.on(type, listener);
+  }
+
+  /**
+   * Subscribes to the next occurrence of a machine event only
+   */
+  once<K extends keyof MachineEvents<TState, TEvent>>(
+    type: K,
+    listener: Listener<MachineEvents<TState, TEvent>[K]>
+  ): () => void {
+    return this._emitter.once(type, listener);
+  }
+
+  /**
+   * Removes a listener added with `on`
+   */
+  off<K extends keyof MachineEvents<TState, TEvent>>(
+    type: K,
+    listener: Listener<MachineEvents<TState, TEvent>[K]>
+  ): void {
+    this._emitter.off(type, listener);
+  }
+
+  /**
+   * Gets the explanation of the most recently rejected transition
+   */
+  get lastRejection(): TransitionCheck<TState, TEvent, TExtended> | null {
+    return this._lastRejection;
+  }
+
+  /**
+   * Gets the active states from the outermost ancestor down to the current state
+   */
+  get activePath(): string[] {
+    return [...this.ancestorsOf(String(this._currentState))].reverse()
+      .concat(String(this._currentState));
+  }
+
+  /**
+   * Gets the active path as a dotted string, e.g. "Casework.Drafting"
+   */
+  get stateValue(): string {
+    return this.activePath.join('.');
+  }
+
+  /**
+   * Gets the state hierarchy configuration
+   */
+  get states(): Record<string, StateNodeConfig<TExtended>> {
+    return { ...this._states };
+  }
+
+  /**
+   * Checks whether the machine is in the given state or one of its descendants
+   */
+  isIn(state: string): boolean {
+    return this.activePath.includes(state);
+  }
+
   /**
    * Gets the state history
    */
-  get stateHistory(): Array<{ state: TState; timestamp: string }> {
+  get stateHistory(): Array<StateHistoryEntry<TState, TEvent>> {
     return [...this._stateHistory];
   }
 
+  /**
+   * Gets the recorded steps, one per processed event (requires `recordSteps`)
+   */
+  get steps(): Array<HistoryStep<TState, TEvent>> {
+    return [...this._steps];
+  }
+
+  /**
+   * Gets the context the machine draws random values, IDs and time from
+   */
+  get context(): SimulationContext {
+    return this._context;
+  }
+
   /**
    * Gets the previous state (if any)
    */
   get previousState(): TState | undefined {
-    return this._stateHistory.length > 1 
-      ? this._stateHistory[this._stateHistory.length - 2].state 
-      : undefined;
+    return this._stateHistory.at(-2)?.state;
   }
 
   /**
    * Checks if a transition from current state to new state is allowed
    */
-  canTransition(newState: TState): boolean {
-    const currentStateKey = String(this._currentState);
-    const newStateKey = String(newState);
-    const allowed = this._allowedTransitions[currentStateKey] || [];
-    return allowed.includes(newStateKey);
+  canTransition(newState: TState, event?: TEvent): boolean {
+    return this.explainTransition(newState, event).allowed;
   }
 
   /**
-   * Attempts to transition to a new state
+   * Checks a transition and explains why it would be rejected. Rules in the
+   * transition table that match the edge take precedence: the first whose
+   * guards all pass allows it, otherwise the first failing guard is reported.
+   * Edges without a matching rule fall back to `allowedTransitions`.
    */
-  transition(newState: TState): boolean {
+  explainTransition(newState: TState, event?: TEvent): TransitionCheck<TState, TEvent, TExtended> {
     const from = this._currentState;
-    
-    if (!this.canTransition(newState)) {
-      if (this._enableLogging) {
-        console.warn(`Invalid transition from ${String(from)} to ${String(newState)}`);
+    const newStateKey = String(newState);
+    const rules = this.matchingRules(event).filter(rule => rule.to === newStateKey);
+
+    let blocked: TransitionCheck<TState, TEvent, TExtended> | undefined;
+    for (const rule of rules) {
+      const failed = this.failingGuard(rule, newState, event);
+      if (!failed) {
+        return { allowed: true, from, to: newState, rule };
       }
-      this._onInvalidTransition?.(from, newState);
+      blocked ??= {
+        allowed: false,
+        from,
+        to: newState,
+        rule,
+        blockedBy: failed.name,
+        reason: `Guard "${failed.name}" blocked ${String(from)} -> ${newStateKey}`
+      };
+    }
+    if (blocked) {
+      return blocked;
+    }
+
+    // Transitions declared on an ancestor apply to every state inside it
+    const adjacent = this.activePath.some(state =>
+      (this._allowedTransitions[state] || []).includes(newStateKey));
+    return adjacent
+      ? { allowed: true, from, to: newState }
+      : { allowed: false, from, to: newState, reason: `No transition from ${this.stateValue} to ${newStateKey}` };
+  }
+
+  /**
+   * Attempts to transition to a new state. The event, if given, is passed
+   * to the guards and actions of the transition table.
+   */
+  transition(newState: TState, event?: TEvent): boolean {
+    const check = this.explainTransition(newState, event);
+    
+    if (!check.allowed) {
+      this.rejectTransition(check, event);
       return false;
     }
 
-    // Perform the transition
-    this._currentState = newState;
+    this.takeTransition(check, event);
+    return true;
+  }
+
+  /**
+   * Performs an allowed transition
+   */
+  protected takeTransition(check: TransitionCheck<TState, TEvent, TExtended>, event?: TEvent): void {
+    const from = this._currentState;
+
+    // Exit hooks, then actions in declaration order, then entry hooks
+    const target = this.resolveTarget(check.to);
+    const { exited, entered } = this.changedStates(target);
+    this.exitStates(exited, event);
+    if (check.rule) {
+      this.runActions(check.rule, check.to, event);
+    }
+
+    this._currentState = target;
     this._stateHistory.push({
-      state: newState,
-      timestamp: nowISO()
+      state: target,
+      timestamp: this._context.clock.nowISO(),
+      event: event ?? this._currentEvent
     });
+    this.enterStates(entered, event);
 
     if (this._enableLogging) {
-      console.log(`State transition: ${String(from)} -> ${String(newState)}`);
+      console.log(`State transition: ${String(from)} -> ${this.stateValue}`);
     }
 
     // Call the state change callback
-    this._onStateChange?.(from, newState);
+    this._onStateChange?.(from, target);
+    this._emitter.emit('transition', { from, to: target, event: event ?? this._currentEvent });
 
     // Process any pending events after state change
     this.processPendingEvents();
+  }
 
-    return true;
+  /**
+   * Records and reports a rejected transition
+   */
+  protected rejectTransition(check: TransitionCheck<TState, TEvent, TExtended>, event?: TEvent): void {
+    this._lastRejection = check;
+    this._stepRejections?.push({
+      from: check.from,
+      to: check.to,
+      blockedBy: check.blockedBy,
+      reason: check.reason
+    });
+    if (this._enableLogging) {
+      console.warn(`Invalid transition from ${String(check.from)} to ${String(check.to)}: ${check.reason}`);
+    }
+    this._onInvalidTransition?.(check.from, check.to, check.reason);
+    this._emitter.emit('invalidTransition', {
+      from: check.from,
+      to: check.to,
+      event: event ?? this._currentEvent,
+      blockedBy: check.blockedBy,
+      reason: check.reason
+    });
   }
 
   /**
@@ -137,42 +529,176 @@ export abstract class BaseStateMachine<TState, TEvent extends Event = Event>
    */
   forceTransition(newState: TState): void {
     const from = this._currentState;
-    this._currentState = newState;
+    const target = this.resolveTarget(newState);
+    const { exited, entered } = this.changedStates(target);
+    this.exitStates(exited);
+    this._currentState = target;
     this._stateHistory.push({
-      state: newState,
-      timestamp: nowISO()
+      state: target,
+      timestamp: this._context.clock.nowISO(),
+      event: this._currentEvent
     });
+    this.enterStates(entered);
 
     if (this._enableLogging) {
-      console.log(`Forced transition: ${String(from)} -> ${String(newState)}`);
+      console.log(`Forced transition: ${String(from)} -> ${this.stateValue}`);
     }
 
-    this._onStateChange?.(from, newState);
+    this._onStateChange?.(from, target);
+    this._emitter.emit('transition', { from, to: target, event: this._currentEvent });
     this.processPendingEvents();
   }
 
   /**
-   * Adds an event to the processing queue
+   * Binds the machine to a run context. If nothing has happened yet, the
+   * initial history entry is re-stamped with the context's clock. Timeouts
+   * of the active states are restarted on the new context's timeline, so
+   * this is also where the initial state's timeouts begin.
+   */
+  bindContext(context: SimulationContext): void {
+    this._context = context;
+    if (this._stateHistory.length === 1) {
+      this._stateHistory[0]!.timestamp = context.clock.nowISO();
+    }
+    for (const state of this._timeouts.keys()) {
+      this.cancelTimeouts(state);
+    }
+    this.activePath.forEach(state => this.armTimeouts(state));
+  }
+
+  /**
+   * Throws a `PayloadValidationError` if the event's payload does not match
+   * the schema registered for its type
+   */
+  validateEvent(event: TEvent): void {
+    validatePayload(this._payloadSchemas, event);
+  }
+
+  /**
+   * Adds an event to the processing queue. Higher priorities are processed
+   * first; an event with a `deliverAt` in the future is held back until the
+   * context's clock reaches it and then goes out with the next pending batch.
+   * Events queued while another event is processed are marked as caused by it.
+   */
+  queueEvent(event: TEvent, options?: EnqueueOptions): void {
+    this._eventQueue.enqueue(causedBy(event, this._handling), options);
+  }
+
+  /**
+   * Emits a follow-up event from a handler. It is marked as caused by the
+   * event being processed and put on the context's timeline, so an engine
+   * processes and logs it like any other event, at the current simulated
+   * time or after `delay`. Async handlers can emit after an `await` too.
    */
-  queueEvent(event: TEvent): void {
-    this._eventQueue.enqueue(event);
+  protected emit<TType extends TEvent['type']>(
+    type: TType,
+    payload?: Extract<TEvent, { type: TType }>['payload'],
+    options: EmitOptions = {}
+  ): TEvent {
+    const delay = Math.max(0, options.delay ?? 0);
+    const event = causedBy({
+      id: this._context.ids.next('evt'),
+      type,
+      timestamp: new Date(this._context.clock.now + delay).toISOString(),
+      payload,
+      ...(options.priority !== undefined && { priority: options.priority }),
+      ...(options.flow !== undefined && { flow: options.flow })
+    } as unknown as TEvent, this._handling);
+    if (this._context.scheduler) {
+      this._context.scheduler.schedule(event, delay);
+    } else {
+      this.scheduleWithTimer(event, delay);
+    }
+    return event;
   }
 
   /**
-   * Processes an event immediately
+   * Processes an event immediately. If the handler is asynchronous, the
+   * event's transitions are taken once it settles and the returned promise
+   * resolves after that; errors are reported either way, never thrown.
    */
-  processEvent(event: TEvent): void {
+  processEvent(event: TEvent): void | Promise<void> {
+    // Events processed from inside another event belong to the outer step
+    const outermost = this._currentEvent === undefined;
+    const before = outermost && this._recordSteps
+      ? { state: this._currentState, extendedState: structuredClone(this._extendedState) }
+      : null;
+    if (outermost) {
+      this._currentEvent = event;
+      this._stepRejections = before ? [] : null;
+    }
+    const cause = this._handling;
+    this._handling = event;
+    const finish = () => this.finishEvent(event, outermost, cause, before);
+
+    let handled: void | Promise<void> = undefined;
     try {
-      this.handleEvent(event);
-    } catch (error) {
-      if (this._enableLogging) {
-        console.error(`Error processing event ${String(event.type)}:`, error);
+      this.validateEvent(event);
+      handled = this.handleEvent(event);
+      if (!isPromiseLike(handled)) {
+        this.applyEventTransitions(event);
       }
+    } catch (error) {
+      handled = undefined;
+      this.reportEventError(error, event);
+    }
+
+    if (isPromiseLike(handled)) {
+      return this.settleEvent(handled, event, finish);
+    }
+    finish();
+  }
+
+  /**
+   * Reconstructs the extended state as it was after the given number of
+   * recorded steps (0 = before the first). Assumes the extended state only
+   * changes while events are processed.
+   */
+  extendedStateAt(position: number): TExtended {
+    this.checkStepPosition(position);
+    let value = structuredClone(this._extendedState);
+    for (let i = this._steps.length - 1; i >= position; i--) {
+      value = applyChanges(value, this._steps[i]!.changes, 'backward');
+    }
+    return value;
+  }
+
+  /**
+   * Returns the state the machine was in after the given number of steps
+   */
+  stateAt(position: number): TState {
+    this.checkStepPosition(position);
+    if (position === 0) {
+      return this._steps[0]?.stateBefore ?? this._currentState;
     }
+    return this._steps[position - 1]!.stateAfter;
   }
 
   /**
-   * Processes all pending events in the queue
+   * Rebuilds the machine as it was after the given number of steps and
+   * discards the later ones. Pending timeouts and queued events are dropped.
+   */
+  rewindTo(position: number): void {
+    const extendedState = this.extendedStateAt(position);
+    const historyStart = this._stepsHistoryStart;
+    const historyLength = position === 0
+      ? historyStart
+      : this._steps[position - 1]!.historyLength;
+    const steps = this._steps.slice(0, position);
+
+    this.restore({
+      currentState: this.stateAt(position),
+      extendedState,
+      history: this._stateHistory.slice(0, historyLength),
+      pendingEvents: [],
+      timeouts: []
+    });
+    this._steps = steps;
+    this._stepsHistoryStart = historyStart;
+  }
+
+  /**
+   * Processes all pending events in the queue that are due
    */
   processPendingEvents(): void {
     this._eventQueue.processAll();
@@ -183,11 +709,59 @@ export abstract class BaseStateMachine<TState, TEvent extends Event = Event>
    */
   reset(): void {
     const initialState = this._stateHistory[0]?.state;
-    if (initialState) {
+    if (initialState !== undefined) {
       this.forceTransition(initialState);
       // Keep only the initial state in history
       this._stateHistory = this._stateHistory.slice(0, 1);
+      this._steps = [];
+      this._stepsHistoryStart = 1;
+    }
+  }
+
+  /**
+   * Captures the current state, extended state, history, queued events and
+   * pending timeouts. The extended state must be structured-cloneable.
+   */
+  snapshot(): MachineSnapshot<TState, TEvent, TExtended> {
+    const timeouts: Array<PendingTimeout<TEvent>> = [];
+    this._timeouts.forEach((pending, state) => {
+      pending.forEach(({ event, handle }) => timeouts.push({ state, time: handle.time, event }));
+    });
+
+    return structuredClone({
+      currentState: this._currentState,
+      extendedState: this._extendedState,
+      history: this._stateHistory,
+      pendingEvents: this._eventQueue.entries(),
+      timeouts
+    });
+  }
+
+  /**
+   * Resumes from a snapshot. Entry hooks do not run again; pending timeouts
+   * are re-armed to fire at their original times on the current context.
+   */
+  restore(snapshot: MachineSnapshot<TState, TEvent, TExtended>): void {
+    const copy = structuredClone(snapshot);
+
+    for (const state of [...this._timeouts.keys()]) {
+      this.cancelTimeouts(state);
+    }
+
+    this._currentState = copy.currentState;
+    this._stateHistory = copy.history;
+    this._lastRejection = null;
+    this.replaceExtendedState(copy.extendedState);
+    this._eventQueue.clear();
+    copy.pendingEvents.forEach(({ event, priority, deliverAt }) => this._eventQueue.enqueue(event, { priority, deliverAt }));
+
+    for (const timeout of copy.timeouts) {
+      this.scheduleTimeout(timeout.state, timeout.event, Math.max(0, timeout.time - this._context.clock.now));
     }
+
+    // Recorded steps cannot be trusted across a restore
+    this._steps = [];
+    this._stepsHistoryStart = this._stateHistory.length;
   }
 
   /**
@@ -195,12 +769,14 @@ export abstract class BaseStateMachine<TState, TEvent extends Event = Event>
    */
   getSummary(): {
     currentState: TState;
+    statePath: string[];
     previousState: TState | undefined;
     stateCount: number;
     queueSize: number;
   } {
     return {
-      currentState: this._currentState,
+      currentState: this.currentState,
+      statePath: this.activePath,
       previousState: this.previousState,
       stateCount: this._stateHistory.length,
       queueSize: this._eventQueue.size
@@ -208,9 +784,64 @@ export abstract class BaseStateMachine<TState, TEvent extends Event = Event>
   }
 
   /**
-   * Abstract method that subclasses must implement to handle events
+   * Abstract method that subclasses must implement to handle events. An
+   * async handler holds up an engine's run until it settles.
+   */
+  protected abstract handleEvent(event: TEvent): void | Promise<void>;
+
+  /**
+   * Waits for an asynchronous handler, then takes the event's transitions
+   */
+  private async settleEvent(handled: PromiseLike<unknown>, event: TEvent, finish: () => void): Promise<void> {
+    try {
+      await handled;
+      this.applyEventTransitions(event);
+    } catch (error) {
+      this.reportEventError(error, event);
+    } finally {
+      finish();
+    }
+  }
+
+  /**
+   * Restores the processing context and records the step of an outermost event
+   */
+  private finishEvent(
+    event: TEvent,
+    outermost: boolean,
+    cause: TEvent | undefined,
+    before: { state: TState; extendedState: TExtended } | null
+  ): void {
+    this._handling = cause;
+    if (outermost) {
+      this._currentEvent = undefined;
+    }
+
+    if (before) {
+      this._steps.push({
+        seq: this._steps.length + 1,
+        event: structuredClone(event),
+        timestamp: this._context.clock.nowISO(),
+        stateBefore: before.state,
+        stateAfter: this._currentState,
+        changes: diffValues(before.extendedState, this._extendedState),
+        rejected: this._stepRejections ?? [],
+        historyLength: this._stateHistory.length
+      });
+      this._stepRejections = null;
+    }
+  }
+
+  /**
+   * Reports a handler error to listeners
    */
-  protected abstract handleEvent(event: TEvent): void;
+  private reportEventError(error: unknown, event: TEvent): void {
+    // Errors nobody listens for would otherwise go unnoticed
+    if (this._enableLogging || !this._emitter.hasListeners('error')) {
+      console.error(`Error processing event ${String(event.type)}:`, error);
+    }
+    this._emitter.emit('error', { error, event });
+  }
 
   /**
    * Sets up event handlers (can be overridden by subclasses)
@@ -220,6 +851,292 @@ export abstract class BaseStateMachine<TState, TEvent extends Event = Event>
     this._eventQueue.onAny((event) => this.processEvent(event));
   }
 
+  /**
+   * Takes the first transition-table rule triggered by the event whose
+   * guards pass and whose probability draw succeeds
+   */
+  protected applyEventTransitions(event: TEvent): boolean {
+    const rules = this.matchingRules(event).filter(rule => rule.on === String(event.type));
+    if (rules.length === 0) {
+      return false;
+    }
+
+    let blocked: TransitionCheck<TState, TEvent, TExtended> | undefined;
+    for (const rule of rules) {
+      const to = rule.to as TState;
+      const failed = this.failingGuard(rule, to, event);
+      if (failed) {
+        blocked ??= {
+          allowed: false,
+          from: this._currentState,
+          to,
+          rule,
+          blockedBy: failed.name,
+          reason: `Guard "${failed.name}" blocked ${String(this._currentState)} -> ${rule.to} on ${rule.on}`
+        };
+        continue;
+      }
+      // A failed probability draw is not a rejection; the event simply didn't fire it
+      if (rule.probability === undefined || this._context.random.next() < rule.probability) {
+        this.takeTransition({ allowed: true, from: this._currentState, to, rule }, event);
+        return true;
+      }
+    }
+
+    if (blocked) {
+      this.rejectTransition(blocked, event);
+    }
+    return false;
+  }
+
+  /**
+   * Returns the rules that leave the active path and apply to the event
+   */
+  protected matchingRules(event?: TEvent): Array<TransitionRule<TState, TEvent, TExtended>> {
+    const active = this.activePath;
+    return this._transitions.filter(rule => {
+      const sources = Array.isArray(rule.from) ? rule.from : [rule.from];
+      if (!sources.some(source => active.includes(source))) {
+        return false;
+      }
+      return rule.on === undefined || (event !== undefined && rule.on === String(event.type));
+    });
+  }
+
+  /**
+   * Returns the first guard of a rule that does not pass
+   */
+  protected failingGuard(
+    rule: TransitionRule<TState, TEvent, TExtended>,
+    to: TState,
+    event?: TEvent
+  ): TransitionGuard<TState, TEvent, TExtended> | undefined {
+    const args = this.transitionArgs(to, event);
+    return (rule.guards ?? []).find(guard => !guard.check(args));
+  }
+
+  /**
+   * Runs a rule's actions in order, merging returned objects into the
+   * extended state in place so that machines sharing it see the update
+   */
+  protected runActions(rule: TransitionRule<TState, TEvent, TExtended>, to: TState, event?: TEvent): void {
+    for (const action of rule.actions ?? []) {
+      const update = action(this.transitionArgs(to, event));
+      if (update && typeof update === 'object') {
+        Object.assign(this._extendedState as object, update);
+      }
+    }
+  }
+
+  /**
+   * Builds the arguments passed to guards and actions
+   */
+  protected transitionArgs(to: TState, event?: TEvent): TransitionArgs<TState, TEvent, TExtended> {
+    return {
+      from: this._currentState,
+      to,
+      event,
+      extendedState: this._extendedState,
+      context: this._context
+    };
+  }
+
+  /**
+   * Works out which states a transition to `target` leaves (innermost
+   * first) and enters (outermost first). A transition to the current state
+   * leaves and re-enters it.
+   */
+  protected changedStates(target: TState): { exited: string[]; entered: string[] } {
+    const fromPath = this.activePath;
+    const toKey = String(target);
+    const toPath = [...this.ancestorsOf(toKey)].reverse().concat(toKey);
+
+    let shared = 0;
+    while (shared < fromPath.length && shared < toPath.length && fromPath[shared] === toPath[shared]) {
+      shared++;
+    }
+    shared = Math.min(shared, fromPath.length - 1, toPath.length - 1);
+
+    return {
+      exited: fromPath.slice(shared).reverse(),
+      entered: toPath.slice(shared)
+    };
+  }
+
+  /**
+   * Cancels timeouts and runs exit hooks for the given states, in order
+   */
+  protected exitStates(states: string[], event?: TEvent): void {
+    for (const state of states) {
+      this.cancelTimeouts(state);
+      this._states[state]?.onExit?.(this.stateHookArgs(state, event));
+      this.onLeaveState(state as TState);
+    }
+  }
+
+  /**
+   * Runs entry hooks and arms timeouts for the given states, in order
+   */
+  protected enterStates(states: string[], event?: TEvent): void {
+    for (const state of states) {
+      this.onEnterState(state as TState);
+      this._states[state]?.onEntry?.(this.stateHookArgs(state, event));
+      this.armTimeouts(state);
+    }
+  }
+
+  /**
+   * Schedules the `after` events of a state on the context's timeline
+   */
+  protected armTimeouts(state: string): void {
+    const timeouts = this._states[state]?.after ?? [];
+    if (timeouts.length === 0) {
+      return;
+    }
+
+    for (const timeout of timeouts) {
+      // A timeout is a consequence of the event that entered its state
+      const event = causedBy({
+        id: this._context.ids.next('evt'),
+        type: timeout.event,
+        timestamp: new Date(this._context.clock.now + timeout.delay).toISOString(),
+        payload: { ...timeout.payload, state, delay: timeout.delay }
+      } as unknown as TEvent, this._handling);
+      this.scheduleTimeout(state, event, timeout.delay);
+    }
+  }
+
+  /**
+   * Schedules a single timeout event and remembers it for cancellation
+   */
+  protected scheduleTimeout(state: string, event: TEvent, delay: number): void {
+    const handle = this._context.scheduler?.schedule(event, delay)
+      ?? this.scheduleWithTimer(event, delay);
+    const pending = this._timeouts.get(state) ?? [];
+    pending.push({ event, handle });
+    this._timeouts.set(state, pending);
+  }
+
+  /**
+   * Cancels any pending timeouts of a state
+   */
+  protected cancelTimeouts(state: string): void {
+    this._timeouts.get(state)?.forEach(({ handle }) => handle.cancel());
+    this._timeouts.delete(state);
+  }
+
+  /**
+   * Wall-clock fallback for machines not driven by an engine
+   */
+  private scheduleWithTimer(event: TEvent, delay: number): ScheduledEventHandle {
+    let pending = true;
+    const timer = setTimeout(() => {
+      pending = false;
+      this.processEvent(event);
+    }, delay);
+
+    return {
+      time: this._context.clock.now + delay,
+      cancel: () => {
+        clearTimeout(timer);
+        const wasPending = pending;
+        pending = false;
+        return wasPending;
+      }
+    };
+  }
+
+  /**
+   * Replaces the extended state. Plain objects are updated in place so that
+   * machines sharing the object keep seeing the same one.
+   */
+  protected replaceExtendedState(value: TExtended): void {
+    const current = this._extendedState as unknown;
+    if (isPlainObject(current) && isPlainObject(value)) {
+      Object.keys(current).forEach(key => delete current[key]);
+      Object.assign(current, value);
+    } else {
+      this._extendedState = value;
+    }
+  }
+
+  /**
+   * Rejects step positions outside the recorded timeline
+   */
+  protected checkStepPosition(position: number): void {
+    if (!Number.isInteger(position) || position < 0 || position > this._steps.length) {
+      throw new Error(`Step position ${position} is outside 0-${this._steps.length}`);
+    }
+  }
+
+  /**
+   * Builds the arguments passed to state entry and exit hooks
+   */
+  protected stateHookArgs(state: string, event?: TEvent): StateHookArgs<TExtended> {
+    return {
+      state,
+      event,
+      extendedState: this._extendedState,
+      context: this._context
+    };
+  }
+
+  /**
+   * Returns the ancestors of a state, nearest first
+   */
+  protected ancestorsOf(state: string): string[] {
+    const ancestors: string[] = [];
+    let parent = this._states[state]?.parent;
+    while (parent !== undefined) {
+      ancestors.push(parent);
+      parent = this._states[parent]?.parent;
+    }
+    return ancestors;
+  }
+
+  /**
+   * Checks whether a state has children
+   */
+  protected isCompound(state: string): boolean {
+    return Object.values(this._states).some(node => node.parent === state);
+  }
+
+  /**
+   * Follows `initial` children down from a compound state to the leaf it enters
+   */
+  protected resolveTarget(state: TState): TState {
+    // Leaves keep their own value, so non-string states are not stringified
+    if (!this.isCompound(String(state))) {
+      return state;
+    }
+    let target = String(state);
+    while (this.isCompound(target)) {
+      const initial = this._states[target]?.initial;
+      if (initial === undefined) {
+        throw new Error(`Compound state "${target}" has no initial child`);
+      }
+      target = initial;
+    }
+    return target as TState;
+  }
+
+  /**
+   * Rejects parent chains that loop back on themselves
+   */
+  protected validateHierarchy(): void {
+    for (const state of Object.keys(this._states)) {
+      const seen = new Set<string>([state]);
+      let parent = this._states[state]?.parent;
+      while (parent !== undefined) {
+        if (seen.has(parent)) {
+          throw new Error(`State hierarchy contains a cycle through "${parent}"`);
+        }
+        seen.add(parent);
+        parent = this._states[parent]?.parent;
+      }
+    }
+  }
+
   /**
    * Validates a state (can be overridden by subclasses)
    */
@@ -229,16 +1146,22 @@ export abstract class BaseStateMachine<TState, TEvent extends Event = Event>
   }
 
   /**
-   * Called when entering a state (can be overridden by subclasses)
+   * Called when entering a state, including each compound ancestor that
+   * becomes active (can be overridden by subclasses)
    */
   protected onEnterState(state: TState): void {
     // Default implementation - can be overridden
   }
 
   /**
-   * Called when leaving a state (can be overridden by subclasses)
+   * Called when leaving a state, including each compound ancestor that
+   * becomes inactive (can be overridden by subclasses)
    */
   protected onLeaveState(state: TState): void {
     // Default implementation - can be overridden
   }
-}
\ No newline at end of file
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,115 @@
+/**
+ * Summary statistics over the outcomes of repeated runs
+ */
+
+/**
+ * Summary of a sample of numbers
+ */
+export interface SummaryStatistics {
+  count: number;
+  mean: number;
+  /** Sample standard deviation (n - 1) */
+  stdDev: number;
+  min: number;
+  max: number;
+  /** Requested percentiles, keyed as "p50", "p95", ... */
+  percentiles: Record<string, number>;
+  /** Confidence interval for the mean */
+  confidenceInterval: { level: number; lower: number; upper: number };
+}
+
+/**
+ * Options for summarizing a sample
+ */
+export interface SummaryOptions {
+  /** Percentiles to report, between 0 and 100 (default: 5, 25, 50, 75, 95) */
+  percentiles?: number[];
+  /** Confidence level of the interval for the mean (default: 0.95) */
+  confidence?: number;
+}
+
+/**
+ * Returns the arithmetic mean, or NaN for an empty sample
+ */
+export function mean(values: number[]): number {
+  return values.length === 0 ? NaN : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Returns the sample variance (n - 1), or 0 for fewer than two values
+ */
+export function variance(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+  const m = mean(values);
+  return values.reduce((sum, value) => sum + (value - m) ** 2, 0) / (values.length - 1);
+}
+
+/**
+ * Returns the p-th percentile (0-100) of a sample, interpolating linearly
+ * between the closest ranks
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) {
+    return NaN;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(100, Math.max(0, p)) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (rank - lower);
+}
+
+/**
+ * Summarizes a sample. The confidence interval uses the normal
+ * approximation, which is reasonable from a few dozen values upward.
+ */
+export function summarize(values: number[], options: SummaryOptions = {}): SummaryStatistics {
+  const level = options.confidence ?? 0.95;
+  const m = mean(values);
+  const stdDev = Math.sqrt(variance(values));
+  const halfWidth = values.length > 0
+    ? normalQuantile(1 - (1 - level) / 2) * stdDev / Math.sqrt(values.length)
+    : NaN;
+
+  const percentiles: Record<string, number> = {};
+  for (const p of options.percentiles ?? [5, 25, 50, 75, 95]) {
+    percentiles[`p${p}`] = percentile(values, p);
+  }
+
+  return {
+    count: values.length,
+    mean: m,
+    stdDev,
+    min: values.length > 0 ? Math.min(...values) : NaN,
+    max: values.length > 0 ? Math.max(...values) : NaN,
+    percentiles,
+    confidenceInterval: { level, lower: m - halfWidth, upper: m + halfWidth }
+  };
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation)
+ */
+function normalQuantile(p: number): number {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0]! * q + c[1]!) * q + c[2]!) * q + c[3]!) * q + c[4]!) * q + c[5]!) /
+      ((((d[0]! * q + d[1]!) * q + d[2]!) * q + d[3]!) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0]! * r + a[1]!) * r + a[2]!) * r + a[3]!) * r + a[4]!) * r + a[5]!) * q /
+    (((((b[0]! * r + b[1]!) * r + b[2]!) * r + b[3]!) * r + b[4]!) * r + 1);
+}
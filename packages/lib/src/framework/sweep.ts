@@ -0,0 +1,324 @@
+/**
+ * Parameter sweeps and sensitivity analysis over batches of runs
+ */
+
+import type { StateMachine } from './state-machine.js';
+import { createRandom } from './random.js';
+import type { RandomSource } from './random.js';
+import { runBatch } from './batch.js';
+import type { BatchOptions, OutcomeMetric } from './batch.js';
+import { mean } from './statistics.js';
+import { toCSV } from './utils.js';
+
+/**
+ * Value a parameter can take in one run
+ */
+export type ParameterValue = number | string | boolean;
+
+/**
+ * Values of every swept parameter for one run, by name
+ */
+export type ParameterSet = Record<string, ParameterValue>;
+
+/**
+ * Range of a parameter: a list of discrete values, or a numeric interval.
+ * Intervals are split into `levels` evenly spaced values (default 3) for
+ * grid and one-at-a-time designs and sampled continuously by Latin
+ * hypercubes.
+ */
+export type ParameterSpec =
+  | { values: ParameterValue[] }
+  | { min: number; max: number; levels?: number; integer?: boolean };
+
+/**
+ * Parameters to sweep, by name
+ */
+export type ParameterSpace = Record<string, ParameterSpec>;
+
+/**
+ * How the points of a sweep are chosen
+ */
+export enum SweepDesign {
+  /** Every combination of every parameter's levels */
+  Grid = 'grid',
+  /** Stratified random samples covering each parameter's range evenly */
+  LatinHypercube = 'lhs',
+  /** A baseline plus each parameter moved through its levels on its own */
+  OneAtATime = 'oat'
+}
+
+/**
+ * How a parameter's influence on a metric was measured
+ */
+export enum SensitivityMethod {
+  /** Spread of the metric when only this parameter moves from the baseline */
+  OneAtATime = 'one-at-a-time',
+  /** Share of the metric's variance explained by this parameter alone (0-1) */
+  FirstOrder = 'first-order'
+}
+
+/**
+ * Options for running a sweep
+ */
+export interface SweepOptions<TMachine extends StateMachine<any, any>> {
+  parameters: ParameterSpace;
+  /** How to choose the points (default: grid) */
+  design?: SweepDesign;
+  /** Number of points for Latin hypercube designs (default: 20) */
+  samples?: number;
+  /** Values held fixed in one-at-a-time designs (default: first value or midpoint) */
+  baseline?: ParameterSet;
+  /** Seed for the design and the runs (default: 1) */
+  seed?: number;
+  /** Runs per point; metrics are averaged over them (default: 1) */
+  replications?: number;
+  /** Creates a fresh machine for a run at the given point */
+  createMachine: (parameters: ParameterSet, replication: number) => TMachine;
+  /** Engine options for a point, e.g. to apply `minInterval` or generator rates */
+  simulation?: (parameters: ParameterSet) => BatchOptions<TMachine>['simulation'];
+  /** Ends a run once this returns true after an event */
+  stopWhen?: BatchOptions<TMachine>['stopWhen'];
+  /** Outcomes to record for each run, by name */
+  metrics: Record<string, OutcomeMetric<TMachine>>;
+  /** Called after each point finishes */
+  onPoint?: (point: SweepPoint) => void;
+}
+
+/**
+ * Outcome of one point of a sweep
+ */
+export interface SweepPoint {
+  index: number;
+  parameters: ParameterSet;
+  /** Mean of each metric over the point's replications */
+  metrics: Record<string, number>;
+}
+
+/**
+ * Influence of one parameter on one metric
+ */
+export interface ParameterInfluence {
+  parameter: string;
+  influence: number;
+  method: SensitivityMethod;
+}
+
+/**
+ * Outcome of a sweep
+ */
+export interface SweepResult {
+  design: SweepDesign;
+  points: SweepPoint[];
+  /** Parameters ranked from most to least influential, by metric */
+  sensitivity: Record<string, ParameterInfluence[]>;
+  /** Wall-clock milliseconds the sweep took */
+  runtime: number;
+}
+
+/**
+ * Builds a full factorial design over every parameter's levels
+ */
+export function gridDesign(space: ParameterSpace): ParameterSet[] {
+  return Object.entries(space).reduce<ParameterSet[]>(
+    (sets, [name, spec]) => sets.flatMap(set => levelsOf(spec).map(value => ({ ...set, [name]: value }))),
+    [{}]
+  );
+}
+
+/**
+ * Builds a Latin hypercube design: each parameter's range is cut into
+ * `samples` equal strata and every stratum is used exactly once
+ */
+export function latinHypercubeDesign(
+  space: ParameterSpace,
+  samples: number,
+  random: RandomSource = createRandom()
+): ParameterSet[] {
+  const sets: ParameterSet[] = Array.from({ length: samples }, () => ({}));
+
+  for (const [name, spec] of Object.entries(space)) {
+    const strata = shuffle(Array.from({ length: samples }, (_, i) => i), random);
+    strata.forEach((stratum, i) => {
+      const u = (stratum + random.next()) / samples;
+      sets[i]![name] = 'values' in spec
+        ? spec.values[Math.min(spec.values.length - 1, Math.floor(u * spec.values.length))]!
+        : roundIf(spec.min + u * (spec.max - spec.min), spec.integer);
+    });
+  }
+
+  return sets;
+}
+
+/**
+ * Builds a one-at-a-time design: the baseline first, then each parameter
+ * moved through its other levels while the rest stay at the baseline
+ */
+export function oneAtATimeDesign(space: ParameterSpace, baseline: ParameterSet = defaultBaseline(space)): ParameterSet[] {
+  const sets: ParameterSet[] = [{ ...baseline }];
+  for (const [name, spec] of Object.entries(space)) {
+    for (const value of levelsOf(spec)) {
+      if (value !== baseline[name]) {
+        sets.push({ ...baseline, [name]: value });
+      }
+    }
+  }
+  return sets;
+}
+
+/**
+ * Runs a batch at every point of the design and ranks the parameters by
+ * their influence on each metric. One-at-a-time designs are ranked by the
+ * spread each parameter causes on its own; grid and Latin hypercube
+ * designs by first-order variance indices, estimated by grouping the
+ * points on each parameter's value.
+ */
+export function runSweep<TMachine extends StateMachine<any, any>>(options: SweepOptions<TMachine>): SweepResult {
+  const started = Date.now();
+  const design = options.design ?? SweepDesign.Grid;
+  const seed = options.seed ?? 1;
+  const replications = options.replications ?? 1;
+  const baseline = { ...defaultBaseline(options.parameters), ...options.baseline };
+
+  let sets: ParameterSet[];
+  switch (design) {
+    case SweepDesign.Grid:
+      sets = gridDesign(options.parameters);
+      break;
+    case SweepDesign.LatinHypercube:
+      sets = latinHypercubeDesign(options.parameters, options.samples ?? 20, createRandom(seed));
+      break;
+    case SweepDesign.OneAtATime:
+      sets = oneAtATimeDesign(options.parameters, baseline);
+      break;
+  }
+
+  const points = sets.map((parameters, index) => {
+    const batch = runBatch({
+      createMachine: replication => options.createMachine(parameters, replication),
+      replications,
+      // Every point sees the same seeds, so differences come from the parameters
+      seed,
+      simulation: options.simulation?.(parameters),
+      stopWhen: options.stopWhen,
+      metrics: options.metrics
+    });
+
+    const metrics: Record<string, number> = {};
+    for (const name of Object.keys(options.metrics)) {
+      metrics[name] = batch.summary[name]!.mean;
+    }
+
+    const point: SweepPoint = { index, parameters, metrics };
+    options.onPoint?.(point);
+    return point;
+  });
+
+  const sensitivity: Record<string, ParameterInfluence[]> = {};
+  for (const metric of Object.keys(options.metrics)) {
+    sensitivity[metric] = Object.keys(options.parameters)
+      .map(parameter => design === SweepDesign.OneAtATime
+        ? {
+          parameter,
+          influence: oneAtATimeEffect(points, parameter, metric, baseline),
+          method: SensitivityMethod.OneAtATime
+        }
+        : {
+          parameter,
+          influence: firstOrderIndex(points, parameter, metric),
+          method: SensitivityMethod.FirstOrder
+        })
+      .sort((a, b) => b.influence - a.influence);
+  }
+
+  return { design, points, sensitivity, runtime: Date.now() - started };
+}
+
+/**
+ * Formats one row per point as CSV: parameters first, then metrics
+ */
+export function sweepToCSV(result: SweepResult): string {
+  const parameterNames = Object.keys(result.points[0]?.parameters ?? {});
+  const metricNames = Object.keys(result.points[0]?.metrics ?? {});
+  const rows = result.points.map(point => [
+    point.index,
+    ...parameterNames.map(name => point.parameters[name]),
+    ...metricNames.map(name => point.metrics[name])
+  ]);
+  return toCSV(['point', ...parameterNames, ...metricNames], rows);
+}
+
+function levelsOf(spec: ParameterSpec): ParameterValue[] {
+  if ('values' in spec) {
+    return spec.values;
+  }
+  const levels = Math.max(1, spec.levels ?? 3);
+  if (levels === 1) {
+    return [roundIf((spec.min + spec.max) / 2, spec.integer)];
+  }
+  const values = Array.from({ length: levels }, (_, i) =>
+    roundIf(spec.min + (i / (levels - 1)) * (spec.max - spec.min), spec.integer));
+  return [...new Set(values)];
+}
+
+function defaultBaseline(space: ParameterSpace): ParameterSet {
+  const baseline: ParameterSet = {};
+  for (const [name, spec] of Object.entries(space)) {
+    baseline[name] = 'values' in spec ? spec.values[0]! : roundIf((spec.min + spec.max) / 2, spec.integer);
+  }
+  return baseline;
+}
+
+function oneAtATimeEffect(points: SweepPoint[], parameter: string, metric: string, baseline: ParameterSet): number {
+  const values = points
+    .filter(point => Object.entries(baseline).every(([name, value]) => name === parameter || point.parameters[name] === value))
+    .map(point => point.metrics[metric]!);
+  return values.length > 0 ? Math.max(...values) - Math.min(...values) : 0;
+}
+
+function firstOrderIndex(points: SweepPoint[], parameter: string, metric: string): number {
+  const outputs = points.map(point => point.metrics[metric]!);
+  const overall = mean(outputs);
+  const total = outputs.reduce((sum, y) => sum + (y - overall) ** 2, 0) / outputs.length;
+  // Rounding noise around a constant output is not variance
+  if (!(total > Number.EPSILON * Math.max(1, overall * overall))) {
+    return 0;
+  }
+
+  // Values that repeat (discrete parameters, grid levels) group by value;
+  // continuous samples by quantile bins
+  const groups = new Map<string, number[]>();
+  const distinct = new Set(points.map(point => point.parameters[parameter]));
+  const numeric = points.every(point => typeof point.parameters[parameter] === 'number');
+  const binCount = Math.max(2, Math.floor(Math.sqrt(points.length)));
+
+  if (distinct.size <= binCount || distinct.size < points.length || !numeric) {
+    points.forEach(point => {
+      const key = String(point.parameters[parameter]);
+      groups.set(key, [...(groups.get(key) ?? []), point.metrics[metric]!]);
+    });
+  } else {
+    const ranked = [...points].sort((a, b) => (a.parameters[parameter] as number) - (b.parameters[parameter] as number));
+    ranked.forEach((point, rank) => {
+      const key = String(Math.floor((rank * binCount) / ranked.length));
+      groups.set(key, [...(groups.get(key) ?? []), point.metrics[metric]!]);
+    });
+  }
+
+  let explained = 0;
+  groups.forEach(values => {
+    explained += (values.length / outputs.length) * (mean(values) - overall) ** 2;
+  });
+  return Math.min(1, explained / total);
+}
+
+function roundIf(value: number, integer?: boolean): number {
+  return integer ? Math.round(value) : value;
+}
+
+function shuffle<T>(items: T[], random: RandomSource): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random.next() * (i + 1));
+    [items[i], items[j]] = [items[j]!, items[i]!];
+  }
+  return items;
+}
@@ -0,0 +1,110 @@
+/**
+ * Stepping backward and forward through a machine's recorded history
+ */
+
+import type { Event } from './events.js';
+import type { BaseStateMachine, HistoryStep } from './state-machine.js';
+import { applyChanges } from './diff.js';
+
+/**
+ * Cursor over the steps a machine recorded with `recordSteps`. The navigator
+ * works on its own copy of the extended state, so moving it does not touch
+ * the machine until `rebuild()` is called. It sees the timeline as it was
+ * when the navigator was created.
+ */
+export class HistoryNavigator<TState, TEvent extends Event = Event, TExtended = any> {
+  private readonly _machine: BaseStateMachine<TState, TEvent, TExtended>;
+  private readonly _steps: Array<HistoryStep<TState, TEvent>>;
+  private _position: number;
+  private _extendedState: TExtended;
+
+  constructor(machine: BaseStateMachine<TState, TEvent, TExtended>) {
+    this._machine = machine;
+    this._steps = machine.steps;
+    this._position = this._steps.length;
+    this._extendedState = structuredClone(machine.extendedState);
+  }
+
+  /**
+   * Gets the number of recorded steps
+   */
+  get length(): number {
+    return this._steps.length;
+  }
+
+  /**
+   * Gets the number of steps applied at the cursor (0 = before the first)
+   */
+  get position(): number {
+    return this._position;
+  }
+
+  /**
+   * Gets the step that led to the cursor, if any
+   */
+  get step(): HistoryStep<TState, TEvent> | undefined {
+    return this._position > 0 ? this._steps[this._position - 1] : undefined;
+  }
+
+  /**
+   * Gets the machine state at the cursor
+   */
+  get state(): TState {
+    return this.step?.stateAfter ?? this._steps[0]?.stateBefore ?? this._machine.currentState;
+  }
+
+  /**
+   * Gets a copy of the extended state at the cursor
+   */
+  get extendedState(): TExtended {
+    return structuredClone(this._extendedState);
+  }
+
+  /**
+   * Undoes up to `count` steps
+   */
+  back(count = 1): this {
+    return this.goTo(Math.max(0, this._position - count));
+  }
+
+  /**
+   * Redoes up to `count` steps
+   */
+  forward(count = 1): this {
+    return this.goTo(Math.min(this._steps.length, this._position + count));
+  }
+
+  /**
+   * Moves the cursor to the given position
+   */
+  goTo(position: number): this {
+    if (!Number.isInteger(position) || position < 0 || position > this._steps.length) {
+      throw new Error(`Step position ${position} is outside 0-${this._steps.length}`);
+    }
+
+    while (this._position > position) {
+      const step = this._steps[--this._position]!;
+      this._extendedState = applyChanges(this._extendedState, step.changes, 'backward');
+    }
+    while (this._position < position) {
+      const step = this._steps[this._position++]!;
+      this._extendedState = applyChanges(this._extendedState, step.changes, 'forward');
+    }
+    return this;
+  }
+
+  /**
+   * Moves the cursor to the most recent step
+   */
+  latest(): this {
+    return this.goTo(this._steps.length);
+  }
+
+  /**
+   * Puts the machine back into the state at the cursor, discarding the
+   * later steps
+   */
+  rebuild(): void {
+    this._machine.rewindTo(this._position);
+  }
+}
@@ -2,21 +2,61 @@
  * Core utilities for the simulation framework
  */
 
-// Counter for generating unique IDs
-let _idCounter = 0;
+import { systemClock } from './clock.js';
+import type { SimulationClock } from './clock.js';
+import { mathRandom } from './random.js';
+import type { RandomSource } from './random.js';
+
+/**
+ * Sequential ID generator. Each simulation run owns one so that IDs do not
+ * depend on what else has run in the same process.
+ */
+export class IdGenerator {
+  private _counter: number;
+
+  constructor(start = 0) {
+    this._counter = start;
+  }
+
+  /**
+   * Gets the number of IDs issued so far
+   */
+  get counter(): number {
+    return this._counter;
+  }
+
+  /**
+   * Generates the next ID with an optional prefix
+   */
+  next(prefix = "id"): string {
+    return `${prefix}_${++this._counter}`;
+  }
+
+  /**
+   * Restarts the sequence
+   */
+  reset(start = 0): void {
+    this._counter = start;
+  }
+}
+
+/**
+ * Module-wide ID sequence used by nextId
+ */
+export const defaultIdGenerator = new IdGenerator();
 
 /**
  * Generates a unique ID with an optional prefix
  */
 export function nextId(prefix = "id"): string {
-  return `${prefix}_${++_idCounter}`;
+  return defaultIdGenerator.next(prefix);
 }
 
 /**
  * Returns the current timestamp as an ISO string
  */
-export function nowISO(): string {
-  return new Date().toISOString();
+export function nowISO(clock: SimulationClock = systemClock): string {
+  return clock.nowISO();
 }
 
 /**
@@ -29,59 +69,80 @@ export function clamp01(n: number): number {
 /**
  * Picks a random element from an array
  */
-export function pick<T>(arr: T[]): T {
-  return arr[Math.floor(Math.random() * arr.length)];
+export function pick<T>(arr: T[], random: RandomSource = mathRandom): T {
+  return arr[Math.floor(random.next() * arr.length)]!;
 }
 
 /**
  * Generates a random integer between min and max (inclusive)
  */
-export function rand(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+export function rand(min: number, max: number, random: RandomSource = mathRandom): number {
+  return Math.floor(random.next() * (max - min + 1)) + min;
 }
 
 /**
  * Generates a random float between min and max
  */
-export function randFloat(min: number, max: number): number {
-  return Math.random() * (max - min) + min;
+export function randFloat(min: number, max: number, random: RandomSource = mathRandom): number {
+  return random.next() * (max - min) + min;
 }
 
 /**
  * Creates a timestamp for a date that's a certain number of days from now
  */
-export function daysFromNow(days: number): string {
-  return new Date(Date.now() + days * 24 * 3600 * 1000).toISOString();
+export function daysFromNow(days: number, clock: SimulationClock = systemClock): string {
+  return new Date(clock.now + days * 24 * 3600 * 1000).toISOString();
 }
 
 /**
  * Creates a timestamp for a date that's a certain number of milliseconds from now
  */
-export function msFromNow(ms: number): string {
-  return new Date(Date.now() + ms).toISOString();
+export function msFromNow(ms: number, clock: SimulationClock = systemClock): string {
+  return new Date(clock.now + ms).toISOString();
 }
 
 /**
  * Checks if a given ISO timestamp is in the past
  */
-export function isPast(isoString: string): boolean {
-  return new Date(isoString).getTime() < Date.now();
+export function isPast(isoString: string, clock: SimulationClock = systemClock): boolean {
+  return new Date(isoString).getTime() < clock.now;
 }
 
 /**
  * Utility for weighted random selection
  */
-export function weightedPick<T>(items: Array<{ item: T; weight: number }>): T {
+export function weightedPick<T>(
+  items: Array<{ item: T; weight: number }>,
+  random: RandomSource = mathRandom
+): T {
   const totalWeight = items.reduce((sum, item) => sum + item.weight, 0);
-  let random = Math.random() * totalWeight;
+  let remaining = random.next() * totalWeight;
   
   for (const item of items) {
-    random -= item.weight;
-    if (random <= 0) {
+    remaining -= item.weight;
+    if (remaining <= 0) {
       return item.item;
     }
   }
   
   // Fallback to the last item
-  return items[items.length - 1].item;
-}
\ No newline at end of file
+  return items[items.length - 1]!.item;
+}
+
+/**
+ * Checks if a value is a promise or another thenable
+ */
+export function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return typeof (value as PromiseLike<unknown> | undefined)?.then === 'function';
+}
+
+/**
+ * Formats a header and rows as CSV, quoting cells where needed
+ */
+export function toCSV(header: string[], rows: unknown[][]): string {
+  const cell = (value: unknown): string => {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [header, ...rows].map(row => row.map(cell).join(',')).join('\n') + '\n';
+}
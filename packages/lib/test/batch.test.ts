@@ -0,0 +1,104 @@
+import { describe, expect, test } from 'bun:test';
+import { SimulationEngine, StopReason, percentile, replicationsToCSV, runBatch, summarize } from '../src/framework/index.js';
+import { TaskMachine, doneGenerator, taskGenerator } from './helpers.js';
+
+describe('statistics', () => {
+  test('summarizes a sample', () => {
+    const summary = summarize([2, 4, 4, 4, 5, 5, 7, 9], { percentiles: [50] });
+
+    expect(summary.mean).toBe(5);
+    expect(summary.stdDev).toBeCloseTo(2.138, 3);
+    expect(summary.min).toBe(2);
+    expect(summary.max).toBe(9);
+    expect(summary.percentiles).toEqual({ p50: 4.5 });
+    expect(summary.confidenceInterval.lower).toBeCloseTo(5 - 1.96 * 2.138 / Math.sqrt(8), 2);
+  });
+
+  test('interpolates percentiles between ranks', () => {
+    expect(percentile([1, 2, 3, 4], 25)).toBe(1.75);
+    expect(percentile([], 50)).toBeNaN();
+  });
+});
+
+describe('run termination', () => {
+  test('ends once capped shared generators leave only ticks', () => {
+    const stats = new SimulationEngine(new TaskMachine()).run({
+      eventGenerators: [{ generate: taskGenerator, maxOccurrences: 3 }]
+    });
+
+    expect(stats.stopReason).toBe(StopReason.AgendaEmpty);
+    expect(stats.eventCount).toBe(3);
+  });
+
+  test('ends once no shared generator is enabled in the current state', () => {
+    const stats = new SimulationEngine(new TaskMachine()).run({
+      eventGenerators: [{ generate: taskGenerator, enabled: (state: string) => state === 'Idle' }]
+    });
+
+    expect(stats.stopReason).toBe(StopReason.AgendaEmpty);
+    expect(stats.currentState).toBe('Busy');
+  });
+
+  test('refuses to start when random or scheduled generators never run out', async () => {
+    const engine = new SimulationEngine(new TaskMachine());
+    const endless = { name: 'tasks', generate: taskGenerator, rate: 0.01 };
+
+    expect(() => engine.run({ eventGenerators: [endless] })).toThrow('tasks never run out');
+    await expect(engine.runAsync({ eventGenerators: [{ generate: taskGenerator, schedule: { every: 100 } }] })).rejects.toThrow('generator_0 never run out');
+    expect(engine.run({ eventGenerators: [endless], timeHorizon: 1_000 }).stopReason).toBe(StopReason.TimeHorizon);
+    expect(engine.run({ eventGenerators: [{ ...endless, maxOccurrences: 2 }] }).eventCount).toBe(2);
+  });
+
+  test('ends async runs the same way', async () => {
+    const stats = await new SimulationEngine(new TaskMachine()).runAsync({
+      eventGenerators: [{ generate: taskGenerator, maxOccurrences: 2 }]
+    });
+
+    expect(stats.stopReason).toBe(StopReason.AgendaEmpty);
+  });
+});
+
+describe('runBatch', () => {
+  const batch = () => runBatch({
+    createMachine: () => new TaskMachine(),
+    replications: 20,
+    seed: 100,
+    simulation: { maxEvents: 25, eventGenerators: [taskGenerator, doneGenerator] },
+    metrics: {
+      tasks: machine => machine.extendedState.tasks,
+      busy: machine => machine.currentState === 'Busy'
+    }
+  });
+
+  test('runs each replication with its own seed', () => {
+    const result = batch();
+
+    expect(result.replications.map(r => r.seed)).toEqual(Array.from({ length: 20 }, (_, i) => 100 + i));
+    expect(result.replications.every(r => r.eventCount === 25 && r.stopReason === StopReason.MaxEvents)).toBe(true);
+    expect(result.finalStates['Idle']! + result.finalStates['Busy']!).toBe(20);
+  });
+
+  test('aggregates outcome metrics', () => {
+    const result = batch();
+    const tasks = result.replications.map(r => r.metrics['tasks']!);
+
+    expect(result.summary['tasks']?.mean).toBe(tasks.reduce((a, b) => a + b, 0) / 20);
+    expect(result.summary['busy']?.mean).toBe(result.finalStates['Busy']! / 20);
+    expect(result.summary['eventCount']?.stdDev).toBe(0);
+  });
+
+  test('is reproducible', () => {
+    expect(batch().replications).toEqual(batch().replications);
+  });
+
+  test('formats replications as CSV', () => {
+    const [header, first] = replicationsToCSV(batch()).split('\n');
+
+    expect(header).toContain('tasks');
+    expect(first?.startsWith('0,100,')).toBe(true);
+  });
+
+  test('rejects batches without a stop condition', () => {
+    expect(() => runBatch({ createMachine: () => new TaskMachine(), replications: 1 })).toThrow();
+  });
+});
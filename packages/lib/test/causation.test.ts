@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'bun:test';
+import { SimulationEngine, causedBy } from '../src/framework/index.js';
+import type { CausalNode, Event } from '../src/framework/index.js';
+import { TaskMachine, taskEvent } from './helpers.js';
+import type { TaskEvent } from './helpers.js';
+
+/**
+ * Splits a task into one of size - 1 until it reaches size 1, then finishes
+ */
+class SplittingMachine extends TaskMachine {
+  protected handleEvent(event: TaskEvent): void {
+    super.handleEvent(event);
+    const size = event.payload?.size ?? 0;
+    if (event.type === 'task') {
+      this.emit(size > 1 ? 'task' : 'done', size > 1 ? { size: size - 1 } : {});
+    }
+  }
+}
+
+const run = () => {
+  const machine = new SplittingMachine();
+  const engine = new SimulationEngine(machine);
+  engine.run({
+    startTime: 0,
+    onStart: () => {
+      engine.scheduleEvent(taskEvent('task', engine.context, 3), 100);
+      engine.scheduleEvent(taskEvent('task', engine.context, 1), 200);
+    }
+  });
+  return { machine, engine };
+};
+
+const ids = (node: CausalNode<TaskEvent>): unknown => [node.entry.event.id, node.children.map(ids)];
+
+describe('causation', () => {
+  test('emit stamps the cause and the correlation', () => {
+    const { machine } = run();
+    const [first, second, third] = machine.handled;
+
+    expect(machine.handled.map(event => event.type)).toEqual(['task', 'task', 'task', 'done', 'task', 'done']);
+    expect(first?.causationId).toBeUndefined();
+    expect(second?.causationId).toBe(first!.id);
+    expect(third?.causationId).toBe(second!.id);
+    expect(third?.correlationId).toBe(first!.id);
+  });
+
+  test('emitted events run at the time of their cause', () => {
+    const { engine } = run();
+
+    expect(engine.eventLog.toArray().map(entry => entry.time)).toEqual([100, 100, 100, 100, 200, 200]);
+  });
+
+  test('walks chains, trees and correlations in the log', () => {
+    const { machine, engine } = run();
+    const [first, second, third, fourth, fifth] = machine.handled.map(event => event.id);
+
+    expect<unknown>(engine.eventLog.causalChain(fourth!).map(entry => entry.event.id)).toEqual([first, second, third, fourth]);
+    expect(ids(engine.eventLog.causalTree(second!)!)).toEqual([second, [[third, [[fourth, []]]]]]);
+    expect(engine.eventLog.correlated(first!)).toHaveLength(4);
+    expect(engine.eventLog.correlated(fifth!)).toHaveLength(2);
+    expect(engine.eventLog.causalTree('missing')).toBeUndefined();
+  });
+
+  test('causedBy keeps events that already name a cause', () => {
+    const cause: Event = { id: 'a', type: 'task', timestamp: '', correlationId: 'root' };
+    const event: Event = { id: 'b', type: 'done', timestamp: '' };
+
+    expect(causedBy(event, cause)).toEqual({ ...event, causationId: 'a', correlationId: 'root' });
+    expect(causedBy({ ...event, causationId: 'x' }, cause).causationId).toBe('x');
+    expect(causedBy(cause, cause)).toBe(cause);
+  });
+});
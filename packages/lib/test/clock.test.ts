@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'bun:test';
+import { Agenda, SimulationEngine, SimulationMode, StopReason, VirtualClock } from '../src/framework/index.js';
+import { TaskMachine, doneGenerator, taskGenerator } from './helpers.js';
+
+describe('VirtualClock', () => {
+  test('only moves when advanced', () => {
+    const clock = new VirtualClock(1_000);
+    clock.advanceBy(500);
+    clock.advanceTo(2_000);
+
+    expect(clock.now).toBe(2_000);
+    expect(clock.elapsed).toBe(1_000);
+    expect(clock.nowISO()).toBe(new Date(2_000).toISOString());
+  });
+
+  test('refuses to go backwards', () => {
+    const clock = new VirtualClock(1_000);
+    expect(() => clock.advanceTo(999)).toThrow();
+  });
+});
+
+describe('Agenda', () => {
+  test('orders entries by time, first in first out for equal times', () => {
+    const agenda = new Agenda<string>();
+    agenda.schedule(20, 'c');
+    agenda.schedule(10, 'a');
+    agenda.schedule(20, 'd');
+    agenda.schedule(10, 'b');
+
+    expect(agenda.toArray().map(entry => entry.item)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  test('cancels scheduled entries', () => {
+    const agenda = new Agenda<string>();
+    const entry = agenda.schedule(10, 'a');
+    agenda.schedule(20, 'b');
+
+    expect(agenda.cancel(entry)).toBe(true);
+    expect(agenda.cancel(entry)).toBe(false);
+    expect(agenda.next()?.item).toBe('b');
+    expect(agenda.isEmpty).toBe(true);
+  });
+});
+
+describe('discrete-event mode', () => {
+  test('jumps the clock from tick to tick', () => {
+    const engine = new SimulationEngine(new TaskMachine());
+    const stats = engine.run({
+      startTime: 0,
+      minInterval: 1_000,
+      maxInterval: 1_000,
+      maxEvents: 4,
+      eventGenerators: [taskGenerator, doneGenerator]
+    });
+
+    expect(stats.mode).toBe(SimulationMode.DiscreteEvent);
+    expect(stats.stopReason).toBe(StopReason.MaxEvents);
+    expect(stats.eventCount).toBe(4);
+    expect(engine.clock.now).toBe(4_000);
+  });
+
+  test('delivers scheduled events at their simulated time', () => {
+    const machine = new TaskMachine();
+    const engine = new SimulationEngine(machine);
+    const times: number[] = [];
+    engine.on('eventProcessed', () => times.push(engine.clock.elapsed));
+
+    engine.run({
+      startTime: 0,
+      onStart: () => {
+        engine.scheduleEvent({ id: 'late', type: 'done', timestamp: '' }, 5_000);
+        engine.scheduleEvent({ id: 'early', type: 'task', timestamp: '' }, 2_000);
+      }
+    });
+
+    expect(machine.handled.map(event => event.id)).toEqual(['early', 'late']);
+    expect(times).toEqual([2_000, 5_000]);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, expect, spyOn, test } from 'bun:test';
+import {
+  SimulationDefinitionError,
+  StopReason,
+  loadSimulation,
+  parseSimulationDefinition,
+  stringifySimulationDefinition,
+  validateSimulationDefinition
+} from '../src/framework/index.js';
+
+const ORDERS = `
+name: orders
+initialState: Idle
+finalStates: [Shipped]
+states:
+  - name: Idle
+  - name: Packing
+    onEntry:
+      - { type: increment, path: packed }
+  - name: Shipped
+extendedState:
+  packed: { type: number }
+  amounts: { type: array }
+events:
+  - name: OrderPlaced
+    payload:
+      - { name: orderId, type: string }
+      - { name: amount, type: number }
+  - name: Packed
+generators:
+  - event: OrderPlaced
+    interArrival: { type: exponential, rate: 0.001 }
+    payload:
+      orderId: { $id: order }
+      amount: { $sample: { type: uniform, min: 10, max: 500 }, $round: true }
+transitions:
+  - { from: Idle, to: Packing, on: OrderPlaced }
+  - from: Packing
+    to: Shipped
+    on: Packed
+    guards:
+      - { path: extendedState.packed, op: gte, value: 1 }
+handlers:
+  - event: OrderPlaced
+    effects:
+      - { type: push, path: amounts, value: { $ref: event.payload.amount } }
+      - { type: emit, event: Packed, delay: { type: constant, value: 500 } }
+simulation:
+  maxEvents: 100
+`;
+
+const issues = (document: unknown) => {
+  try {
+    validateSimulationDefinition(document);
+  } catch (error) {
+    return (error as SimulationDefinitionError).issues;
+  }
+  return [];
+};
+
+describe('loadSimulation', () => {
+  test('runs the declared states, handlers and effects', () => {
+    const orders = loadSimulation(ORDERS);
+    const stats = orders.run({ seed: 1 });
+    const [placed, packed] = orders.engine.eventLog.toArray();
+
+    expect(stats.stopReason).toBe(StopReason.FinalState);
+    expect(orders.stateMachine.currentState).toBe('Shipped');
+    expect(orders.stateMachine.extendedState).toEqual({ packed: 1, amounts: [placed!.event.payload.amount] });
+    expect(packed?.event.causationId).toBe(placed!.event.id);
+    expect(packed!.time - placed!.time).toBe(500);
+  });
+
+  test('gives the same run for the same seed', () => {
+    const run = () => {
+      const orders = loadSimulation(ORDERS);
+      orders.run({ seed: 7 });
+      return orders.engine.eventLog.toArray();
+    };
+
+    expect(run()).toEqual(run());
+  });
+
+  test('logs only when logging is enabled', () => {
+    const messages = (enableLogging: boolean) => {
+      const definition = parseSimulationDefinition(ORDERS);
+      const shipped = definition.states.find(state => state.name === 'Shipped')!;
+      shipped.onEntry = [{ type: 'log', message: 'shipped' }];
+      const log = spyOn(console, 'log').mockImplementation(() => {});
+      loadSimulation({ ...definition, simulation: { ...definition.simulation, enableLogging } }).run({ seed: 1 });
+      const calls = log.mock.calls.filter(([message]) => message === 'shipped');
+      log.mockRestore();
+      return calls.length;
+    };
+
+    expect(messages(false)).toBe(0);
+    expect(messages(true)).toBe(1);
+  });
+
+  test('gives flow steps the flow\'s payload or empty values', () => {
+    const definition = parseSimulationDefinition(ORDERS);
+    const review = loadSimulation({
+      ...definition,
+      events: [
+        ...definition.events!,
+        { name: 'Checked', payload: [{ name: 'orderId', type: 'string' }, { name: 'passed', type: 'boolean' }, { name: 'note', type: 'string', optional: true }] },
+        { name: 'Labelled', payload: [{ name: 'weight', type: 'number' }, { name: 'tags', type: 'array' }] }
+      ],
+      flows: [{
+        name: 'review',
+        startEvent: 'OrderPlaced',
+        endEvent: 'Labelled',
+        steps: { OrderPlaced: ['Checked'], Checked: ['Labelled'] },
+        stepDelay: { type: 'constant', value: 100 },
+        payload: { Checked: { orderId: { $ref: 'event.payload.orderId' } } }
+      }]
+    });
+    review.run({ seed: 1 });
+    const payloads = review.engine.eventLog.toArray().map(entry => [entry.event.type, entry.event.payload]);
+    const placed = payloads.find(([type]) => type === 'OrderPlaced')![1] as { orderId: string };
+
+    expect<unknown>(payloads.filter(([type]) => type === 'Checked' || type === 'Labelled')).toEqual([
+      ['Checked', { orderId: placed.orderId, passed: false }],
+      ['Labelled', { weight: 0, tags: [] }]
+    ]);
+  });
+
+  test('builds fresh machines for batches', () => {
+    const orders = loadSimulation(ORDERS);
+    orders.run({ seed: 1 });
+
+    expect(orders.createMachine().currentState).toBe('Idle');
+  });
+});
+
+describe('definition documents', () => {
+  test('survive a round trip through YAML and JSON', () => {
+    const definition = parseSimulationDefinition(ORDERS);
+
+    expect(parseSimulationDefinition(stringifySimulationDefinition(definition))).toEqual(definition);
+    expect(parseSimulationDefinition(stringifySimulationDefinition(definition, 'json'), 'json')).toEqual(definition);
+  });
+
+  test('list every problem with where it is', () => {
+    const definition = parseSimulationDefinition(ORDERS);
+
+    expect(issues({ ...definition, generators: [{ event: 'OrderPlaced', interArrival: { type: 'uniform' } }] })).toEqual([
+      'generators.0.interArrival.min: Required',
+      'generators.0.interArrival.max: Required'
+    ]);
+    expect(issues({
+      ...definition,
+      transitions: [{ from: 'Idle', to: 'Gone', on: 'OrderPlaced' }],
+      generators: [{ event: 'Missing' }]
+    })).toEqual(['transitions.0.to: unknown state "Gone"', 'generators.0.event: unknown event "Missing"']);
+    expect(() => parseSimulationDefinition('name: [')).toThrow(SimulationDefinitionError);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  ParallelStateMachine,
+  SimulationEngine,
+  definitionStateGraph,
+  stateGraph,
+  toDot,
+  toMermaid,
+  toPlantUml,
+  transitionCounts
+} from '../src/framework/index.js';
+import type { SimulationDefinition } from '../src/framework/index.js';
+import { TaskMachine, taskEvent } from './helpers.js';
+
+// Idle -> Busy twice and Busy -> Idle once; the edges to Closed are never taken
+const runTasks = () => {
+  const machine = new TaskMachine();
+  const engine = new SimulationEngine(machine);
+  engine.run({
+    startTime: 0,
+    onStart: () => {
+      engine.scheduleEvent(taskEvent('task', engine.context), 100);
+      engine.scheduleEvent(taskEvent('done', engine.context), 200);
+      engine.scheduleEvent(taskEvent('task', engine.context), 300);
+    }
+  });
+  return machine;
+};
+
+const review: SimulationDefinition = {
+  name: 'review',
+  initialState: 'Draft',
+  finalStates: ['Approved'],
+  states: [
+    { name: 'Draft' },
+    { name: 'Decision', initial: 'Approved' },
+    { name: 'Approved', parent: 'Decision' },
+    { name: 'Rejected', parent: 'Decision' }
+  ],
+  transitions: [
+    { from: 'Draft', to: 'Decision', on: 'Submit', guards: [{ path: 'extendedState.pages', op: 'gt', value: 0 }], probability: 0.5 },
+    { from: ['Approved', 'Rejected'], to: 'Draft', description: 'reopened' }
+  ]
+};
+
+describe('state graphs', () => {
+  test('take rules and uncovered allowed transitions from a machine', () => {
+    expect(stateGraph(new TaskMachine(), { finalStates: ['Closed'] })).toEqual({
+      nodes: [{ name: 'Idle' }, { name: 'Busy' }, { name: 'Closed' }],
+      edges: [
+        { from: 'Idle', to: 'Busy', event: 'task', guards: undefined, probability: undefined },
+        { from: 'Busy', to: 'Idle', event: 'done', guards: undefined, probability: undefined },
+        { from: 'Idle', to: 'Closed' },
+        { from: 'Busy', to: 'Closed' }
+      ],
+      initialState: 'Idle',
+      finalStates: ['Closed']
+    });
+  });
+
+  test('prefix the states of parallel regions', () => {
+    class Matter extends ParallelStateMachine {
+      protected handleEvent(): void {}
+    }
+    const machine = new Matter({
+      regions: {
+        billing: { initialState: 'Open', allowedTransitions: { Open: ['Paid'] } },
+        docs: { initialState: 'Missing', allowedTransitions: { Missing: ['Filed'] } }
+      }
+    });
+
+    const graph = stateGraph(machine);
+
+    expect(graph.nodes.map(node => [node.name, node.parent])).toEqual([
+      ['billing', undefined], ['billing.Open', 'billing'], ['billing.Paid', 'billing'],
+      ['docs', undefined], ['docs.Missing', 'docs'], ['docs.Filed', 'docs']
+    ]);
+    expect(graph.edges).toEqual([{ from: 'billing.Open', to: 'billing.Paid' }, { from: 'docs.Missing', to: 'docs.Filed' }]);
+  });
+
+  test('take guards and descriptions from definitions', () => {
+    const graph = definitionStateGraph(review);
+
+    expect(graph.edges.map(edge => [edge.from, edge.to, edge.event, edge.guards])).toEqual([
+      ['Draft', 'Decision', 'Submit', ['extendedState.pages gt 0']],
+      ['Approved', 'Draft', 'reopened', undefined],
+      ['Rejected', 'Draft', 'reopened', undefined]
+    ]);
+  });
+
+  test('count the transitions in the state history', () => {
+    expect(transitionCounts(runTasks())).toEqual({ 'Idle -> Busy': 2, 'Busy -> Idle': 1 });
+  });
+});
+
+describe('diagrams', () => {
+  test('render Mermaid with counts', () => {
+    const machine = runTasks();
+
+    expect(toMermaid(machine, { title: 'Tasks', overlay: { counts: transitionCounts(machine) } })).toBe([
+      '---',
+      'title: Tasks',
+      '---',
+      'stateDiagram-v2',
+      '  Idle',
+      '  Busy',
+      '  Closed',
+      '  [*] --> Idle',
+      '  Idle --> Busy : task ×2',
+      '  Busy --> Idle : done ×1',
+      '  Idle --> Closed : ×0',
+      '  Busy --> Closed : ×0'
+    ].join('\n'));
+  });
+
+  test('render PlantUML with unused transitions dashed', () => {
+    const machine = runTasks();
+
+    expect(toPlantUml(stateGraph(machine, { finalStates: ['Closed'] }), { overlay: { counts: transitionCounts(machine) } })).toBe([
+      '@startuml',
+      'state Idle',
+      'state Busy',
+      'state Closed',
+      '[*] --> Idle',
+      'Idle --> Busy : task ×2',
+      'Busy --> Idle : done ×1',
+      'Idle -[dashed]-> Closed : ×0',
+      'Busy -[dashed]-> Closed : ×0',
+      'Closed --> [*]',
+      '@enduml'
+    ].join('\n'));
+  });
+
+  test('render DOT with shares and line widths', () => {
+    const machine = runTasks();
+    const dot = toDot(stateGraph(machine, { finalStates: ['Closed'] }), {
+      direction: 'LR',
+      overlay: { counts: transitionCounts(machine), show: 'probabilities' }
+    });
+
+    expect(dot).toStartWith('digraph "StateMachine" {\n  rankdir=LR;');
+    expect(dot).toContain('"Closed" [peripheries=2];');
+    expect(dot).toContain('"Idle" -> "Busy" [label="task 100%", penwidth=4.00];');
+    expect(dot).toContain('"Busy" -> "Idle" [label="done 100%", penwidth=2.50];');
+    expect(dot).toContain('"Idle" -> "Closed" [label="0%", style=dashed, color=gray];');
+  });
+
+  test('nest compound states', () => {
+    const graph = definitionStateGraph(review);
+
+    expect(toMermaid(graph)).toContain('  state Decision {\n    [*] --> Approved\n    Approved\n    Rejected\n  }');
+    expect(toMermaid(graph)).toContain('  Draft --> Decision : Submit [extendedState.pages gt 0] p=0.5');
+    expect(toDot(graph)).toContain('"Draft" -> "Approved" [label="Submit [extendedState.pages gt 0] p=0.5", lhead="cluster_Decision"];');
+    expect(toPlantUml(graph)).toContain('state Decision {\n  [*] --> Approved\n  state Approved\n  state Rejected\n}');
+  });
+
+  test('count transitions inside a compound state towards its edges', () => {
+    const graph = definitionStateGraph(review);
+
+    expect(toMermaid(graph, { overlay: { counts: { 'Draft -> Approved': 3 } } })).toContain('Draft --> Decision : Submit [extendedState.pages gt 0] p=0.5 ×3');
+  });
+});
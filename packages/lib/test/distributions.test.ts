@@ -0,0 +1,58 @@
+import { describe, expect, test } from 'bun:test';
+import { SeededRandom, createDistribution, mean, toDistribution } from '../src/framework/index.js';
+import type { DistributionSpec } from '../src/framework/index.js';
+
+const specs: DistributionSpec[] = [
+  { type: 'constant', value: 3 },
+  { type: 'uniform', min: 2, max: 6 },
+  { type: 'exponential', rate: 0.5 },
+  { type: 'poisson', lambda: 4 },
+  { type: 'normal', mean: 10, stdDev: 2 },
+  { type: 'lognormal', mu: 0, sigma: 0.5 },
+  { type: 'triangular', min: 0, mode: 3, max: 9 },
+  { type: 'weibull', shape: 1.5, scale: 2 },
+  { type: 'empirical', values: [1, 2, 2, 7] },
+  { type: 'histogram', bins: [{ min: 0, max: 1, weight: 3 }, { min: 1, max: 5, weight: 1 }] },
+  { type: 'bernoulli', p: 0.3 }
+];
+
+describe('distributions', () => {
+  test.each(specs.map(spec => [spec.type, spec] as const))('%s samples average to its mean', (_, spec) => {
+    const distribution = createDistribution(spec);
+    const random = new SeededRandom(11);
+    const samples = Array.from({ length: 20_000 }, () => distribution.sample(random));
+
+    expect(Math.abs(mean(samples) - distribution.mean)).toBeLessThan(Math.max(0.05 * Math.abs(distribution.mean), 0.02));
+  });
+
+  test('samples reproducibly from a seeded source', () => {
+    const distribution = createDistribution({ type: 'normal', mean: 0, stdDev: 1 });
+    const draw = () => {
+      const random = new SeededRandom(5);
+      return [distribution.sample(random), distribution.sample(random)];
+    };
+
+    expect(draw()).toEqual(draw());
+  });
+
+  test('keeps uniform samples within bounds', () => {
+    const distribution = createDistribution({ type: 'uniform', min: 2, max: 6 });
+    const random = new SeededRandom(3);
+    const samples = Array.from({ length: 1_000 }, () => distribution.sample(random));
+
+    expect(Math.min(...samples)).toBeGreaterThanOrEqual(2);
+    expect(Math.max(...samples)).toBeLessThan(6);
+  });
+
+  test('rejects invalid parameters', () => {
+    expect(() => createDistribution({ type: 'bernoulli', p: 2 })).toThrow();
+    expect(() => createDistribution({ type: 'empirical', values: [] })).toThrow();
+  });
+
+  test('passes distributions through and builds specs', () => {
+    const distribution = createDistribution({ type: 'constant', value: 1 });
+
+    expect(toDistribution(distribution)).toBe(distribution);
+    expect(toDistribution({ type: 'constant', value: 1 }).spec).toEqual(distribution.spec);
+  });
+});
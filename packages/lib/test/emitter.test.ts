@@ -0,0 +1,70 @@
+import { describe, expect, spyOn, test } from 'bun:test';
+import { SimulationEngine, StopReason, TypedEmitter } from '../src/framework/index.js';
+import { TaskMachine, taskEvent } from './helpers.js';
+
+describe('TypedEmitter', () => {
+  test('subscribes, unsubscribes and listens once', () => {
+    const emitter = new TypedEmitter<{ ping: number }>();
+    const seen: string[] = [];
+    const off = emitter.on('ping', n => seen.push(`on ${n}`));
+    emitter.once('ping', n => seen.push(`once ${n}`));
+
+    emitter.emit('ping', 1);
+    off();
+    emitter.emit('ping', 2);
+
+    expect(seen).toEqual(['on 1', 'once 1']);
+    expect(emitter.hasListeners('ping')).toBe(false);
+  });
+
+  test('keeps calling listeners after one throws', () => {
+    const emitter = new TypedEmitter<{ ping: number }>();
+    const consoleError = spyOn(console, 'error').mockImplementation(() => {});
+    const seen: number[] = [];
+    emitter.on('ping', () => {
+      throw new Error('listener failed');
+    });
+    emitter.on('ping', n => seen.push(n));
+
+    emitter.emit('ping', 1);
+
+    expect(seen).toEqual([1]);
+    expect(consoleError).toHaveBeenCalledTimes(1);
+    consoleError.mockRestore();
+  });
+});
+
+describe('engine lifecycle events', () => {
+  test('are emitted in order with simulated times', () => {
+    const engine = new SimulationEngine(new TaskMachine());
+    const seen: string[] = [];
+    engine.on('start', ({ time, resumed }) => seen.push(`start ${time} ${resumed}`));
+    engine.on('eventProcessed', ({ event, state, time }) => seen.push(`event ${event.type} ${state} ${time}`));
+    engine.on('transition', ({ from, to, time }) => seen.push(`transition ${from}->${to} ${time}`));
+    engine.on('stop', ({ reason }) => seen.push(`stop ${reason}`));
+
+    engine.run({
+      startTime: 0,
+      onStart: () => engine.scheduleEvent(taskEvent('task', engine.context), 10)
+    });
+
+    expect(seen).toEqual([
+      'start 0 false',
+      'transition Idle->Busy 10',
+      'event task Busy 10',
+      `stop ${StopReason.AgendaEmpty}`
+    ]);
+  });
+
+  test('stop listening once unsubscribed', () => {
+    const engine = new SimulationEngine(new TaskMachine());
+    let starts = 0;
+    const listener = () => starts++;
+    engine.on('start', listener);
+    engine.run();
+    engine.off('start', listener);
+    engine.run();
+
+    expect(starts).toBe(1);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, test } from 'bun:test';
+import { ErrorAction, EventQueue, SimulationEngine, StopReason, resolveErrorAction, retryDelay } from '../src/framework/index.js';
+import type { ErrorPolicyLike, Event } from '../src/framework/index.js';
+import { TaskMachine, taskEvent } from './helpers.js';
+import type { TaskEvent } from './helpers.js';
+
+/**
+ * Fails the first `failures` times it handles a `task`
+ */
+class FlakyMachine extends TaskMachine {
+  attempts = 0;
+  private readonly failures: number;
+
+  constructor(failures: number) {
+    super();
+    this.failures = failures;
+  }
+
+  protected handleEvent(event: TaskEvent): void {
+    super.handleEvent(event);
+    if (event.type === 'task' && this.attempts++ < this.failures) {
+      throw new Error(`attempt ${this.attempts} failed`);
+    }
+  }
+}
+
+const runFlaky = (failures: number, errorPolicy: ErrorPolicyLike) => {
+  const machine = new FlakyMachine(failures);
+  const engine = new SimulationEngine(machine);
+  const actions: ErrorAction[] = [];
+  const times: number[] = [];
+  engine.on('error', ({ action, time }) => {
+    actions.push(action);
+    times.push(time);
+  });
+  const stats = engine.run({
+    startTime: 0,
+    errorPolicy,
+    onStart: () => {
+      engine.scheduleEvent(taskEvent('task', engine.context), 100);
+      engine.scheduleEvent(taskEvent('done', engine.context), 10_000);
+    }
+  });
+  return { machine, engine, stats, actions, times };
+};
+
+describe('error policies', () => {
+  test('skip carries on with the next event', () => {
+    const { machine, actions, stats } = runFlaky(1, ErrorAction.Skip);
+
+    expect(actions).toEqual([ErrorAction.Skip]);
+    expect(machine.handled.map(event => event.type)).toEqual(['task', 'done']);
+    expect(stats.stopReason).toBe(StopReason.AgendaEmpty);
+  });
+
+  test('retry processes the event again after the backoff', () => {
+    const { machine, actions, times } = runFlaky(2, { action: ErrorAction.Retry, backoff: { initial: 1_000 } });
+
+    expect(actions).toEqual([ErrorAction.Retry, ErrorAction.Retry]);
+    expect(times).toEqual([100, 1_100]);
+    expect(machine.handled.map(event => event.type)).toEqual(['task', 'task', 'task', 'done']);
+    expect(machine.extendedState.tasks).toBe(1);
+  });
+
+  test('retries that run out go to the dead-letter queue', () => {
+    const { engine, actions } = runFlaky(5, { action: ErrorAction.Retry, maxRetries: 1, backoff: { initial: 10 } });
+
+    expect(actions).toEqual([ErrorAction.Retry, ErrorAction.DeadLetter]);
+    expect(engine.deadLetters.toArray().map(failure => failure.attempts)).toEqual([2]);
+    expect(engine.deadLetters.toJSON()[0]?.error.message).toBe('attempt 2 failed');
+  });
+
+  test('dead letters are cleared by reset', () => {
+    const { engine } = runFlaky(5, ErrorAction.DeadLetter);
+    engine.reset();
+
+    expect(engine.deadLetters.size).toBe(0);
+  });
+
+  test('halt stops the run', () => {
+    const { machine, stats } = runFlaky(1, ErrorAction.Halt);
+
+    expect(stats.stopReason).toBe(StopReason.Error);
+    expect(machine.handled.map(event => event.type)).toEqual(['task']);
+  });
+
+  test('resolves actions and backoff delays', () => {
+    const policy = { action: ErrorAction.Retry, maxRetries: 2, backoff: { initial: 100, factor: 3, max: 500 } };
+    const failure = { event: { id: 'e', type: 'task', timestamp: '' }, error: null, state: 'Idle', time: 0, attempts: 3 };
+
+    expect(resolveErrorAction(policy, failure)).toBe(ErrorAction.DeadLetter);
+    expect(resolveErrorAction(policy, { ...failure, attempts: 2 })).toBe(ErrorAction.Retry);
+    expect([1, 2, 3].map(attempts => retryDelay(policy, attempts))).toEqual([100, 300, 500]);
+  });
+});
+
+describe('EventQueue error policies', () => {
+  const failing = (errorPolicy: ErrorPolicyLike, failures: number) => {
+    let now = 0;
+    const actions: ErrorAction[] = [];
+    const queue = new EventQueue<Event>(() => now, {}, { errorPolicy, onError: (_, __, action) => actions.push(action) });
+    const handled: string[] = [];
+    let calls = 0;
+    queue.on('work', event => {
+      handled.push(event.id);
+      if (calls++ < failures) {
+        throw new Error('handler failed');
+      }
+    });
+    queue.enqueue({ id: 'a', type: 'work', timestamp: '' });
+    queue.enqueue({ id: 'b', type: 'work', timestamp: '' });
+    return { queue, actions, handled, advance: (ms: number) => { now += ms; } };
+  };
+
+  test('retries failed events once their backoff has passed', () => {
+    const { queue, actions, handled, advance } = failing({ action: ErrorAction.Retry, backoff: { initial: 50 } }, 1);
+
+    queue.processAll();
+    expect(handled).toEqual(['a', 'b']);
+    expect(queue.nextDeliveryTime).toBe(50);
+
+    advance(50);
+    queue.processAll();
+    expect(handled).toEqual(['a', 'b', 'a']);
+    expect(actions).toEqual([ErrorAction.Retry]);
+  });
+
+  test('keeps dead letters', () => {
+    const { queue, handled } = failing(ErrorAction.DeadLetter, 1);
+
+    queue.processAll();
+
+    expect(handled).toEqual(['a', 'b']);
+    expect(queue.deadLetters.toArray().map(failure => failure.event.id)).toEqual(['a']);
+  });
+
+  test('halt leaves the rest of the queue', () => {
+    const { queue, handled } = failing(ErrorAction.Halt, 1);
+
+    queue.processAll();
+
+    expect(handled).toEqual(['a']);
+    expect(queue.size).toBe(1);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, test } from 'bun:test';
+import { EventLog, SimulationEngine, replay } from '../src/framework/index.js';
+import { TaskMachine, doneGenerator, taskGenerator } from './helpers.js';
+
+// Draws from the run's random source, so replays must restore it
+const coinFlipMachine = () => new TaskMachine({
+  transitions: [
+    { from: 'Idle', to: 'Busy', on: 'task', probability: 0.5 },
+    { from: 'Busy', to: 'Idle', on: 'done' }
+  ]
+});
+
+const record = () => {
+  const machine = coinFlipMachine();
+  const engine = new SimulationEngine(machine);
+  engine.run({ seed: 21, maxEvents: 200, eventGenerators: [taskGenerator, doneGenerator] });
+  return { machine, engine };
+};
+
+describe('event log', () => {
+  test('records every processed event in order', () => {
+    const { machine, engine } = record();
+
+    expect(engine.eventLog.size).toBe(200);
+    expect(engine.eventLog.toArray().map(entry => entry.event)).toEqual(machine.handled);
+    expect(engine.eventLog.get(1)?.seq).toBe(1);
+  });
+
+  test('is cleared by reset', () => {
+    const { engine } = record();
+    engine.reset();
+
+    expect(engine.eventLog.size).toBe(0);
+  });
+
+  test('replays to the same states and times', () => {
+    const { machine, engine } = record();
+
+    const result = replay(engine.eventLog, coinFlipMachine);
+
+    expect(result.eventsApplied).toBe(200);
+    expect(result.time).toBe(engine.clock.now);
+    expect(result.state).toBe(machine.currentState);
+    expect((result.machine as TaskMachine).stateHistory).toEqual(machine.stateHistory);
+  });
+
+  test('replays from serialized logs', () => {
+    const { engine } = record();
+    const data = JSON.parse(JSON.stringify(engine.eventLog));
+
+    expect(EventLog.fromJSON(data).toJSON()).toEqual(data);
+    expect(replay(data, coinFlipMachine).state).toBe(replay(engine.eventLog, coinFlipMachine).state);
+  });
+
+  test('stops early on request', () => {
+    const { engine } = record();
+    const states: string[] = [];
+
+    const result = replay(engine.eventLog, coinFlipMachine, {
+      until: 10,
+      onEvent: (_, machine) => states.push(machine.currentState)
+    });
+
+    expect(result.eventsApplied).toBe(10);
+    expect(states).toHaveLength(10);
+    expect(result.time).toBe(engine.eventLog.get(10)!.time);
+  });
+});
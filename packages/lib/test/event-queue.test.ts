@@ -0,0 +1,95 @@
+import { describe, expect, test } from 'bun:test';
+import { BinaryHeap, EventPriority, EventQueue } from '../src/framework/index.js';
+import type { Event } from '../src/framework/index.js';
+
+const event = (id: string, priority?: EventPriority): Event =>
+  ({ id, type: 'work', timestamp: '', ...(priority !== undefined && { priority }) });
+
+const drain = (queue: EventQueue) => {
+  const ids: string[] = [];
+  for (let next = queue.dequeue(); next; next = queue.dequeue()) {
+    ids.push(next.id);
+  }
+  return ids;
+};
+
+describe('BinaryHeap', () => {
+  test('pops items in comparator order', () => {
+    const heap = new BinaryHeap<number>((a, b) => a - b);
+    [5, 3, 9, 1, 7, 3, 8].forEach(value => heap.push(value));
+
+    const popped: number[] = [];
+    while (heap.size > 0) {
+      popped.push(heap.pop()!);
+    }
+
+    expect(popped).toEqual([1, 3, 3, 5, 7, 8, 9]);
+    expect(heap.pop()).toBeUndefined();
+  });
+
+  test('stays ordered under interleaved pushes and pops', () => {
+    const heap = new BinaryHeap<number>((a, b) => a - b);
+    const reference: number[] = [];
+    let seed = 1;
+    for (let i = 0; i < 500; i++) {
+      seed = (seed * 16807) % 2147483647;
+      if (seed % 3 === 0 && reference.length > 0) {
+        reference.sort((a, b) => a - b);
+        expect(heap.pop()).toBe(reference.shift()!);
+      } else {
+        heap.push(seed % 100);
+        reference.push(seed % 100);
+      }
+    }
+    expect(heap.size).toBe(reference.length);
+    expect(heap.peek()).toBe(Math.min(...reference));
+  });
+});
+
+describe('EventQueue ordering', () => {
+  test('dequeues by priority, then first in first out', () => {
+    const queue = new EventQueue();
+    queue.enqueue(event('low', EventPriority.Low));
+    queue.enqueue(event('medium-1'));
+    queue.enqueue(event('critical', EventPriority.Critical));
+    queue.enqueue(event('medium-2', EventPriority.Medium));
+    queue.enqueue(event('high', EventPriority.High));
+
+    expect(drain(queue)).toEqual(['critical', 'high', 'medium-1', 'medium-2', 'low']);
+  });
+
+  test('lets enqueue options override the priority', () => {
+    const queue = new EventQueue();
+    queue.enqueue(event('a', EventPriority.Critical), { priority: EventPriority.Low });
+    queue.enqueue(event('b'));
+
+    expect(drain(queue)).toEqual(['b', 'a']);
+  });
+
+  test('holds events back until they are due', () => {
+    let now = 0;
+    const queue = new EventQueue(() => now);
+    queue.enqueue(event('later', EventPriority.Critical), { deliverAt: 100 });
+    queue.enqueue(event('now', EventPriority.Low));
+
+    expect(drain(queue)).toEqual(['now']);
+    expect(queue.size).toBe(1);
+    expect(queue.nextDeliveryTime).toBe(100);
+
+    now = 100;
+    expect(drain(queue)).toEqual(['later']);
+    expect(queue.isEmpty).toBe(true);
+  });
+
+  test('calls type handlers before global ones', () => {
+    const queue = new EventQueue();
+    const calls: string[] = [];
+    queue.onAny(() => calls.push('any'));
+    queue.on('work', () => calls.push('work'));
+    queue.enqueue(event('a'));
+
+    queue.processAll();
+
+    expect(calls).toEqual(['work', 'any']);
+  });
+});
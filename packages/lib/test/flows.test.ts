@@ -0,0 +1,138 @@
+import { describe, expect, test } from 'bun:test';
+import { BaseStateMachine, SimulationEngine, StopReason, continueFlows, createSimulation, isPromiseLike } from '../src/framework/index.js';
+import type { Event, EventFlow } from '../src/framework/index.js';
+import { TaskMachine, taskEvent } from './helpers.js';
+import type { TaskEvent } from './helpers.js';
+
+/**
+ * Finishes every task `size` simulated milliseconds after it starts
+ */
+class DelayingMachine extends TaskMachine {
+  protected handleEvent(event: TaskEvent): void {
+    super.handleEvent(event);
+    if (event.type === 'task') {
+      this.emit('done', undefined, { delay: event.payload?.size ?? 0 });
+    }
+  }
+}
+
+/**
+ * Finishes every task once a promise settles, or rejects tasks of size 0
+ */
+class AsyncMachine extends TaskMachine {
+  protected async handleEvent(event: TaskEvent): Promise<void> {
+    super.handleEvent(event);
+    await Promise.resolve();
+    if (event.type !== 'task') {
+      return;
+    }
+    if (event.payload?.size === 0) {
+      throw new Error('empty task');
+    }
+    this.emit('done');
+  }
+}
+
+const scheduleTasks = (engine: SimulationEngine<string, TaskEvent>, ...sizes: number[]) => () => {
+  sizes.forEach((size, i) => engine.scheduleEvent(taskEvent('task', engine.context, size), 1_000 * (i + 1)));
+};
+
+describe('follow-up events', () => {
+  test('are processed after their delay', () => {
+    const machine = new DelayingMachine();
+    const engine = new SimulationEngine(machine);
+
+    engine.run({ startTime: 0, onStart: scheduleTasks(engine, 250) });
+
+    expect(engine.eventLog.toArray().map(entry => [entry.event.type, entry.time])).toEqual([['task', 1_000], ['done', 1_250]]);
+    expect(machine.currentState).toBe('Idle');
+  });
+});
+
+describe('async handlers', () => {
+  test('runAsync waits for each handler before moving on', async () => {
+    const machine = new AsyncMachine();
+    const engine = new SimulationEngine(machine);
+
+    const stats = await engine.runAsync({ startTime: 0, onStart: scheduleTasks(engine, 1, 2) });
+
+    expect(machine.handled.map(event => event.type)).toEqual(['task', 'done', 'task', 'done']);
+    expect(machine.extendedState.tasks).toBe(2);
+    expect(stats.stopReason).toBe(StopReason.AgendaEmpty);
+  });
+
+  test('run stops at the first handler that returns a promise', () => {
+    const engine = new SimulationEngine(new AsyncMachine());
+
+    expect(() => engine.run({ onStart: scheduleTasks(engine, 1) })).toThrow('use runAsync()');
+    expect(engine.stats.stopReason).toBe(StopReason.Error);
+  });
+
+  test('rejections are reported and the run carries on', async () => {
+    const machine = new AsyncMachine();
+    const engine = new SimulationEngine(machine);
+    const errors: unknown[] = [];
+    engine.on('error', ({ error }) => errors.push(error));
+
+    await engine.runAsync({ startTime: 0, onStart: scheduleTasks(engine, 0, 1) });
+
+    expect(errors).toEqual([new Error('empty task')]);
+    expect(machine.handled.map(event => event.type)).toEqual(['task', 'task', 'done']);
+  });
+
+  test('isPromiseLike recognizes thenables only', () => {
+    expect(isPromiseLike(Promise.resolve())).toBe(true);
+    expect(isPromiseLike({ then: () => {} })).toBe(true);
+    expect(isPromiseLike({ then: 1 })).toBe(false);
+    expect(isPromiseLike(undefined)).toBe(false);
+  });
+});
+
+describe('continueFlows', () => {
+  type ReviewEvent = Event<'open' | 'review' | 'close'>;
+
+  const flows: Array<EventFlow<ReviewEvent>> = [{
+    name: 'review',
+    startEvent: 'open',
+    endEvent: 'close',
+    steps: { open: ['review'], review: ['close'] },
+    stepDelay: { type: 'constant', value: 10 }
+  }];
+
+  class ReviewMachine extends BaseStateMachine<string, ReviewEvent> {
+    protected handleEvent(event: ReviewEvent): void {
+      continueFlows(flows, event, (type, payload, options) => this.emit(type, payload, options), this.context);
+    }
+  }
+
+  const runFlows = (...types: Array<ReviewEvent['type']>) => {
+    const engine = new SimulationEngine(new ReviewMachine({ initialState: 'Open', allowedTransitions: {} }));
+    engine.run({
+      startTime: 0,
+      onStart: () => types.forEach((type, i) => engine.scheduleEvent({ id: `e${i}`, type, timestamp: '' }, 100 * (i + 1)))
+    });
+    return engine.eventLog.toArray().map(entry => [entry.event.type, entry.time, entry.event.flow]);
+  };
+
+  test('steps from the start event to the end event', () => {
+    expect<unknown>(runFlows('open')).toEqual([['open', 100, undefined], ['review', 110, 'review'], ['close', 120, 'review']]);
+  });
+
+  test('leaves events outside the flow alone', () => {
+    expect<unknown>(runFlows('review', 'close')).toEqual([['review', 100, undefined], ['close', 200, undefined]]);
+  });
+
+  test('run from createSimulation handlers', () => {
+    const simulation = createSimulation<string, ReviewEvent>({
+      initialState: 'Open',
+      allowedTransitions: {},
+      handleEvent: (event, emit, context) => {
+        continueFlows(flows, event, emit, context);
+      }
+    });
+    const engine = new SimulationEngine(simulation.stateMachine);
+    engine.run({ startTime: 0, onStart: () => engine.scheduleEvent({ id: 'e0', type: 'open', timestamp: '' }, 100) });
+
+    expect(engine.eventLog.toArray().map(entry => entry.event.type)).toEqual(['open', 'review', 'close']);
+  });
+});
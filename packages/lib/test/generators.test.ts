@@ -0,0 +1,118 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  GeneratorTiming,
+  SimulationEngine,
+  StopReason,
+  nextCronTime,
+  nextScheduledTime,
+  registerGenerator
+} from '../src/framework/index.js';
+import { TaskMachine, doneGenerator, taskEvent, taskGenerator } from './helpers.js';
+
+describe('nextCronTime', () => {
+  test('finds the next matching minute', () => {
+    expect(nextCronTime('*/15 * * * *', Date.UTC(2025, 0, 1, 10, 7))).toBe(Date.UTC(2025, 0, 1, 10, 15));
+  });
+
+  test('is strictly after the given time', () => {
+    expect(nextCronTime('30 10 * * *', Date.UTC(2025, 0, 1, 10, 30))).toBe(Date.UTC(2025, 0, 2, 10, 30));
+  });
+
+  test('skips to the next weekday', () => {
+    // 3 January 2025 is a Friday
+    expect(nextCronTime('0 9 * * 1-5', Date.UTC(2025, 0, 3, 10))).toBe(Date.UTC(2025, 0, 6, 9));
+  });
+
+  test('matches either day field when both are restricted', () => {
+    // The 15th, or any Sunday (5 January 2025)
+    expect(nextCronTime('0 0 15 * 0', Date.UTC(2025, 0, 1))).toBe(Date.UTC(2025, 0, 5));
+  });
+
+  test('searches years ahead for rare dates', () => {
+    expect(nextCronTime('0 0 29 2 *', Date.UTC(2025, 0, 1))).toBe(Date.UTC(2028, 1, 29));
+  });
+
+  test('rejects expressions that never match', () => {
+    expect(() => nextCronTime('0 0 31 2 *', Date.UTC(2025, 0, 1))).toThrow();
+  });
+});
+
+describe('nextScheduledTime', () => {
+  test('aligns fixed periods to the origin', () => {
+    expect(nextScheduledTime({ every: 100 }, 0, 0)).toBe(100);
+    expect(nextScheduledTime({ every: 100 }, 250, 0)).toBe(300);
+    expect(nextScheduledTime({ every: 100, offset: 10 }, 0, 0)).toBe(10);
+    expect(nextScheduledTime({ every: 100, offset: 10 }, 10, 0)).toBe(110);
+  });
+});
+
+describe('generator registration', () => {
+  test('derives the timing from the registration', () => {
+    expect(registerGenerator(taskGenerator, 0).timing).toBe(GeneratorTiming.Shared);
+    expect(registerGenerator({ generate: taskGenerator, rate: 0.1 }, 0).timing).toBe(GeneratorTiming.Random);
+    expect(registerGenerator({ generate: taskGenerator, schedule: { every: 10 } }, 0).timing).toBe(GeneratorTiming.Scheduled);
+    expect(registerGenerator({ generate: taskGenerator, triggeredBy: ['task'] }, 0).timing).toBe(GeneratorTiming.Triggered);
+  });
+});
+
+describe('generator scheduling', () => {
+  test('fires scheduled generators on their own timeline', () => {
+    const machine = new TaskMachine();
+    const engine = new SimulationEngine(machine);
+    const times: number[] = [];
+    engine.on('eventProcessed', () => times.push(engine.clock.elapsed));
+
+    const stats = engine.run({
+      startTime: 0,
+      eventGenerators: [{ generate: taskGenerator, schedule: { every: 1_000 }, maxOccurrences: 3 }]
+    });
+
+    expect(times).toEqual([1_000, 2_000, 3_000]);
+    expect(stats.stopReason).toBe(StopReason.AgendaEmpty);
+  });
+
+  test('does not schedule the shared tick without a shared generator', () => {
+    const engine = new SimulationEngine(new TaskMachine());
+    let ticks = 0;
+    engine.on('tick', () => ticks++);
+
+    engine.run({ eventGenerators: [{ generate: taskGenerator, rate: 0.01, maxOccurrences: 5 }] });
+
+    expect(ticks).toBe(0);
+    expect(engine.stats.eventCount).toBe(5);
+  });
+
+  test('fires triggered generators right after their trigger', () => {
+    const machine = new TaskMachine();
+    const engine = new SimulationEngine(machine);
+
+    engine.run({
+      seed: 1,
+      eventGenerators: [
+        { generate: taskGenerator, schedule: { every: 1_000 }, maxOccurrences: 2 },
+        { generate: doneGenerator, triggeredBy: ['task'] }
+      ]
+    });
+
+    expect(machine.handled.map(event => event.type)).toEqual(['task', 'done', 'task', 'done']);
+    expect(machine.stateHistory.map(entry => entry.state)).toEqual(['Idle', 'Busy', 'Idle', 'Busy', 'Idle']);
+  });
+
+  test('skips generators disabled in the current state', () => {
+    const machine = new TaskMachine();
+    const engine = new SimulationEngine(machine);
+
+    engine.run({
+      seed: 1,
+      maxEvents: 20,
+      eventGenerators: [
+        { generate: taskGenerator, enabled: (state: string) => state === 'Idle' },
+        { generate: context => taskEvent('done', context), enabled: (state: string) => state === 'Busy' }
+      ]
+    });
+
+    const types = machine.handled.map(event => event.type);
+    expect(types.length).toBe(20);
+    expect(types.every((type, index) => type === (index % 2 === 0 ? 'task' : 'done'))).toBe(true);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Machine and generators shared by the framework tests
+ */
+
+import { BaseStateMachine } from '../src/framework/index.js';
+import type { Event, EventGenerator, SimulationContext, StateMachineConfig } from '../src/framework/index.js';
+
+export type TaskEvent = Event<'task' | 'done', { size?: number }>;
+
+/**
+ * Idle -> Busy on `task`, Busy -> Idle on `done`; records every event it handles
+ */
+export class TaskMachine extends BaseStateMachine<string, TaskEvent, { tasks: number }> {
+  readonly handled: TaskEvent[] = [];
+
+  constructor(config: Partial<StateMachineConfig<string, TaskEvent, { tasks: number }>> = {}) {
+    super({
+      initialState: 'Idle',
+      allowedTransitions: { Idle: ['Busy', 'Closed'], Busy: ['Idle', 'Closed'] },
+      transitions: [
+        { from: 'Idle', to: 'Busy', on: 'task', actions: [({ extendedState }) => ({ tasks: extendedState.tasks + 1 })] },
+        { from: 'Busy', to: 'Idle', on: 'done' }
+      ],
+      extendedState: { tasks: 0 },
+      ...config
+    });
+  }
+
+  protected handleEvent(event: TaskEvent): void {
+    this.handled.push(event);
+  }
+}
+
+/**
+ * Creates an event stamped from the run's context
+ */
+export function taskEvent(type: TaskEvent['type'], context: SimulationContext, size?: number): TaskEvent {
+  return {
+    id: context.ids.next('evt'),
+    type,
+    timestamp: context.clock.nowISO(),
+    payload: size === undefined ? {} : { size }
+  };
+}
+
+export const taskGenerator: EventGenerator<TaskEvent> = context => taskEvent('task', context, context.random.next());
+
+export const doneGenerator: EventGenerator<TaskEvent> = context => taskEvent('done', context);
@@ -0,0 +1,78 @@
+import { describe, expect, test } from 'bun:test';
+import { BaseStateMachine, SimulationEngine, StopReason } from '../src/framework/index.js';
+import { TaskMachine, taskEvent } from './helpers.js';
+
+const matter = () => new TaskMachine({
+  initialState: 'Intake',
+  allowedTransitions: {
+    Intake: ['Casework'],
+    Casework: ['ClientComms'],
+    Analysis: ['Strategy'],
+    Strategy: ['Drafting'],
+    ClientComms: ['Casework']
+  },
+  states: {
+    Casework: { initial: 'Analysis' },
+    Analysis: { parent: 'Casework' },
+    Strategy: { parent: 'Casework' },
+    Drafting: { parent: 'Casework' }
+  },
+  transitions: []
+});
+
+describe('hierarchical states', () => {
+  test('entering a compound state enters its initial child', () => {
+    const machine = matter();
+
+    expect(machine.transition('Casework')).toBe(true);
+    expect(machine.currentState).toBe('Casework.Analysis');
+    expect(machine.activePath).toEqual(['Casework', 'Analysis']);
+    expect(machine.stateValue).toBe('Casework.Analysis');
+    expect(machine.isIn('Casework')).toBe(true);
+  });
+
+  test('the engine stops on a final state anywhere on the active path', () => {
+    const machine = matter();
+    machine.transition('Casework');
+    const engine = new SimulationEngine(machine);
+
+    const stats = engine.run({
+      startTime: 0,
+      finalStates: ['Casework'],
+      onStart: () => engine.scheduleEvent(taskEvent('task', engine.context), 100)
+    });
+
+    expect(stats.stopReason).toBe(StopReason.FinalState);
+  });
+
+  test('children inherit the transitions of their parent', () => {
+    const machine = matter();
+    machine.transition('Casework');
+    machine.transition('Strategy');
+
+    expect(machine.canTransition('ClientComms')).toBe(true);
+    expect(machine.canTransition('Intake')).toBe(false);
+    machine.transition('ClientComms');
+    expect(machine.isIn('Casework')).toBe(false);
+  });
+
+  test('reset returns to the initial state', () => {
+    const machine = matter();
+    machine.transition('Casework');
+    machine.reset();
+
+    expect(machine.currentState).toBe('Intake');
+    expect(machine.stateHistory).toHaveLength(1);
+  });
+
+  test('reset returns to a falsy initial state', () => {
+    class Counter extends BaseStateMachine<number> {
+      protected handleEvent(): void {}
+    }
+    const machine = new Counter({ initialState: 0, allowedTransitions: { 0: ['1'] } });
+    machine.transition(1);
+    machine.reset();
+
+    expect(machine.currentState).toBe(0);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'bun:test';
+import { SimulationEngine } from '../src/framework/index.js';
+import { TaskMachine } from './helpers.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('state hooks', () => {
+  test('exit innermost first, then actions, then entry outermost first', () => {
+    const calls: string[] = [];
+    const machine = new TaskMachine({
+      initialState: 'Analysis',
+      allowedTransitions: {},
+      states: {
+        Casework: { initial: 'Analysis', onExit: () => calls.push('exit Casework') },
+        Analysis: { parent: 'Casework', onExit: () => calls.push('exit Analysis') },
+        Review: { initial: 'Checks', onEntry: () => calls.push('enter Review') },
+        Checks: { parent: 'Review', onEntry: () => calls.push('enter Checks') }
+      },
+      transitions: [{ from: 'Casework', to: 'Review', actions: [() => { calls.push('action'); }] }]
+    });
+
+    machine.transition('Review');
+
+    expect(calls).toEqual(['exit Analysis', 'exit Casework', 'action', 'enter Review', 'enter Checks']);
+  });
+
+  test('calls onLeaveState and onEnterState overrides', () => {
+    const calls: string[] = [];
+    class Hooked extends TaskMachine {
+      protected onLeaveState(state: string): void {
+        calls.push(`leave ${state}`);
+      }
+
+      protected onEnterState(state: string): void {
+        calls.push(`enter ${state}`);
+      }
+    }
+    const machine = new Hooked();
+
+    machine.transition('Busy');
+
+    expect(calls).toEqual(['leave Idle', 'enter Busy']);
+  });
+});
+
+describe('state timeouts', () => {
+  const waiting = () => new TaskMachine({
+    allowedTransitions: { Idle: ['Waiting'], Waiting: ['Idle', 'Escalated'] },
+    states: { Waiting: { after: [{ delay: 7 * DAY, event: 'waiting_timeout' }] } },
+    transitions: [{ from: 'Waiting', to: 'Escalated', on: 'waiting_timeout' }]
+  });
+
+  test('raise their event on the engine clock while the state is active', () => {
+    const machine = waiting();
+    const engine = new SimulationEngine(machine);
+
+    engine.run({ startTime: 0, onStart: () => machine.transition('Waiting') });
+
+    expect(machine.currentState).toBe('Escalated');
+    expect(engine.clock.now).toBe(7 * DAY);
+    expect(machine.handled[0]?.payload).toMatchObject({ state: 'Waiting', delay: 7 * DAY });
+  });
+
+  test('are cancelled when the state is left', () => {
+    const machine = waiting();
+    const engine = new SimulationEngine(machine);
+
+    engine.run({
+      startTime: 0,
+      onStart: () => {
+        machine.transition('Waiting');
+        machine.transition('Idle');
+      }
+    });
+
+    expect(machine.currentState).toBe('Idle');
+    expect(machine.handled).toHaveLength(0);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, test } from 'bun:test';
+import { MetricsCollector, SimulationEngine } from '../src/framework/index.js';
+import { TaskMachine, taskEvent } from './helpers.js';
+
+const collect = (sampleEvery?: number) => {
+  const machine = new TaskMachine();
+  const engine = new SimulationEngine(machine);
+  const metrics = new MetricsCollector(engine, { gauges: { tasks: (current: TaskMachine) => current.extendedState.tasks }, sampleEvery });
+
+  engine.run({
+    startTime: 0,
+    onStart: () => {
+      engine.scheduleEvent(taskEvent('task', engine.context), 100);
+      engine.scheduleEvent(taskEvent('done', engine.context), 300);
+      engine.scheduleEvent(taskEvent('task', engine.context), 600);
+      // Busy has no rule for `task`, so this one leaves the state alone
+      engine.scheduleEvent(taskEvent('task', engine.context), 1_000);
+    }
+  });
+  return { engine, metrics };
+};
+
+describe('MetricsCollector', () => {
+  test('counts events, transitions and time in state', () => {
+    const summary = collect().metrics.summary();
+
+    expect(summary.eventCount).toBe(4);
+    expect(summary.eventsByType).toEqual({ task: 3, done: 1 });
+    expect(summary.transitions).toEqual({ 'Idle -> Busy': 2, 'Busy -> Idle': 1 });
+    expect(summary.timeInState).toEqual({ Idle: 400, Busy: 600 });
+  });
+
+  test('records gauges as time series', () => {
+    const { metrics } = collect();
+
+    expect(metrics.series('tasks')).toEqual([
+      { time: 100, value: 1 },
+      { time: 300, value: 1 },
+      { time: 600, value: 2 },
+      { time: 1_000, value: 2 }
+    ]);
+    expect(metrics.summary().series['tasks']?.max).toBe(2);
+    expect(metrics.series('queueDepth').map(sample => sample.value)).toEqual([3, 2, 1, 0]);
+  });
+
+  test('samples every n-th event', () => {
+    expect(collect(2).metrics.series('tasks').map(sample => sample.time)).toEqual([300, 1_000]);
+  });
+
+  test('exports CSV in long form', () => {
+    const [header, first] = collect().metrics.toCSV().split('\n');
+
+    expect(header).toBe('metric,time,timeISO,value');
+    expect(first).toMatch(/^handlerLatency,100,1970-01-01T00:00:00.100Z,/);
+  });
+
+  test('starts over on a new run', () => {
+    const { engine, metrics } = collect();
+    engine.run({ startTime: 0 });
+
+    expect(metrics.summary().eventCount).toBe(0);
+  });
+});
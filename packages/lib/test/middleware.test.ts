@@ -0,0 +1,103 @@
+import { describe, expect, test } from 'bun:test';
+import { SimulationEngine, redactPayload, validateEvents, virtualTimestamps } from '../src/framework/index.js';
+import type { EventMiddleware } from '../src/framework/index.js';
+import { TaskMachine, taskEvent } from './helpers.js';
+import type { TaskEvent } from './helpers.js';
+
+const runWith = (...middleware: Array<EventMiddleware<TaskEvent, string>>) => {
+  const machine = new TaskMachine();
+  const engine = new SimulationEngine(machine);
+  middleware.forEach(m => engine.use(m));
+  engine.run({
+    startTime: 0,
+    onStart: () => {
+      engine.scheduleEvent(taskEvent('task', engine.context, 3), 100);
+      engine.scheduleEvent(taskEvent('done', engine.context), 200);
+    }
+  });
+  return { machine, engine };
+};
+
+describe('middleware', () => {
+  test('wraps processing: before in order, after in reverse', () => {
+    const calls: string[] = [];
+    const trace = (name: string): EventMiddleware<TaskEvent, string> => ({
+      before: (event, { state }) => {
+        calls.push(`${name} before ${event.type} in ${state}`);
+      },
+      after: (event, { state }) => {
+        calls.push(`${name} after ${event.type} in ${state}`);
+      }
+    });
+
+    runWith(trace('outer'), trace('inner'));
+
+    expect(calls.slice(0, 4)).toEqual([
+      'outer before task in Idle',
+      'inner before task in Idle',
+      'inner after task in Busy',
+      'outer after task in Busy'
+    ]);
+  });
+
+  test('drops events and reports them', () => {
+    const reasons: string[] = [];
+    const { machine, engine } = runWith(validateEvents(
+      event => event.type === 'task' || 'only tasks',
+      (_, reason) => reasons.push(reason)
+    ));
+
+    expect(machine.handled.map(event => event.type)).toEqual(['task']);
+    expect(reasons).toEqual(['only tasks']);
+    expect(engine.stats.eventCount).toBe(1);
+  });
+
+  test('replaces events before the machine sees them', () => {
+    const { machine } = runWith(redactPayload(['size']), virtualTimestamps());
+
+    expect<unknown>(machine.handled[0]?.payload).toEqual({ size: '[REDACTED]' });
+    expect(machine.handled.map(event => event.timestamp)).toEqual([
+      new Date(100).toISOString(),
+      new Date(200).toISOString()
+    ]);
+  });
+
+  test('can be removed again', () => {
+    const seen: string[] = [];
+    const machine = new TaskMachine();
+    const engine = new SimulationEngine(machine);
+    const remove = engine.use({ before: event => { seen.push(event.id); } });
+    remove();
+
+    engine.run({ onStart: () => engine.injectEvent(taskEvent('task', engine.context)) });
+
+    expect(seen).toEqual([]);
+    expect(machine.handled).toHaveLength(1);
+  });
+
+  test('run after hooks for events that failed', async () => {
+    class FailingMachine extends TaskMachine {
+      processEvent(event: TaskEvent): void | Promise<void> {
+        if (event.type === 'task') {
+          throw new Error('rejected task');
+        }
+        return Promise.reject(new Error('rejected done'));
+      }
+    }
+    const engine = new SimulationEngine(new FailingMachine());
+    const after: string[] = [];
+    engine.use({ after: event => after.push(event.type) });
+    engine.on('error', () => {});
+
+    await engine.runAsync({
+      startTime: 0,
+      onStart: () => {
+        engine.scheduleEvent(taskEvent('task', engine.context), 100);
+        engine.scheduleEvent(taskEvent('done', engine.context), 200);
+      }
+    });
+
+    expect(after).toEqual(['task', 'done']);
+    expect(engine.stats.eventCount).toBe(0);
+  });
+});
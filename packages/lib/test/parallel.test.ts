@@ -0,0 +1,88 @@
+import { describe, expect, test } from 'bun:test';
+import { ParallelStateMachine, SimulationEngine, StopReason } from '../src/framework/index.js';
+import type { Event } from '../src/framework/index.js';
+
+const event = (type: string): Event => ({ id: type, type, timestamp: '' });
+
+const matter = () => new ParallelStateMachine<Event, { missedInvoices: number }>({
+  extendedState: { missedInvoices: 0 },
+  regions: {
+    phase: {
+      initialState: 'Intake',
+      allowedTransitions: { Intake: ['Research'], Research: ['Drafting'] },
+      transitions: [{ from: 'Intake', to: 'Research', on: 'doc_uploaded' }]
+    },
+    billing: {
+      initialState: 'Current',
+      allowedTransitions: { Current: ['Overdue'], Overdue: ['Current'] },
+      transitions: [{
+        from: 'Current',
+        to: 'Overdue',
+        on: 'payment_issue',
+        actions: [({ extendedState }) => ({ missedInvoices: extendedState.missedInvoices + 1 })]
+      }]
+    }
+  }
+});
+
+describe('ParallelStateMachine', () => {
+  test('offers every event to each region', () => {
+    const machine = matter();
+    machine.processEvent(event('doc_uploaded'));
+    machine.processEvent(event('payment_issue'));
+
+    expect(machine.currentState).toEqual({ phase: 'Research', billing: 'Overdue' });
+    expect(machine.extendedState.missedInvoices).toBe(1);
+  });
+
+  test('reports which region moved', () => {
+    const machine = matter();
+    const moved: string[] = [];
+    machine.on('transition', ({ region }) => moved.push(region ?? ''));
+
+    machine.processEvent(event('payment_issue'));
+
+    expect(moved).toEqual(['billing']);
+  });
+
+  test('takes multi-region transitions all or nothing', () => {
+    const machine = matter();
+
+    expect(machine.transition({ phase: 'Drafting', billing: 'Overdue' })).toBe(false);
+    expect(machine.currentState).toEqual({ phase: 'Intake', billing: 'Current' });
+    expect(machine.transition({ phase: 'Research', billing: 'Overdue' })).toBe(true);
+    expect(machine.currentState).toEqual({ phase: 'Research', billing: 'Overdue' });
+  });
+
+  test('runs on the engine', () => {
+    const machine = matter();
+    const engine = new SimulationEngine(machine);
+
+    engine.run({
+      onStart: () => {
+        engine.scheduleEvent(event('doc_uploaded'), 10);
+        engine.scheduleEvent(event('payment_issue'), 20);
+      }
+    });
+
+    expect(engine.stats.currentState).toEqual({ phase: 'Research', billing: 'Overdue' });
+    expect(machine.region('billing').stateHistory.map(entry => entry.state)).toEqual(['Current', 'Overdue']);
+  });
+
+  test('stops once any region reaches a final state', () => {
+    const runUntil = (finalStates: string[]) => {
+      const engine = new SimulationEngine(matter());
+      return engine.run({
+        finalStates,
+        onStart: () => {
+          engine.scheduleEvent(event('payment_issue'), 10);
+          engine.scheduleEvent(event('doc_uploaded'), 20);
+        }
+      });
+    };
+
+    expect(runUntil(['Overdue'])).toMatchObject({ stopReason: StopReason.FinalState, eventCount: 1 });
+    expect(runUntil(['phase.Research'])).toMatchObject({ stopReason: StopReason.FinalState, eventCount: 2 });
+    expect(runUntil(['billing.Research']).stopReason).toBe(StopReason.AgendaEmpty);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, test } from 'bun:test';
+import { MetricsCollector, SimulationEngine, renderPrometheus, serveMetrics } from '../src/framework/index.js';
+import { TaskMachine, taskEvent } from './helpers.js';
+
+const finishedRun = () => {
+  const engine = new SimulationEngine(new TaskMachine());
+  const collector = new MetricsCollector(engine);
+  engine.run({ startTime: 0, onStart: () => engine.scheduleEvent(taskEvent('task', engine.context), 2_000) });
+  return { engine, collector };
+};
+
+describe('renderPrometheus', () => {
+  test('exposes state, counters and time in state', () => {
+    const { engine, collector } = finishedRun();
+    const text = renderPrometheus(engine, collector, { prefix: 'sim', labels: { simulation: 'tasks' } });
+
+    expect(text).toContain('# TYPE sim_events_processed_total counter');
+    expect(text).toContain('sim_status{simulation="tasks",status="stopped"} 1');
+    expect(text).toContain('sim_current_state{simulation="tasks",state="Busy"} 1');
+    expect(text).toContain('sim_events_processed_total{simulation="tasks",type="task"} 1');
+    expect(text).toContain('sim_transitions_total{simulation="tasks",from="Idle",to="Busy"} 1');
+    expect(text).toContain('sim_time_in_state_seconds{simulation="tasks",state="Idle"} 2');
+  });
+});
+
+describe('serveMetrics', () => {
+  test('serves GET /metrics and 404 elsewhere', async () => {
+    const { engine, collector } = finishedRun();
+    const server = serveMetrics(engine, { port: 0, collector });
+    try {
+      await server.ready;
+      const metrics = await fetch(server.url);
+      const other = await fetch(server.url.replace('/metrics', '/other'));
+
+      expect(metrics.status).toBe(200);
+      expect(metrics.headers.get('content-type')).toStartWith('text/plain; version=0.0.4');
+      expect(await metrics.text()).toContain('simulation_current_state{state="Busy"} 1');
+      expect(other.status).toBe(404);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test('rejects ready when the port is taken, and still closes', async () => {
+    const engine = new SimulationEngine(new TaskMachine());
+    const first = serveMetrics(engine, { port: 0 });
+    await first.ready;
+    const port = Number(new URL(first.url).port);
+    const second = serveMetrics(engine, { port });
+    try {
+      await expect(second.ready).rejects.toThrow();
+      await second.close();
+    } finally {
+      await first.close();
+    }
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, test } from 'bun:test';
+import { SeededRandom, SimulationEngine } from '../src/framework/index.js';
+import { TaskMachine, doneGenerator, taskGenerator } from './helpers.js';
+
+describe('SeededRandom', () => {
+  test('repeats the sequence for the same seed', () => {
+    const a = new SeededRandom(42);
+    const b = new SeededRandom(42);
+    const draws = Array.from({ length: 5 }, () => a.next());
+
+    expect(Array.from({ length: 5 }, () => b.next())).toEqual(draws);
+    expect(draws.every(value => value >= 0 && value < 1)).toBe(true);
+    expect(new SeededRandom(43).next()).not.toBe(draws[0]!);
+  });
+
+  test('continues from a saved state', () => {
+    const random = new SeededRandom(7);
+    random.next();
+    const state = random.getState();
+    const expected = [random.next(), random.next()];
+
+    const resumed = new SeededRandom(0);
+    resumed.setState(state);
+    expect([resumed.next(), resumed.next()]).toEqual(expected);
+  });
+});
+
+describe('seeded runs', () => {
+  const runWith = (seed: number) => {
+    const machine = new TaskMachine();
+    new SimulationEngine(machine).run({ seed, maxEvents: 50, eventGenerators: [taskGenerator, doneGenerator] });
+    return { events: machine.handled, history: machine.stateHistory };
+  };
+
+  test('reproduce events, IDs, timestamps and states', () => {
+    expect(runWith(1)).toEqual(runWith(1));
+  });
+
+  test('differ between seeds', () => {
+    expect(runWith(1).events).not.toEqual(runWith(2).events);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  ErrorAction,
+  ParallelStateMachine,
+  PayloadValidationError,
+  SimulationEngine,
+  definePayloadSchemas,
+  validatePayload,
+  z
+} from '../src/framework/index.js';
+import type { SchemaEvent } from '../src/framework/index.js';
+import { TaskMachine } from './helpers.js';
+import type { TaskEvent } from './helpers.js';
+
+const schemas = definePayloadSchemas({
+  task: z.object({ size: z.number().positive() }),
+  done: z.object({}).optional()
+});
+
+type ScheduleEvent = SchemaEvent<typeof schemas>;
+
+// Payloads are built loosely on purpose, to get past the compile-time types
+const task = (size: unknown) => ({ id: `task-${String(size)}`, type: 'task', timestamp: '', payload: { size } }) as TaskEvent;
+
+describe('validatePayload', () => {
+  test('lists every problem with the payload', () => {
+    const error = (() => {
+      try {
+        validatePayload(schemas, task(-1));
+      } catch (caught) {
+        return caught;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(PayloadValidationError);
+    expect((error as PayloadValidationError).eventType).toBe('task');
+    expect((error as PayloadValidationError).message).toBe('Invalid payload for event task (task--1): size: Number must be greater than 0');
+  });
+
+  test('passes valid payloads and types without a schema', () => {
+    expect(() => validatePayload(schemas, task(2))).not.toThrow();
+    expect(() => validatePayload(schemas, { id: 'x', type: 'other', timestamp: '', payload: 'anything' })).not.toThrow();
+  });
+
+  test('infers payload types from the schemas', () => {
+    const event: ScheduleEvent = { id: 'a', type: 'task', timestamp: '', payload: { size: 1 } };
+    expect(event.payload).toEqual({ size: 1 });
+  });
+});
+
+describe('payload validation in machines and engines', () => {
+  test('rejects invalid events where they are created', () => {
+    const machine = new TaskMachine({ payloadSchemas: schemas });
+    const engine = new SimulationEngine(machine);
+
+    expect(() => machine.queueEvent(task('big'))).toThrow(PayloadValidationError);
+    expect(() => engine.injectEvent(task(0))).toThrow(PayloadValidationError);
+  });
+
+  test('hands invalid generated events to the error policy', () => {
+    const machine = new TaskMachine({ payloadSchemas: schemas });
+    const engine = new SimulationEngine(machine);
+    engine.on('error', () => {});
+
+    engine.run({
+      errorPolicy: ErrorAction.DeadLetter,
+      eventGenerators: [{ generate: () => task(-5), maxOccurrences: 1 }]
+    });
+
+    expect(machine.handled).toHaveLength(0);
+    expect(engine.deadLetters.toArray()[0]?.error).toBeInstanceOf(PayloadValidationError);
+  });
+});
+
+describe('parallel machines', () => {
+  const parallel = (handleEvent?: () => void) => {
+    class Matter extends ParallelStateMachine {
+      protected handleEvent(): void {
+        handleEvent?.();
+      }
+    }
+    const machine = new Matter({
+      payloadSchemas: schemas,
+      regions: {
+        work: {
+          initialState: 'Idle',
+          allowedTransitions: { Idle: ['Busy'] },
+          transitions: [{ from: 'Idle', to: 'Busy', on: 'task' }]
+        }
+      }
+    });
+    machine.on('error', () => {});
+    return machine;
+  };
+
+  test('keep events with invalid payloads from the regions', () => {
+    const machine = parallel();
+    machine.processEvent(task(-1));
+
+    expect(machine.currentState).toEqual({ work: 'Idle' });
+  });
+
+  test('keep events whose handler failed from the regions', async () => {
+    const failing = parallel(() => {
+      throw new Error('handler failed');
+    });
+    failing.processEvent(task(1));
+    expect(failing.currentState).toEqual({ work: 'Idle' });
+
+    class Rejecting extends ParallelStateMachine {
+      protected async handleEvent(): Promise<void> {
+        throw new Error('handler failed');
+      }
+    }
+    const rejecting = new Rejecting({ regions: { work: { initialState: 'Idle', allowedTransitions: {}, transitions: [{ from: 'Idle', to: 'Busy', on: 'task' }] } } });
+    rejecting.on('error', () => {});
+    await rejecting.processEvent(task(1));
+
+    expect(rejecting.currentState).toEqual({ work: 'Idle' });
+  });
+});
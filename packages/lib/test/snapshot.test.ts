@@ -0,0 +1,71 @@
+import { describe, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SimulationEngine, StopReason, loadSnapshot, saveSnapshot } from '../src/framework/index.js';
+import type { EngineSnapshot, SimulationOptions } from '../src/framework/index.js';
+import { TaskMachine, doneGenerator, taskGenerator } from './helpers.js';
+import type { TaskEvent } from './helpers.js';
+
+const options: SimulationOptions = {
+  seed: 9,
+  eventGenerators: [taskGenerator, { generate: doneGenerator, rate: 0.001 }]
+};
+
+const outcome = (machine: TaskMachine, engine: SimulationEngine<string, TaskEvent>) => ({
+  state: machine.currentState,
+  extendedState: machine.extendedState,
+  history: machine.stateHistory,
+  now: engine.clock.now
+});
+
+/**
+ * Resumes a snapshot in a fresh engine and waits for the run to stop
+ */
+function resume(snapshot: EngineSnapshot<string, TaskEvent>, maxEvents: number): Promise<{ machine: TaskMachine; engine: SimulationEngine<string, TaskEvent> }> {
+  const machine = new TaskMachine();
+  const engine = new SimulationEngine(machine);
+  return new Promise(resolve => {
+    engine.restore(snapshot, { ...options, maxEvents, onStop: () => resolve({ machine, engine }) });
+  });
+}
+
+describe('snapshots', () => {
+  test('resume a run exactly where it was taken', async () => {
+    const straight = new TaskMachine();
+    const straightEngine = new SimulationEngine(straight);
+    straightEngine.run({ ...options, maxEvents: 60 });
+
+    const interrupted = new SimulationEngine(new TaskMachine());
+    interrupted.run({ ...options, maxEvents: 25 });
+    const snapshot = JSON.parse(JSON.stringify(interrupted.snapshot()));
+
+    const { machine, engine } = await resume(snapshot, 60);
+
+    expect(engine.stats.stopReason).toBe(StopReason.MaxEvents);
+    expect(outcome(machine, engine)).toEqual(outcome(straight, straightEngine));
+  });
+
+  test('round-trip through checkpoint files', () => {
+    const directory = mkdtempSync(join(tmpdir(), 'sim-snapshot-'));
+    try {
+      const path = join(directory, 'run.json');
+      const engine = new SimulationEngine(new TaskMachine());
+      engine.run({ ...options, maxEvents: 10, checkpoint: { path, everyEvents: 5 } });
+
+      expect(loadSnapshot(path)).toEqual(JSON.parse(JSON.stringify(engine.snapshot())));
+
+      saveSnapshot(path, engine.snapshot());
+      expect(loadSnapshot(path).eventCount).toBe(10);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  test('rejects snapshots of other versions', () => {
+    const engine = new SimulationEngine(new TaskMachine());
+    engine.run({ ...options, maxEvents: 1 });
+
+    expect(() => engine.restore({ ...engine.snapshot(), version: 0 })).toThrow('Unsupported snapshot version 0');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'bun:test';
+import { SimulationEngine, StopReason } from '../src/framework/index.js';
+import type { SimulationOptions } from '../src/framework/index.js';
+import { TaskMachine, doneGenerator, taskGenerator } from './helpers.js';
+import type { TaskEvent } from './helpers.js';
+
+const run = (options: SimulationOptions<string, TaskEvent>) => {
+  const machine = new TaskMachine();
+  const engine = new SimulationEngine(machine);
+  const stats = engine.run({
+    seed: 5,
+    startTime: 0,
+    minInterval: 100,
+    maxInterval: 100,
+    eventGenerators: [taskGenerator, doneGenerator],
+    ...options
+  });
+  return { machine, engine, stats };
+};
+
+describe('stop conditions', () => {
+  test('maxEvents', () => {
+    const { stats } = run({ maxEvents: 7 });
+
+    expect(stats.stopReason).toBe(StopReason.MaxEvents);
+    expect(stats.eventCount).toBe(7);
+  });
+
+  test('final states', () => {
+    const { stats } = run({ finalStates: ['Busy'] });
+
+    expect(stats.stopReason).toBe(StopReason.FinalState);
+    expect(stats.currentState).toBe('Busy');
+  });
+
+  test('time horizon leaves later work on the agenda', () => {
+    const { stats, engine } = run({ timeHorizon: 1_050 });
+
+    expect(stats.stopReason).toBe(StopReason.TimeHorizon);
+    expect(stats.eventCount).toBe(10);
+    expect(engine.clock.now).toBeLessThanOrEqual(1_050);
+    expect(engine.agendaSize).toBeGreaterThan(0);
+  });
+
+  test('predicate over the machine and the stats', () => {
+    const { stats, machine } = run({ stopWhen: (current, { eventCount }) => current.currentState === 'Busy' && eventCount > 4 });
+
+    expect(stats.stopReason).toBe(StopReason.Predicate);
+    expect(machine.currentState).toBe('Busy');
+    expect(stats.eventCount).toBeGreaterThan(4);
+  });
+
+  test('steady state', () => {
+    const { stats } = run({ steadyState: { measure: () => 1, window: 5, tolerance: 0 } });
+
+    expect(stats.stopReason).toBe(StopReason.SteadyState);
+    expect(stats.eventCount).toBe(5);
+  });
+
+  test('manual stop', () => {
+    const engine = new SimulationEngine(new TaskMachine());
+    engine.on('eventProcessed', () => engine.stop());
+
+    expect(engine.run({ eventGenerators: [taskGenerator] }).stopReason).toBe(StopReason.Manual);
+  });
+
+  test('reports the reason to onStop', () => {
+    const reasons: StopReason[] = [];
+    run({ maxEvents: 1, onStop: reason => reasons.push(reason) });
+
+    expect(reasons).toEqual([StopReason.MaxEvents]);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  SeededRandom,
+  SensitivityMethod,
+  SweepDesign,
+  gridDesign,
+  latinHypercubeDesign,
+  oneAtATimeDesign,
+  runSweep,
+  sweepToCSV,
+  toCSV
+} from '../src/framework/index.js';
+import type { ParameterSet, ParameterSpace } from '../src/framework/index.js';
+import { TaskMachine } from './helpers.js';
+
+const space: ParameterSpace = {
+  load: { min: 0, max: 10, levels: 3 },
+  team: { values: ['small', 'large'] }
+};
+
+// Only `load` affects the outcome
+const sweep = (design: SweepDesign) => runSweep({
+  parameters: space,
+  design,
+  samples: 12,
+  createMachine: (parameters: ParameterSet) => new TaskMachine({ extendedState: { tasks: Number(parameters['load']) } }),
+  simulation: () => ({ maxEvents: 1 }),
+  metrics: { tasks: machine => machine.extendedState.tasks }
+});
+
+describe('designs', () => {
+  test('grid covers every combination', () => {
+    expect(gridDesign(space)).toEqual([
+      { load: 0, team: 'small' }, { load: 0, team: 'large' },
+      { load: 5, team: 'small' }, { load: 5, team: 'large' },
+      { load: 10, team: 'small' }, { load: 10, team: 'large' }
+    ]);
+  });
+
+  test('Latin hypercubes use every stratum once', () => {
+    const sets = latinHypercubeDesign({ load: { min: 0, max: 10 } }, 5, new SeededRandom(4));
+    const strata = sets.map(set => Math.floor(Number(set['load']) / 2)).sort();
+
+    expect(strata).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  test('one-at-a-time moves a single parameter from the baseline', () => {
+    expect(oneAtATimeDesign(space, { load: 5, team: 'small' })).toEqual([
+      { load: 5, team: 'small' },
+      { load: 0, team: 'small' },
+      { load: 10, team: 'small' },
+      { load: 5, team: 'large' }
+    ]);
+  });
+});
+
+describe('runSweep', () => {
+  test('ranks parameters by first-order influence', () => {
+    const result = sweep(SweepDesign.Grid);
+
+    expect(result.points.map(point => point.metrics['tasks'])).toEqual([0, 0, 5, 5, 10, 10]);
+    expect(result.sensitivity['tasks']?.map(entry => entry.parameter)).toEqual(['load', 'team']);
+    expect(result.sensitivity['tasks']?.[0]?.method).toBe(SensitivityMethod.FirstOrder);
+    expect(result.sensitivity['tasks']?.[0]?.influence).toBeCloseTo(1, 10);
+    expect(result.sensitivity['tasks']?.[1]?.influence).toBe(0);
+  });
+
+  test('ranks one-at-a-time designs by spread', () => {
+    const result = sweep(SweepDesign.OneAtATime);
+
+    expect(result.sensitivity['tasks']?.[0]).toMatchObject({ parameter: 'load', influence: 10, method: SensitivityMethod.OneAtATime });
+  });
+
+  test('samples Latin hypercube designs reproducibly', () => {
+    const result = sweep(SweepDesign.LatinHypercube);
+
+    expect(result.points).toHaveLength(12);
+    expect(result.points).toEqual(sweep(SweepDesign.LatinHypercube).points);
+  });
+
+  test('formats points as CSV', () => {
+    expect(sweepToCSV(sweep(SweepDesign.Grid)).split('\n')[0]).toBe('point,load,team,tasks');
+  });
+});
+
+describe('toCSV', () => {
+  test('quotes cells that need it', () => {
+    expect(toCSV(['a', 'b'], [['plain', 'with, comma'], ['say "hi"', 1]]))
+      .toBe('a,b\nplain,"with, comma"\n"say ""hi""",1\n');
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, test } from 'bun:test';
+import { HistoryNavigator, applyChanges, diffValues } from '../src/framework/index.js';
+import { TaskMachine } from './helpers.js';
+import type { TaskEvent } from './helpers.js';
+
+const event = (type: TaskEvent['type'], id: string): TaskEvent => ({ id, type, timestamp: '' });
+
+/**
+ * Four steps: task, done, task, done, leaving `tasks` at 2
+ */
+const recorded = () => {
+  const machine = new TaskMachine({ recordSteps: true });
+  ['task', 'done', 'task', 'done'].forEach((type, index) =>
+    machine.processEvent(event(type as TaskEvent['type'], `e${index + 1}`)));
+  return machine;
+};
+
+describe('diffValues', () => {
+  test('round-trips nested changes in both directions', () => {
+    const before: Record<string, unknown> = { tasks: 1, tags: ['a'], owner: { name: 'Ada' } };
+    const after: Record<string, unknown> = { tasks: 2, tags: ['a', 'b'], owner: { name: 'Grace' }, closed: true };
+    const changes = diffValues(before, after);
+
+    expect(applyChanges(structuredClone(before), changes)).toEqual(after);
+    expect(applyChanges(structuredClone(after), changes, 'backward')).toEqual(before);
+  });
+});
+
+describe('time travel', () => {
+  test('records one step per event', () => {
+    const machine = recorded();
+
+    expect(machine.steps.map(step => [step.event.id, step.stateBefore, step.stateAfter])).toEqual([
+      ['e1', 'Idle', 'Busy'],
+      ['e2', 'Busy', 'Idle'],
+      ['e3', 'Idle', 'Busy'],
+      ['e4', 'Busy', 'Idle']
+    ]);
+    expect(machine.stateAt(3)).toBe('Busy');
+    expect(machine.extendedStateAt(1)).toEqual({ tasks: 1 });
+  });
+
+  test('moves a cursor without touching the machine', () => {
+    const machine = recorded();
+    const navigator = new HistoryNavigator(machine);
+
+    navigator.back(3);
+    expect(navigator.position).toBe(1);
+    expect(navigator.state).toBe('Busy');
+    expect(navigator.extendedState).toEqual({ tasks: 1 });
+    expect(machine.extendedState).toEqual({ tasks: 2 });
+
+    navigator.forward();
+    expect(navigator.step?.event.id).toBe('e2');
+    expect(() => navigator.goTo(5)).toThrow();
+  });
+
+  test('rebuilds the machine at the cursor and continues from there', () => {
+    const machine = recorded();
+    new HistoryNavigator(machine).goTo(1).rebuild();
+
+    expect(machine.currentState).toBe('Busy');
+    expect(machine.extendedState).toEqual({ tasks: 1 });
+    expect(machine.steps).toHaveLength(1);
+    expect(machine.stateHistory.map(entry => entry.state)).toEqual(['Idle', 'Busy']);
+
+    machine.processEvent(event('done', 'e5'));
+    expect(machine.steps.map(step => step.seq)).toEqual([1, 2]);
+  });
+});
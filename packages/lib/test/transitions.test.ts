@@ -0,0 +1,71 @@
+import { describe, expect, test } from 'bun:test';
+import { SimulationEngine } from '../src/framework/index.js';
+import { TaskMachine, taskGenerator } from './helpers.js';
+import type { TaskEvent } from './helpers.js';
+
+const task: TaskEvent = { id: 'task', type: 'task', timestamp: '' };
+
+const guarded = (limit: number, onInvalidTransition?: (from: string, to: string, reason?: string) => void) => new TaskMachine({
+  allowedTransitions: { Idle: ['Closed'] },
+  transitions: [{
+    from: 'Idle',
+    to: 'Busy',
+    on: 'task',
+    guards: [{ name: 'underLimit', check: ({ extendedState }) => extendedState.tasks < limit }],
+    actions: [
+      ({ extendedState }) => ({ tasks: extendedState.tasks + 1 }),
+      ({ extendedState }) => ({ tasks: extendedState.tasks * 10 })
+    ]
+  }],
+  onInvalidTransition
+});
+
+describe('guarded transitions', () => {
+  test('runs actions in order and merges what they return', () => {
+    const machine = guarded(1);
+    machine.processEvent(task);
+
+    expect(machine.currentState).toBe('Busy');
+    expect(machine.extendedState.tasks).toBe(10);
+  });
+
+  test('explains which guard blocked a transition', () => {
+    const reasons: Array<string | undefined> = [];
+    const machine = guarded(0, (from, to, reason) => reasons.push(reason));
+
+    expect(machine.explainTransition('Busy', task)).toMatchObject({ allowed: false, blockedBy: 'underLimit' });
+    expect(machine.transition('Busy', task)).toBe(false);
+    expect(machine.lastRejection?.blockedBy).toBe('underLimit');
+    expect(reasons).toEqual([machine.lastRejection?.reason]);
+    expect(machine.currentState).toBe('Idle');
+  });
+
+  test('falls back to allowedTransitions for edges without matching rules', () => {
+    const machine = guarded(0);
+
+    expect(machine.canTransition('Closed')).toBe(true);
+    // The rule only applies to `task` events
+    expect(machine.explainTransition('Busy').reason).toBe('No transition from Idle to Busy');
+  });
+
+  test('fires probabilistic rules about as often as their probability', () => {
+    const machine = new TaskMachine({
+      allowedTransitions: { Busy: ['Idle'] },
+      transitions: [
+        { from: 'Idle', to: 'Busy', on: 'task', probability: 0.25 },
+        { from: 'Busy', to: 'Idle', on: 'task' }
+      ]
+    });
+    const engine = new SimulationEngine(machine);
+    let fired = 0;
+    machine.on('transition', ({ to }) => {
+      if (to === 'Busy') fired++;
+    });
+
+    engine.run({ seed: 3, maxEvents: 4_000, eventGenerators: [taskGenerator] });
+
+    // Each Busy visit uses one more event to get back to Idle
+    const idleEvents = 4_000 - fired;
+    expect(fired / idleEvents).toBeCloseTo(0.25, 1);
+  });
+});
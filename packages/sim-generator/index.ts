@@ -69,6 +69,14 @@ async function main() {
         await cli.enhance(description);
         break;
       
+      case "sweep":
+        if (!description) {
+          console.error("Error: Sweep config path required for sweep command");
+          return;
+        }
+        await cli.sweep(description, values);
+        break;
+      
       default:
         // Assume first positional is the description for generate
         await cli.generate(command, { ...values, name: description });
@@ -90,6 +98,7 @@ Usage:
   sim-generate list-templates                       # List available templates
   sim-generate validate <directory>                 # Validate generated simulation
   sim-generate enhance <directory>                  # Enhance existing simulation
+  sim-generate sweep <config.json>                  # Run a parameter sweep and rank parameters
 
 Options:
   -o, --output-dir <dir>     Output directory (default: current directory)
@@ -106,6 +115,7 @@ Examples:
   sim-generate "IoT sensor network monitoring" --template iot --verbose
   sim-generate init my-restaurant-sim
   sim-generate validate ./my-simulation
+  sim-generate sweep ./sweep.json --verbose
 `);
 }
 
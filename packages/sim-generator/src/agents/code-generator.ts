@@ -3,11 +3,16 @@ import {
   CodeGenerationRequest,
   CodeGenerationResult,
   GeneratedFile,
-  FileType
+  FileType,
+  EventPriority
 } from './types.js';
+import type { EventDesign, EventGeneratorDefinition, EventTypeDefinition, StateDesign } from './types.js';
+import { stringifySimulationDefinition, toMermaid } from '@sim-generator/lib';
+import { DefinitionConverter } from '../generators/definition-converter.js';
 
 export class CodeGenerator {
   private codeGenerationAgent: Agent;
+  private definitionConverter = new DefinitionConverter();
 
   constructor() {
     this.codeGenerationAgent = new Agent({
@@ -49,6 +54,8 @@ export class CodeGenerator {
       });
     }
 
+    files.push(this.generateDefinitionFile(request));
+
     return { files };
   }
 
@@ -124,7 +131,10 @@ export class CodeGenerator {
         path: 'README.md',
         content: this.generateReadme(request),
         type: FileType.MARKDOWN
-      }
+      },
+
+      // Declarative definition
+      this.generateDefinitionFile(request)
     ];
 
     return { files };
@@ -138,6 +148,11 @@ export class CodeGenerator {
       description: `Generated simulation: ${request.simulationName}`,
       timestamp: new Date().toISOString(),
       initialState: request.stateDesign.initialState,
+      stateConfig: this.generateStateConfig(request.stateDesign),
+      transitionRules: this.generateTransitionRules(request.stateDesign, request.eventDesign),
+      eventFlows: this.generateEventFlows(request.eventDesign, simulationName),
+      finalStates: JSON.stringify(request.stateDesign.finalStates ?? []),
+      stateDiagram: this.generateStateDiagram(request),
       
       states: request.stateDesign.states.map(state => ({
         name: state.name,
@@ -145,22 +160,23 @@ export class CodeGenerator {
         type: state.type
       })),
       
-      transitions: request.stateDesign.transitions.map(transition => ({
-        from: transition.from,
-        to: transition.to.split(' | '), // Support multiple targets
-        trigger: transition.trigger
-      })),
+      transitions: this.groupTransitions(request.stateDesign),
       
       eventTypes: request.eventDesign.eventTypes.map(eventType => ({
         name: this.constantCase(eventType.name),
         value: eventType.name,
-        description: eventType.description
+        description: eventType.description,
+        schema: this.generatePayloadSchema(eventType),
+        payload: this.generatePayloadProps(request.eventDesign, eventType.name)
+          .map(prop => ({ name: this.propertyKey(prop.name), value: prop.value }))
       })),
       
       eventGenerators: request.eventDesign.eventGenerators.map(generator => ({
         name: generator.eventType,
         type: this.constantCase(generator.eventType),
-        payload: this.generateMockPayloadData(generator.eventType)
+        logic: generator.generationLogic.type,
+        timing: this.generateGeneratorTiming(generator).map(line => `${line},\n    `).join(''),
+        priority: this.generatePriority(request.eventDesign, generator.eventType)
       }))
     };
   }
@@ -239,18 +255,21 @@ export class CodeGenerator {
  * Generated at: ${new Date().toISOString()}
  */
 
-import { createSimulation } from '@sim-generator/lib';
+import { continueFlows, createSimulation, ErrorAction, MetricsCollector, serveMetrics } from '@sim-generator/lib';
 import type { ${stateType}, ${eventType} } from './types.js';
-import { ${simulationName}EventType } from './types.js';
-import { EVENT_GENERATORS } from './event-generators.js';
+import { ${simulationName}EventType, PAYLOAD_SCHEMAS } from './types.js';
+import { EVENT_FLOWS, EVENT_GENERATORS, FLOW_OPTIONS } from './event-generators.js';
 
 // Create the simulation
 const simulation = createSimulation<${stateType}, ${eventType}>({
   initialState: '${request.stateDesign.initialState}',
   allowedTransitions: {
-${request.stateDesign.transitions.map(t => `    '${t.from}': ['${t.to}']`).join(',\n')}
+${this.groupTransitions(request.stateDesign).map(t => `    '${t.from}': [${t.to.map(to => `'${to}'`).join(', ')}]`).join(',\n')}
   },
-  handleEvent: (event: ${eventType}) => {
+  states: ${this.generateStateConfig(request.stateDesign)},
+  transitions: ${this.generateTransitionRules(request.stateDesign, request.eventDesign)},
+  payloadSchemas: PAYLOAD_SCHEMAS,
+  handleEvent: (event: ${eventType}, emit, context) => {
     console.log(\`Processing event: \${event.type}\`, event);
     
     // Event handling logic
@@ -261,22 +280,53 @@ ${request.eventDesign.eventTypes.map(et =>
         break;`
 ).join('\n')}
     }
+
+    // Chain the designed event flows with follow-up events
+    continueFlows(EVENT_FLOWS, event, emit, context, FLOW_OPTIONS);
   },
   eventGenerators: EVENT_GENERATORS
 });
 
+// Time in state, transition and event counts, latency and queue depth for every run
+const metrics = new MetricsCollector(simulation.engine);
+
 // Export for use
-export { simulation };
+export { simulation, metrics };
 export * from './types.js';
 export * from './event-generators.js';
 
 // Start simulation if running directly
 if (import.meta.main) {
   console.log('Starting ${simulationName} simulation...');
+
+  // Expose a Prometheus /metrics endpoint while running when a port is given
+  const metricsServer = process.env.SIM_METRICS_PORT
+    ? serveMetrics(simulation.engine, {
+      port: Number(process.env.SIM_METRICS_PORT),
+      collector: metrics,
+      labels: { simulation: '${simulationName}' }
+    })
+    : undefined;
+  // A port already in use only costs the endpoint, not the run
+  metricsServer?.ready
+    .then(() => console.log(\`Metrics available at \${metricsServer.url}\`))
+    .catch(error => console.error(\`Metrics endpoint unavailable, running without it: \${error.message}\`));
+
   simulation.start({ 
     minInterval: 1000, 
     maxInterval: 3000,
-    enableLogging: true
+    finalStates: ${JSON.stringify(request.stateDesign.finalStates ?? [])},
+    enableLogging: true,
+    // Failing handlers are retried, then kept for inspection instead of being dropped
+    errorPolicy: { action: ErrorAction.Retry, maxRetries: 2, onExhausted: ErrorAction.DeadLetter },
+    onStop: (reason) => {
+      console.log(\`Simulation ended: \${reason}\`);
+      console.log('Metrics:', JSON.stringify(metrics.summary(), null, 2));
+      if (simulation.engine.deadLetters.size > 0) {
+        console.error('Failed events:', JSON.stringify(simulation.engine.deadLetters, null, 2));
+      }
+      metricsServer?.close();
+    }
   });
   
   // Handle graceful shutdown
@@ -295,7 +345,8 @@ if (import.meta.main) {
  * Type definitions for ${simulationName}
  */
 
-import type { Event } from '@sim-generator/lib';
+import { definePayloadSchemas, z } from '@sim-generator/lib';
+import type { SchemaEvent } from '@sim-generator/lib';
 
 // State type
 export type ${simulationName}State = ${request.stateDesign.states.map(s => `'${s.name}'`).join(' | ')};
@@ -305,10 +356,13 @@ export enum ${simulationName}EventType {
 ${request.eventDesign.eventTypes.map(et => `  ${this.constantCase(et.name)} = '${et.name}'`).join(',\n')}
 }
 
-// Event interface
-export interface ${simulationName}Event extends Event<${simulationName}EventType> {
-  // Additional event properties can be added here
-}`;
+// Payload schema of each event type, checked when events are queued and processed
+export const PAYLOAD_SCHEMAS = definePayloadSchemas({
+${request.eventDesign.eventTypes.map(et => `  [${simulationName}EventType.${this.constantCase(et.name)}]: ${this.generatePayloadSchema(et)}`).join(',\n')}
+});
+
+// Event union, with payload types inferred from the schemas
+export type ${simulationName}Event = SchemaEvent<typeof PAYLOAD_SCHEMAS>;`;
   }
 
   private generateEventGeneratorsFile(request: CodeGenerationRequest): string {
@@ -318,19 +372,176 @@ export interface ${simulationName}Event extends Event<${simulationName}EventType
  * Event generators for ${simulationName}
  */
 
-import type { EventGenerator } from '@sim-generator/lib';
+import { EventPriority, pick } from '@sim-generator/lib';
+import type { EventFlow, EventOfType, FlowOptions, GeneratorRegistration, SimulationContext } from '@sim-generator/lib';
 import type { ${simulationName}Event } from './types.js';
 import { ${simulationName}EventType } from './types.js';
 
-export const EVENT_GENERATORS: EventGenerator<${simulationName}Event>[] = [
-${request.eventDesign.eventGenerators.map(generator => `  // ${generator.eventType} generator
-  () => ({
-    id: 'evt-' + Math.random().toString(36).substr(2, 9),
-    type: ${simulationName}EventType.${this.constantCase(generator.eventType)},
-    timestamp: new Date().toISOString(),
-    payload: ${this.generateMockPayload(generator.eventType)}
-  })`).join(',\n\n')}
-];`;
+// Payload of each event type; draws only the payload's own values
+export const PAYLOAD_FACTORIES: {
+  [TType in ${simulationName}Event['type']]: (context: SimulationContext) => EventOfType<${simulationName}Event, TType>['payload']
+} = {
+${request.eventDesign.eventTypes.map(et => `  [${simulationName}EventType.${this.constantCase(et.name)}]: ({ random, ids, clock }) => ({
+${this.generatePayloadProps(request.eventDesign, et.name).map(prop => `    ${this.propertyKey(prop.name)}: ${prop.value}`).join(',\n')}
+  })`).join(',\n')}
+};
+
+export const EVENT_GENERATORS: GeneratorRegistration<${simulationName}Event>[] = [
+${request.eventDesign.eventGenerators.map(generator => `  // ${generator.eventType} generator (${generator.generationLogic.type})
+  {
+    name: '${generator.eventType}',
+${this.generateGeneratorTiming(generator).map(line => `    ${line},\n`).join('')}    generate: context => ({
+      id: context.ids.next('evt'),
+      type: ${simulationName}EventType.${this.constantCase(generator.eventType)},
+      timestamp: context.clock.nowISO(),
+      priority: ${this.generatePriority(request.eventDesign, generator.eventType)},
+      payload: PAYLOAD_FACTORIES[${simulationName}EventType.${this.constantCase(generator.eventType)}](context)
+    })
+  }`).join(',\n\n')}
+];
+
+// Event flows from the design: each step is followed by one of its next steps
+export const EVENT_FLOWS: EventFlow<${simulationName}Event>[] = ${this.generateEventFlows(request.eventDesign, simulationName)};
+
+// Follow-up events get their payload from the factories, without using up event IDs
+export const FLOW_OPTIONS: FlowOptions<${simulationName}Event> = {
+  payload: (type, context) => PAYLOAD_FACTORIES[type](context)
+};`;
+  }
+
+  private generateEventFlows(eventDesign: EventDesign, simulationName: string): string {
+    // Flows may name events the design doesn't define. A step that triggers
+    // a generator of its next step leaves that follow-up to the generator,
+    // so that each follow-up is emitted from one place only
+    const known = new Set(eventDesign.eventTypes.map(et => et.name));
+    const triggers = (from: string, next: string) => eventDesign.eventGenerators.some(generator =>
+      generator.eventType === next && this.definitionConverter.generatorTiming(generator).triggeredBy?.includes(from));
+    const ref = (name: string) => `${simulationName}EventType.${this.constantCase(name)}`;
+
+    const flows = (eventDesign.eventFlows ?? [])
+      .filter(flow => known.has(flow.startEvent) && known.has(flow.endEvent))
+      .map(flow => ({
+        flow,
+        steps: flow.steps
+          .filter(step => known.has(step.eventType))
+          .map(step => ({ from: step.eventType, next: step.nextSteps.filter(next => known.has(next) && !triggers(step.eventType, next)) }))
+          .filter(step => step.next.length > 0)
+          .map(step => `      [${ref(step.from)}]: [${step.next.map(ref).join(', ')}]`)
+      }))
+      .filter(({ steps }) => steps.length > 0)
+      .map(({ flow, steps }) => {
+        return `  {
+    name: ${JSON.stringify(flow.name)},
+    startEvent: ${ref(flow.startEvent)},
+    endEvent: ${ref(flow.endEvent)},
+    steps: {
+${steps.join(',\n')}
+    }
+  }`;
+      });
+
+    return flows.length > 0 ? `[\n${flows.join(',\n')}\n]` : '[]';
+  }
+
+  private groupTransitions(stateDesign: StateDesign): Array<{ from: string; to: string[] }> {
+    // One allowedTransitions entry per source state, with every target it reaches
+    const targets = new Map<string, string[]>();
+    for (const transition of stateDesign.transitions) {
+      const to = targets.get(transition.from) ?? [];
+      for (const target of transition.to.split(' | ')) { // Support multiple targets
+        if (!to.includes(target)) to.push(target);
+      }
+      targets.set(transition.from, to);
+    }
+    return [...targets].map(([from, to]) => ({ from, to }));
+  }
+
+  private generateStateConfig(stateDesign: StateDesign): string {
+    // The hierarchy of states. Designed entry and exit actions are free
+    // text, so they are left as notes for whoever writes the onEntry/onExit hooks
+    const hierarchy = this.definitionConverter.createStateHierarchy(stateDesign);
+    const lines: string[] = [];
+    const names = new Set([...Object.keys(hierarchy), ...stateDesign.states.map(s => s.name)]);
+
+    for (const name of names) {
+      const node = hierarchy[name] ?? {};
+      const state = stateDesign.states.find(s => s.name === name);
+      if (state?.entryActions && state.entryActions.length > 0) {
+        lines.push(`    // ${name} entry actions to implement: ${state.entryActions.join('; ')}`);
+      }
+      if (state?.exitActions && state.exitActions.length > 0) {
+        lines.push(`    // ${name} exit actions to implement: ${state.exitActions.join('; ')}`);
+      }
+      const fields: string[] = [];
+      if (node.parent) fields.push(`parent: '${node.parent}'`);
+      if (node.initial) fields.push(`initial: '${node.initial}'`);
+      if (fields.length > 0) {
+        lines.push(`    '${name}': { ${fields.join(', ')} },`);
+      }
+    }
+
+    return lines.length > 0 ? `{\n${lines.join('\n')}\n  }` : '{}';
+  }
+
+  private generateTransitionRules(stateDesign: StateDesign, eventDesign: EventDesign): string {
+    // Only transitions taken on a matching event need a rule. Designed
+    // conditions and actions are free text with nothing to check or do, so
+    // they are left as notes for whoever implements them as guards and actions
+    const eventNames = new Set(eventDesign.eventTypes.map(et => et.name));
+    const rules = stateDesign.transitions
+      .filter(t => eventNames.has(t.trigger))
+      .map(t => {
+        const notes: string[] = [];
+        if (t.conditions && t.conditions.length > 0) {
+          notes.push(`// Guards to implement: ${t.conditions.join('; ')}`);
+        }
+        if (t.actions && t.actions.length > 0) {
+          notes.push(`// Actions to implement: ${t.actions.join('; ')}`);
+        }
+        const fields = [`from: '${t.from}'`, `to: '${t.to}'`, `on: '${t.trigger}'`];
+        if (typeof t.probability === 'number' && t.probability < 1) {
+          fields.push(`probability: ${t.probability}`);
+        }
+        return `    {\n      ${[...notes, fields.join(',\n      ')].join('\n      ')}\n    }`;
+      });
+
+    return rules.length > 0 ? `[\n${rules.join(',\n')}\n  ]` : '[]';
+  }
+
+  private generateGeneratorTiming(generator: EventGeneratorDefinition): string[] {
+    // Render the generator's timing options as GeneratorRegistration fields
+    const { whenStates, ...timing } = this.definitionConverter.generatorTiming(generator);
+    const lines: string[] = [];
+    if (whenStates) {
+      // Nested states are reported as dotted paths; any state on the path counts
+      lines.push(`enabled: (state) => String(state).split('.').some(name => ${JSON.stringify(whenStates)}.includes(name))`);
+    }
+    for (const key of ['interArrival', 'rate', 'weight', 'schedule', 'triggeredBy', 'maxOccurrences'] as const) {
+      if (timing[key] !== undefined) {
+        lines.push(`${key}: ${JSON.stringify(timing[key])}`);
+      }
+    }
+    return lines;
+  }
+
+  private generateDefinitionFile(request: CodeGenerationRequest): GeneratedFile {
+    // The same simulation as a declarative definition, runnable with loadSimulationFile
+    const definition = this.definitionConverter.toDefinition(
+      request.simulationName,
+      request.stateDesign,
+      request.eventDesign,
+      `Generated simulation: ${request.simulationName}`
+    );
+    return {
+      path: 'simulation.yaml',
+      content: stringifySimulationDefinition(definition),
+      type: FileType.CONFIG
+    };
+  }
+
+  private generateStateDiagram(request: CodeGenerationRequest): string {
+    // Mermaid renders inline on GitHub and most Markdown viewers
+    return toMermaid(this.definitionConverter.toStateGraph(request.stateDesign, request.eventDesign));
   }
 
   private generateReadme(request: CodeGenerationRequest): string {
@@ -347,6 +558,12 @@ This simulation models a ${request.analysis.systemType} system with the followin
 - **States**: ${request.stateDesign.states.map(s => s.name).join(', ')}
 - **Events**: ${request.eventDesign.eventTypes.map(e => e.name).join(', ')}
 
+## State Diagram
+
+\`\`\`mermaid
+${this.generateStateDiagram(request)}
+\`\`\`
+
 ## Installation
 
 \`\`\`bash
@@ -387,162 +604,156 @@ Generated at: ${new Date().toISOString()}
 `;
   }
 
-  private generateMockPayload(eventType: string): string {
-    // Generate realistic mock payload based on event type
-    const base = '{\n      timestamp: new Date().toISOString()';
-
-    const lower = eventType.toLowerCase();
-
-    // Campaign finance specific payloads
-    if (lower.includes('donation') || lower.includes('contribution')) {
-      return (
-        base +
-        ',\n      amount: Math.round(Math.random() * 2800) + 50' +
-        ',\n      donorType: ["individual","pac","party"][Math.floor(Math.random()*3)]' +
-        ',\n      jurisdiction: ["federal","state","local"][Math.floor(Math.random()*3)]' +
-        ',\n      committeeId: "cmte-" + Math.random().toString(36).substr(2, 6)' +
-        ',\n      candidateId: "cand-" + Math.random().toString(36).substr(2, 6)' +
-        '\n    }'
-      );
-    }
-    if (lower.includes('fec') || lower.includes('report')) {
-      return (
-        base +
-        ',\n      periodStart: new Date(Date.now() - 1000*60*60*24*30).toISOString()' +
-        ',\n      periodEnd: new Date().toISOString()' +
-        ',\n      totalRaised: Math.round(Math.random()*1000000)' +
-        ',\n      totalSpent: Math.round(Math.random()*900000)' +
-        '\n    }'
-      );
-    }
-    if ((lower.includes('limit') && (lower.includes('breach') || lower.includes('breached') || lower.includes('exceed')))) {
-      const limit = 2900 + Math.round(Math.random()*5000);
-      const amount = limit + Math.round(Math.random()*2000);
-      return (
-        base +
-        `,\n      limit: ${'${limit}'}` +
-        `,\n      amount: ${'${amount}'}` +
-        ',\n      jurisdiction: ["state","local"][Math.floor(Math.random()*2)]' +
-        '\n    }'
-      );
-    }
-    if (lower.includes('match')) {
-      return (
-        base +
-        ',\n      matchRate: 0.5' +
-        ',\n      amountMatched: Math.round(Math.random()*50000)' +
-        '\n    }'
-      );
-    }
-    if (lower.includes('ad') && lower.includes('spend')) {
-      return (
-        base +
-        ',\n      mediaType: ["tv","radio","digital","print"][Math.floor(Math.random()*4)]' +
-        ',\n      market: ["NYC","LA","CHI","DAL","MIA"][Math.floor(Math.random()*5)]' +
-        ',\n      amount: Math.round(Math.random()*200000)' +
-        '\n    }'
-      );
-    }
-    if (lower.includes('audit')) {
-      return base + ',\n      reason: "Irregular pattern detected"\n    }';
-    }
-    if (lower.includes('transfer')) {
-      return (
-        base +
-        ',\n      fromCommitteeId: "cmte-" + Math.random().toString(36).substr(2, 6)' +
-        ',\n      toCommitteeId: "cmte-" + Math.random().toString(36).substr(2, 6)' +
-        ',\n      amount: Math.round(Math.random()*100000)' +
-        '\n    }'
-      );
-    }
-    if (lower.includes('compliance')) {
-      return base + ',\n      status: "passed",\n      reviewer: "rev-" + Math.random().toString(36).substr(2, 5)\n    }';
-    }
-    if (lower.includes('refund')) {
-      return base + ',\n      amount: Math.round(Math.random()*2000),\n      reason: "Over the limit"\n    }';
+  private generatePayloadSchema(eventType: EventTypeDefinition): string {
+    // Declared payload fields become a zod object; undeclared payloads only have to be objects
+    if (eventType.payload.length === 0) {
+      return 'z.record(z.unknown())';
     }
+    const fields = eventType.payload.map(field => {
+      let schema = this.zodType(field.type);
+      if (field.description) schema += `.describe(${JSON.stringify(field.description)})`;
+      if (field.optional) schema += '.optional()';
+      return `${this.propertyKey(field.name)}: ${schema}`;
+    });
+    return `z.object({ ${fields.join(', ')} })`;
+  }
 
-    // Generic fallbacks
-    if (lower.includes('user') || lower.includes('client')) {
-      return base + ',\n      userId: "user-" + Math.random().toString(36).substr(2, 8)\n    }';
+  private zodType(type: string): string {
+    switch (type.toLowerCase()) {
+      case 'string':
+      case 'date':
+      case 'datetime':
+        return 'z.string()';
+      case 'number':
+      case 'integer':
+      case 'float':
+        return 'z.number()';
+      case 'boolean':
+        return 'z.boolean()';
+      case 'object':
+        return 'z.record(z.unknown())';
+      case 'array':
+        return 'z.array(z.unknown())';
+      default:
+        return type.endsWith('[]') ? 'z.array(z.unknown())' : 'z.unknown()';
     }
-    if (lower.includes('data') || lower.includes('process')) {
-      return base + ',\n      data: { value: Math.random() * 100 }\n    }';
+  }
+
+  private generatePayloadProps(eventDesign: EventDesign, eventType: string): Array<{ name: string; value: string }> {
+    // Mock values follow the declared payload so that they pass its schema,
+    // reusing the domain-specific value for a field when its type fits
+    const heuristic = this.generateMockPayloadData(eventType);
+    const fields = eventDesign.eventTypes.find(et => et.name === eventType)?.payload ?? [];
+    if (fields.length === 0) {
+      return heuristic;
     }
-    if (lower.includes('error')) {
-      return base + ',\n      error: "Sample error message"\n    }';
+
+    return fields.map(field => {
+      const schema = this.zodType(field.type);
+      const known = heuristic.find(prop => prop.name === field.name);
+      return {
+        name: field.name,
+        value: known && this.mockValueType(known.value) === schema ? known.value : this.mockValueFor(field.name, schema)
+      };
+    });
+  }
+
+  private mockValueType(value: string): string {
+    // Quoted, picked from a list, an ID or an ISO date: string; braced: object; anything else is arithmetic
+    if (/^("|pick\(|ids\.next\()|(toISOString|nowISO)\(\)$/.test(value)) return 'z.string()';
+    if (value.startsWith('{')) return 'z.record(z.unknown())';
+    return 'z.number()';
+  }
+
+  private mockValueFor(name: string, schema: string): string {
+    switch (schema) {
+      case 'z.string()':
+        return /time|date/i.test(name) ? 'clock.nowISO()' : `ids.next(${JSON.stringify(name)})`;
+      case 'z.number()':
+        return 'Math.round(random.next() * 100)';
+      case 'z.boolean()':
+        return 'random.next() < 0.5';
+      case 'z.record(z.unknown())':
+        return '{}';
+      case 'z.array(z.unknown())':
+        return '[]';
+      default:
+        return 'null';
     }
+  }
 
-    return base + '\n    }';
+  private propertyKey(name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
   }
 
   private generateMockPayloadData(eventType: string): any[] {
-    // Generate structured data for template processing
+    // Generate structured data for template processing. Values are drawn
+    // from the generator's context so that seeded runs are reproducible.
     const lower = eventType.toLowerCase();
 
     const baseProps = [
-      { name: 'timestamp', value: 'new Date().toISOString()' }
+      { name: 'timestamp', value: 'clock.nowISO()' }
     ];
 
     // Campaign finance payloads for template-based generators
     if (lower.includes('donation') || lower.includes('contribution')) {
       baseProps.push(
-        { name: 'amount', value: 'Math.round(Math.random() * 2800) + 50' },
-        { name: 'donorType', value: '["individual","pac","party"][Math.floor(Math.random()*3)]' },
-        { name: 'jurisdiction', value: '["federal","state","local"][Math.floor(Math.random()*3)]' },
-        { name: 'committeeId', value: '"cmte-" + Math.random().toString(36).substr(2, 6)' },
-        { name: 'candidateId', value: '"cand-" + Math.random().toString(36).substr(2, 6)' }
+        { name: 'amount', value: 'Math.round(random.next() * 2800) + 50' },
+        { name: 'donorType', value: 'pick(["individual","pac","party"], random)' },
+        { name: 'jurisdiction', value: 'pick(["federal","state","local"], random)' },
+        { name: 'committeeId', value: 'ids.next("cmte")' },
+        { name: 'candidateId', value: 'ids.next("cand")' }
       );
     } else if (lower.includes('fec') || lower.includes('report')) {
       baseProps.push(
-        { name: 'periodStart', value: 'new Date(Date.now() - 1000*60*60*24*30).toISOString()' },
-        { name: 'periodEnd', value: 'new Date().toISOString()' },
-        { name: 'totalRaised', value: 'Math.round(Math.random()*1000000)' },
-        { name: 'totalSpent', value: 'Math.round(Math.random()*900000)' }
+        { name: 'periodStart', value: 'new Date(clock.now - 1000*60*60*24*30).toISOString()' },
+        { name: 'periodEnd', value: 'clock.nowISO()' },
+        { name: 'totalRaised', value: 'Math.round(random.next()*1000000)' },
+        { name: 'totalSpent', value: 'Math.round(random.next()*900000)' }
       );
     } else if ((lower.includes('limit') && (lower.includes('breach') || lower.includes('breached') || lower.includes('exceed')))) {
       baseProps.push(
-        { name: 'limit', value: '2900 + Math.round(Math.random()*5000)' },
-        { name: 'amount', value: '(2900 + Math.round(Math.random()*5000)) + Math.round(Math.random()*2000)' },
-        { name: 'jurisdiction', value: '["state","local"][Math.floor(Math.random()*2)]' }
+        { name: 'limit', value: '2900 + Math.round(random.next()*5000)' },
+        { name: 'amount', value: '(2900 + Math.round(random.next()*5000)) + Math.round(random.next()*2000)' },
+        { name: 'jurisdiction', value: 'pick(["state","local"], random)' }
       );
     } else if (lower.includes('match')) {
       baseProps.push(
         { name: 'matchRate', value: '0.5' },
-        { name: 'amountMatched', value: 'Math.round(Math.random()*50000)' }
+        { name: 'amountMatched', value: 'Math.round(random.next()*50000)' }
       );
     } else if (lower.includes('ad') && lower.includes('spend')) {
       baseProps.push(
-        { name: 'mediaType', value: '["tv","radio","digital","print"][Math.floor(Math.random()*4)]' },
-        { name: 'market', value: '["NYC","LA","CHI","DAL","MIA"][Math.floor(Math.random()*5)]' },
-        { name: 'amount', value: 'Math.round(Math.random()*200000)' }
+        { name: 'mediaType', value: 'pick(["tv","radio","digital","print"], random)' },
+        { name: 'market', value: 'pick(["NYC","LA","CHI","DAL","MIA"], random)' },
+        { name: 'amount', value: 'Math.round(random.next()*200000)' }
       );
     } else if (lower.includes('audit')) {
       baseProps.push({ name: 'reason', value: '"Irregular pattern detected"' });
     } else if (lower.includes('transfer')) {
       baseProps.push(
-        { name: 'fromCommitteeId', value: '"cmte-" + Math.random().toString(36).substr(2, 6)' },
-        { name: 'toCommitteeId', value: '"cmte-" + Math.random().toString(36).substr(2, 6)' },
-        { name: 'amount', value: 'Math.round(Math.random()*100000)' }
+        { name: 'fromCommitteeId', value: 'ids.next("cmte")' },
+        { name: 'toCommitteeId', value: 'ids.next("cmte")' },
+        { name: 'amount', value: 'Math.round(random.next()*100000)' }
       );
     } else if (lower.includes('compliance')) {
       baseProps.push(
         { name: 'status', value: '"passed"' },
-        { name: 'reviewer', value: '"rev-" + Math.random().toString(36).substr(2, 5)' }
+        { name: 'reviewer', value: 'ids.next("rev")' }
       );
     } else if (lower.includes('refund')) {
       baseProps.push(
-        { name: 'amount', value: 'Math.round(Math.random()*2000)' },
+        { name: 'amount', value: 'Math.round(random.next()*2000)' },
         { name: 'reason', value: '"Over the limit"' }
       );
     } else if (lower.includes('user') || lower.includes('client')) {
-      baseProps.push({ name: 'userId', value: '"user-" + Math.random().toString(36).substr(2, 8)' });
+      baseProps.push({ name: 'userId', value: 'ids.next("user")' });
     } else if (lower.includes('data') || lower.includes('sensor')) {
-      baseProps.push({ name: 'data', value: '{ value: Math.random() * 100 }' });
+      baseProps.push({ name: 'data', value: '{ value: random.next() * 100 }' });
     } else if (lower.includes('error') || lower.includes('alarm')) {
       baseProps.push({ name: 'error', value: '"Sample error message"' });
     } else if (lower.includes('connect')) {
-      baseProps.push({ name: 'deviceId', value: '"device-" + Math.random().toString(36).substr(2, 6)' });
+      baseProps.push({ name: 'deviceId', value: 'ids.next("device")' });
     } else if (lower.includes('maintenance')) {
       baseProps.push({ name: 'maintenanceType', value: '"scheduled"' });
     }
@@ -550,6 +761,18 @@ Generated at: ${new Date().toISOString()}
     return baseProps;
   }
 
+  private generatePriority(eventDesign: EventDesign, eventType: string): string {
+    // Queues process higher priorities first, so e.g. critical notices jump ahead of routine events
+    const names: Record<EventPriority, string> = {
+      [EventPriority.LOW]: 'Low',
+      [EventPriority.MEDIUM]: 'Medium',
+      [EventPriority.HIGH]: 'High',
+      [EventPriority.CRITICAL]: 'Critical'
+    };
+    const priority = eventDesign.eventTypes.find(et => et.name === eventType)?.priority ?? EventPriority.MEDIUM;
+    return `EventPriority.${names[priority] ?? 'Medium'}`;
+  }
+
   private inferFileType(filePath: string): FileType {
     const ext = filePath.split('.').pop()?.toLowerCase();
     switch (ext) {
@@ -77,7 +77,8 @@ export class EventDesigner {
         parameters: {
           minInterval: this.getIntervalForFrequency(eventType.frequency).min,
           maxInterval: this.getIntervalForFrequency(eventType.frequency).max,
-          probability: this.getProbabilityForFrequency(eventType.frequency)
+          probability: this.getProbabilityForFrequency(eventType.frequency),
+          interArrival: this.getInterArrivalForFrequency(eventType.frequency)
         }
       },
       constraints: [
@@ -140,7 +141,10 @@ export class EventDesigner {
       eventTypes: basicEventTypes,
       eventGenerators: basicEventTypes.map(et => ({
         eventType: et.name,
-        generationLogic: { type: 'random', parameters: { probability: 0.3 } },
+        generationLogic: {
+          type: 'random',
+          parameters: { probability: 0.3, interArrival: this.getInterArrivalForFrequency(et.frequency) }
+        },
         constraints: []
       })),
       eventHandlers: basicEventTypes.map(et => ({
@@ -296,6 +300,12 @@ export class EventDesigner {
     }
   }
 
+  private getInterArrivalForFrequency(frequency: EventFrequency): { type: 'exponential'; rate: number } {
+    // Poisson arrivals centred on the frequency bucket, as a framework DistributionSpec
+    const { min, max } = this.getIntervalForFrequency(frequency);
+    return { type: 'exponential', rate: 2 / (min + max) };
+  }
+
   private getProbabilityForFrequency(frequency: EventFrequency): number {
     switch (frequency) {
       case EventFrequency.VERY_FREQUENT: return 0.8;
@@ -113,7 +113,8 @@ export class StateModeler {
             {
               "name": "string",
               "states": ["string"],
-              "description": "string"
+              "description": "string",
+              "initial": "string"
             }
           ]
         }
@@ -134,6 +134,7 @@ export interface StateGroupDefinition {
   name: string;
   states: string[];
   description: string;
+  initial?: string;
 }
 
 export interface ValidationRule {
@@ -1,6 +1,9 @@
 import { Agent, run } from '@openai/agents';
-import { readFileSync, existsSync } from 'fs';
-import { join } from 'path';
+import { readFileSync, existsSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { runSweep, sweepToCSV, SweepDesign } from '@sim-generator/lib';
+import type { ParameterSet, ParameterSpace, SimulationOptions, SimulationStats, StateMachine } from '@sim-generator/lib';
 import { SimulationGenerator } from './generators/simulation-generator.js';
 import { ConfigManager } from './utils/config.js';
 import { Logger } from './utils/logger.js';
@@ -17,6 +20,35 @@ export interface CLIOptions {
   config?: string;
 }
 
+/**
+ * Sweep definition read by the `sweep` command. Paths are relative to the
+ * file. Parameters named like engine options (`minInterval`, `maxInterval`)
+ * are applied to the engine; all parameters are passed to the factory, and
+ * to the generators when they are a function.
+ */
+export interface SweepConfig {
+  /** Module exporting the machine factory and generators */
+  module: string;
+  /** Export called with the parameter set to create a machine */
+  factory: string;
+  /** Export holding the event generators, or a function that creates them from the parameter set */
+  generators?: string;
+  parameters: ParameterSpace;
+  design?: SweepDesign;
+  samples?: number;
+  replications?: number;
+  seed?: number;
+  maxEvents: number;
+  /** Metric name to a dotted path on the machine ("summary.riskScore") or run stats ("stats.simulatedTime") */
+  metrics: Record<string, string>;
+  /** CSV file to write the points to */
+  output?: string;
+}
+
+const ENGINE_PARAMETERS = ['minInterval', 'maxInterval'] as const;
+
+type EventGenerators = NonNullable<SimulationOptions['eventGenerators']>;
+
 export class SimulationGeneratorCLI {
   private configManager: ConfigManager;
   private logger: Logger;
@@ -201,6 +233,76 @@ export class SimulationGeneratorCLI {
     }
   }
 
+  async sweep(configPath: string, options: CLIOptions = {}): Promise<void> {
+    this.logger.setVerbose(options.verbose || false);
+
+    const path = resolve(configPath);
+    if (!existsSync(path)) {
+      throw new Error(`Sweep config does not exist: ${configPath}`);
+    }
+    const config: SweepConfig = JSON.parse(readFileSync(path, 'utf-8'));
+    const baseDir = resolve(path, '..');
+
+    const model = await import(pathToFileURL(resolve(baseDir, config.module)).href);
+    const factory = model[config.factory];
+    if (typeof factory !== 'function') {
+      throw new Error(`${config.module} does not export a function named "${config.factory}"`);
+    }
+    // A generator factory lets the sweep vary rates and weights, not just the engine's intervals
+    const generators: EventGenerators | ((parameters: ParameterSet) => EventGenerators) =
+      config.generators ? model[config.generators] : [];
+    if (typeof generators !== 'function' && !Array.isArray(generators)) {
+      throw new Error(`${config.module} export "${config.generators}" is neither a list of generators nor a function`);
+    }
+
+    this.logger.info(`Sweeping ${Object.keys(config.parameters).join(', ')} (${config.design ?? SweepDesign.Grid} design)`);
+
+    const result = runSweep({
+      parameters: config.parameters,
+      design: config.design,
+      samples: config.samples,
+      replications: config.replications,
+      seed: config.seed,
+      createMachine: (parameters: ParameterSet) => factory(parameters) as StateMachine<any, any>,
+      simulation: (parameters: ParameterSet) => {
+        const engineOptions: Record<string, number> = {};
+        for (const name of ENGINE_PARAMETERS) {
+          if (typeof parameters[name] === 'number') {
+            engineOptions[name] = parameters[name];
+          }
+        }
+        const eventGenerators = typeof generators === 'function' ? generators(parameters) : generators;
+        return { ...engineOptions, eventGenerators, maxEvents: config.maxEvents };
+      },
+      metrics: Object.fromEntries(Object.entries(config.metrics).map(([name, metricPath]) =>
+        [name, (machine: StateMachine<any, any>, stats: SimulationStats) => Number(metricPath.startsWith('stats.')
+          ? this.readPath(stats, metricPath.slice('stats.'.length))
+          : this.readPath(machine, metricPath))])),
+      onPoint: point => this.logger.verbose(`Point ${point.index}:`, point.parameters, point.metrics)
+    });
+
+    this.logger.success(`${result.points.length} points in ${result.runtime}ms`);
+
+    for (const [metric, ranking] of Object.entries(result.sensitivity)) {
+      console.log(`\n📊 ${metric} (${ranking[0]?.method ?? 'no parameters'})`);
+      ranking.forEach((entry, rank) => {
+        console.log(`   ${rank + 1}. ${entry.parameter.padEnd(24)} ${entry.influence.toFixed(4)}`);
+      });
+    }
+
+    if (config.output) {
+      const outputPath = resolve(baseDir, config.output);
+      writeFileSync(outputPath, sweepToCSV(result));
+      this.logger.info(`📁 Points written to ${outputPath}`);
+    }
+  }
+
+  private readPath(target: unknown, path: string): unknown {
+    // Metrics name values by dotted path, e.g. "extendedState.risk.deadline"
+    return path.split('.').reduce<unknown>((value, key) =>
+      typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined, target);
+  }
+
   private generateSimulationName(description: string): string {
     // Convert description to a reasonable package name
     return description
@@ -0,0 +1,443 @@
+import type {
+  EffectDeclaration,
+  ExtendedFieldDeclaration,
+  GeneratorDeclaration,
+  SimulationDefinition,
+  StateDeclaration,
+  StateGraph,
+  ValueSpec
+} from '@sim-generator/lib';
+import { definitionStateGraph } from '@sim-generator/lib';
+import {
+  EventCategory,
+  EventFrequency,
+  EventPriority,
+  StateType
+} from '../agents/types.js';
+import type {
+  EventDesign,
+  EventGeneratorDefinition,
+  EventHandlerDefinition,
+  HandlerAction,
+  StateDesign,
+  StateGroupDefinition
+} from '../agents/types.js';
+
+export type GeneratorTiming = Pick<
+  GeneratorDeclaration,
+  'whenStates' | 'interArrival' | 'rate' | 'weight' | 'schedule' | 'triggeredBy' | 'maxOccurrences'
+>;
+
+/**
+ * Converts between the designs produced by the agents and declarative
+ * simulation definitions that `loadSimulation` runs. Descriptive design
+ * details the definition has no place for (state properties, event
+ * categories and frequencies) are not kept.
+ */
+export class DefinitionConverter {
+
+  toDefinition(simulationName: string, stateDesign: StateDesign, eventDesign: EventDesign, description?: string): SimulationDefinition {
+    const eventNames = new Set(eventDesign.eventTypes.map(et => et.name));
+    const stateNames = new Set(stateDesign.states.map(s => s.name));
+    const extendedState: Record<string, ExtendedFieldDeclaration> = {};
+    for (const flag of Object.keys(this.createConditionFlags(stateDesign))) {
+      extendedState[flag] = { type: 'boolean', initial: true };
+    }
+
+    // Groups become compound parents; entry and exit actions become log effects
+    const hierarchy = this.createStateHierarchy(stateDesign);
+    const states: StateDeclaration[] = [];
+    for (const name of new Set([...stateDesign.states.map(s => s.name), ...Object.keys(hierarchy)])) {
+      const state = stateDesign.states.find(s => s.name === name);
+      const group = stateDesign.stateGroups?.find(g => g.name === name || `${g.name}Group` === name);
+      states.push(this.compact({
+        name,
+        description: state?.description ?? group?.description,
+        type: state?.type,
+        parent: hierarchy[name]?.parent,
+        initial: hierarchy[name]?.initial,
+        onEntry: this.logEffects(state?.entryActions),
+        onExit: this.logEffects(state?.exitActions)
+      }));
+    }
+
+    const transitions = stateDesign.transitions.map(t => this.compact({
+      from: t.from,
+      to: t.to,
+      // Triggers that aren't events only describe the transition
+      on: eventNames.has(t.trigger) ? t.trigger : undefined,
+      description: eventNames.has(t.trigger) ? undefined : t.trigger,
+      guards: t.conditions?.length ? t.conditions.map(c => ({ name: c, path: `extendedState.${this.conditionFlag(c)}` })) : undefined,
+      effects: this.logEffects(t.actions),
+      probability: t.probability
+    }));
+
+    const handlers = eventDesign.eventHandlers
+      .filter(handler => eventNames.has(handler.eventType))
+      .map(handler => ({
+        event: handler.eventType,
+        name: handler.handlerName,
+        effects: [
+          ...handler.actions.map(action => this.actionEffect(action, handler, eventNames, extendedState)),
+          ...handler.stateTransitions
+            .map(entry => entry.split('->').pop()!.trim())
+            .filter(to => stateNames.has(to))
+            .map(to => ({ type: 'transition' as const, to }))
+        ]
+      }));
+
+    // Loaded definitions give flow steps empty payloads, so any event can be a
+    // step. Like the generated code, a step that triggers a generator of its
+    // next step leaves that follow-up to the generator.
+    const triggers = (from: string, next: string) => eventDesign.eventGenerators.some(generator =>
+      generator.eventType === next && this.generatorTiming(generator).triggeredBy?.includes(from));
+    const flows = (eventDesign.eventFlows ?? [])
+      .filter(flow => eventNames.has(flow.startEvent) && eventNames.has(flow.endEvent))
+      .map(flow => {
+        const steps: Record<string, string[]> = {};
+        for (const step of flow.steps) {
+          const next = step.nextSteps.filter(name => eventNames.has(name) && !triggers(step.eventType, name));
+          if (eventNames.has(step.eventType) && next.length > 0) {
+            steps[step.eventType] = next;
+          }
+        }
+        return this.compact({ name: flow.name, description: flow.description || undefined, startEvent: flow.startEvent, endEvent: flow.endEvent, steps });
+      })
+      .filter(flow => Object.keys(flow.steps).length > 0);
+
+    return this.compact({
+      name: simulationName,
+      description,
+      initialState: stateDesign.initialState,
+      finalStates: stateDesign.finalStates ?? [],
+      states,
+      transitions,
+      extendedState,
+      events: eventDesign.eventTypes.map(et => this.compact({
+        name: et.name,
+        description: et.description,
+        priority: et.priority,
+        payload: et.payload.map(field => this.compact({
+          name: field.name,
+          type: field.type,
+          optional: field.optional,
+          description: field.description
+        }))
+      })),
+      generators: eventDesign.eventGenerators
+        .filter(generator => eventNames.has(generator.eventType))
+        .map(generator => this.compact({
+          event: generator.eventType,
+          ...this.generatorTiming(generator),
+          payload: this.generatorPayload(eventDesign, generator.eventType)
+        })),
+      handlers,
+      flows
+    });
+  }
+
+  toDesign(definition: SimulationDefinition): { stateDesign: StateDesign; eventDesign: EventDesign } {
+    const parents = new Set(definition.states.map(s => s.parent).filter((p): p is string => p !== undefined));
+    const finalStates = definition.finalStates ?? [];
+
+    // Parents without a state type of their own were groups in the design
+    const isGroup = (state: StateDeclaration) => parents.has(state.name) && state.type === undefined;
+    const stateGroups: StateGroupDefinition[] = definition.states.filter(isGroup).map(group => ({
+      name: group.name,
+      states: definition.states.filter(s => s.parent === group.name).map(s => s.name),
+      description: group.description ?? '',
+      ...(group.initial !== undefined && { initial: group.initial })
+    }));
+
+    const stateDesign: StateDesign = {
+      states: definition.states.filter(s => !isGroup(s)).map(state => ({
+        name: state.name,
+        description: state.description ?? '',
+        type: (state.type as StateType | undefined) ?? (
+          state.name === definition.initialState ? StateType.INITIAL
+            : finalStates.includes(state.name) ? StateType.FINAL
+              : StateType.INTERMEDIATE),
+        properties: [],
+        ...(state.onEntry?.length && { entryActions: state.onEntry.map(effect => this.describeEffect(effect)) }),
+        ...(state.onExit?.length && { exitActions: state.onExit.map(effect => this.describeEffect(effect)) })
+      })),
+      transitions: (definition.transitions ?? []).flatMap(t => (Array.isArray(t.from) ? t.from : [t.from]).map(from => ({
+        from,
+        to: t.to,
+        trigger: t.on ?? t.description ?? '',
+        ...(t.guards?.length && { conditions: t.guards.map(guard => guard.name ?? guard.path) }),
+        ...(t.effects?.length && { actions: t.effects.map(effect => this.describeEffect(effect)) }),
+        ...(t.probability !== undefined && { probability: t.probability })
+      }))),
+      initialState: definition.initialState,
+      finalStates,
+      ...(stateGroups.length > 0 && { stateGroups })
+    };
+
+    const eventDesign: EventDesign = {
+      eventTypes: (definition.events ?? []).map(event => ({
+        name: event.name,
+        description: event.description ?? '',
+        category: EventCategory.SYSTEM,
+        payload: event.payload ?? [],
+        frequency: EventFrequency.OCCASIONAL,
+        priority: (event.priority as EventPriority | undefined) ?? EventPriority.MEDIUM,
+        triggers: []
+      })),
+      eventGenerators: (definition.generators ?? []).map(generator => this.generatorDefinition(generator)),
+      eventHandlers: (definition.handlers ?? []).map(handler => ({
+        eventType: handler.event,
+        handlerName: handler.name ?? `handle${handler.event}`,
+        actions: handler.effects.filter(effect => effect.type !== 'transition').map(effect => this.handlerAction(effect)),
+        stateTransitions: handler.effects.flatMap(effect => effect.type === 'transition' ? [effect.to] : [])
+      })),
+      eventFlows: (definition.flows ?? []).map(flow => ({
+        name: flow.name,
+        description: flow.description ?? '',
+        startEvent: flow.startEvent,
+        endEvent: flow.endEvent,
+        steps: Object.entries(flow.steps).map(([eventType, next]) => ({ eventType, nextSteps: next ?? [] }))
+      }))
+    };
+
+    return { stateDesign, eventDesign };
+  }
+
+  toStateGraph(stateDesign: StateDesign, eventDesign?: EventDesign): StateGraph {
+    // Without an event design the diagram shows states and transitions only
+    const events = eventDesign ?? { eventTypes: [], eventGenerators: [], eventHandlers: [], eventFlows: [] };
+    return definitionStateGraph(this.toDefinition('diagram', stateDesign, events));
+  }
+
+  createStateHierarchy(stateDesign: StateDesign): Record<string, { parent?: string; initial?: string }> {
+    // Each state group becomes a compound parent state. Only a group whose
+    // design names an initial member can be entered as a whole
+    const stateNames = new Set(stateDesign.states.map(s => s.name));
+    const hierarchy: Record<string, { parent?: string; initial?: string }> = {};
+
+    for (const group of stateDesign.stateGroups ?? []) {
+      const members = group.states.filter(name => stateNames.has(name) && !hierarchy[name]?.parent);
+      if (members.length === 0) continue;
+
+      const parent = stateNames.has(group.name) ? `${group.name}Group` : group.name;
+      hierarchy[parent] = group.initial !== undefined && members.includes(group.initial) ? { initial: group.initial } : {};
+      for (const member of members) {
+        hierarchy[member] = { ...hierarchy[member], parent };
+      }
+    }
+
+    return hierarchy;
+  }
+
+  createConditionFlags(stateDesign: StateDesign): Record<string, boolean> {
+    const flags: Record<string, boolean> = {};
+    for (const transition of stateDesign.transitions) {
+      for (const condition of transition.conditions ?? []) {
+        flags[this.conditionFlag(condition)] = true;
+      }
+    }
+    return flags;
+  }
+
+  conditionFlag(condition: string): string {
+    // "hasError()" -> hasError, "client is ready" -> clientIsReady
+    const words = condition.replace(/\(.*?\)/g, '').split(/[^A-Za-z0-9]+/).filter(Boolean);
+    const flag = words.map((w, i) => (i === 0 ? w.charAt(0).toLowerCase() : w.charAt(0).toUpperCase()) + w.slice(1)).join('');
+    return /^[A-Za-z_]/.test(flag) ? flag : `condition${flag.charAt(0).toUpperCase()}${flag.slice(1)}`;
+  }
+
+  generatorTiming(generator: EventGeneratorDefinition): GeneratorTiming {
+    // Map the designed generation logic onto GeneratorRegistration options
+    const { type, parameters } = generator.generationLogic;
+    const timing: GeneratorTiming = {};
+
+    switch (type) {
+      case 'random':
+        if (parameters.interArrival) {
+          timing.interArrival = parameters.interArrival;
+        } else if (typeof parameters.rate === 'number') {
+          timing.rate = parameters.rate;
+        } else if (typeof parameters.minInterval === 'number' && typeof parameters.maxInterval === 'number') {
+          timing.interArrival = { type: 'uniform', min: parameters.minInterval, max: parameters.maxInterval };
+        } else if (typeof parameters.probability === 'number') {
+          timing.weight = parameters.probability;
+        }
+        break;
+      case 'scheduled':
+        if (typeof parameters.cron === 'string') {
+          timing.schedule = { cron: parameters.cron };
+        } else {
+          const every = parameters.every ?? parameters.interval ?? parameters.period;
+          if (typeof every === 'number') {
+            timing.schedule = { every, offset: parameters.offset };
+          }
+        }
+        break;
+      case 'triggered': {
+        const triggers: string[] = parameters.triggeredBy ?? parameters.triggers ?? generator.dependencies ?? [];
+        if (triggers.length > 0) {
+          timing.triggeredBy = triggers;
+        }
+        break;
+      }
+      case 'conditional': {
+        const states: string[] | undefined = parameters.states ?? parameters.whenStates;
+        if (states && states.length > 0) {
+          timing.whenStates = states;
+        }
+        if (parameters.interArrival) {
+          timing.interArrival = parameters.interArrival;
+        }
+        break;
+      }
+    }
+
+    const cap = generator.constraints.find(c => c.type === 'maxOccurrences' || c.type === 'max_occurrences');
+    if (cap && typeof cap.value === 'number') {
+      timing.maxOccurrences = cap.value;
+    }
+
+    return timing;
+  }
+
+  private generatorDefinition(generator: GeneratorDeclaration): EventGeneratorDefinition {
+    // The reverse of generatorTiming; payload value specs have no place in the design
+    const constraints = generator.maxOccurrences !== undefined
+      ? [{ type: 'maxOccurrences', value: generator.maxOccurrences }]
+      : [];
+    const logic = (type: EventGeneratorDefinition['generationLogic']['type'], parameters: Record<string, any>) =>
+      ({ eventType: generator.event, generationLogic: { type, parameters }, constraints });
+
+    if (generator.whenStates) {
+      return logic('conditional', this.compact({ states: generator.whenStates, interArrival: generator.interArrival }));
+    }
+    if (generator.schedule) {
+      return logic('scheduled', 'cron' in generator.schedule
+        ? { cron: generator.schedule.cron }
+        : this.compact({ every: generator.schedule.every, offset: generator.schedule.offset }));
+    }
+    if (generator.triggeredBy) {
+      return logic('triggered', { triggeredBy: generator.triggeredBy });
+    }
+    return logic('random', this.compact({
+      interArrival: generator.interArrival,
+      rate: generator.rate,
+      probability: generator.weight
+    }));
+  }
+
+  private generatorPayload(eventDesign: EventDesign, eventType: string): Record<string, ValueSpec> | undefined {
+    // Random values of each declared field's type, like the generated mock payloads
+    const fields = eventDesign.eventTypes.find(et => et.name === eventType)?.payload ?? [];
+    if (fields.length === 0) {
+      return undefined;
+    }
+
+    const payload: Record<string, ValueSpec> = {};
+    for (const field of fields) {
+      switch (field.type.toLowerCase()) {
+        case 'string':
+        case 'date':
+        case 'datetime':
+          payload[field.name] = /time|date/i.test(field.name) || field.type.toLowerCase() !== 'string' ? { $now: 0 } : { $id: field.name };
+          break;
+        case 'number':
+        case 'integer':
+        case 'float':
+          payload[field.name] = { $sample: { type: 'uniform', min: 0, max: 100 }, $round: true };
+          break;
+        case 'boolean':
+          payload[field.name] = { $chance: 0.5 };
+          break;
+        case 'object':
+          payload[field.name] = {};
+          break;
+        case 'array':
+          payload[field.name] = [];
+          break;
+        default:
+          payload[field.name] = field.type.endsWith('[]') ? [] : null;
+      }
+    }
+    return payload;
+  }
+
+  private actionEffect(
+    action: HandlerAction,
+    handler: EventHandlerDefinition,
+    eventNames: Set<string>,
+    extendedState: Record<string, ExtendedFieldDeclaration>
+  ): EffectDeclaration {
+    const { parameters } = action;
+    switch (action.type) {
+      case 'updateState': {
+        // Updated properties are declared in extended state on first use
+        const path: unknown = parameters.property ?? parameters.field ?? parameters.path;
+        if (typeof path !== 'string' || path === '') break;
+        const field = path.split('.')[0]!;
+        if (parameters.increment !== undefined) {
+          extendedState[field] ??= { type: 'number' };
+          return { type: 'increment', path, by: parameters.increment };
+        }
+        if (parameters.push !== undefined) {
+          extendedState[field] ??= { type: 'array' };
+          return { type: 'push', path, value: parameters.push };
+        }
+        if (parameters.value !== undefined) {
+          extendedState[field] ??= { type: Array.isArray(parameters.value) ? 'array' : typeof parameters.value };
+          return { type: 'set', path, value: parameters.value };
+        }
+        break;
+      }
+      case 'generateEvent': {
+        const event: unknown = parameters.eventType ?? parameters.event ?? parameters.type;
+        if (typeof event === 'string' && eventNames.has(event)) {
+          return typeof parameters.delay === 'number'
+            ? { type: 'emit', event, delay: parameters.delay }
+            : { type: 'emit', event };
+        }
+        break;
+      }
+      case 'logMessage':
+        return { type: 'log', message: String(parameters.message ?? handler.handlerName) };
+    }
+    // Anything else is kept as a description of what the handler does
+    return { type: 'log', message: `${handler.handlerName}: ${action.type} ${JSON.stringify(parameters)}` };
+  }
+
+  private handlerAction(effect: EffectDeclaration): HandlerAction {
+    switch (effect.type) {
+      case 'set':
+        return { type: 'updateState', parameters: { property: effect.path, value: effect.value } };
+      case 'increment':
+        return { type: 'updateState', parameters: { property: effect.path, increment: effect.by ?? 1 } };
+      case 'push':
+        return { type: 'updateState', parameters: { property: effect.path, push: effect.value } };
+      case 'emit':
+        return { type: 'generateEvent', parameters: this.compact({ eventType: effect.event, delay: effect.delay }) };
+      default:
+        return { type: 'logMessage', parameters: { message: this.describeEffect(effect) } };
+    }
+  }
+
+  private logEffects(actions: string[] | undefined): EffectDeclaration[] | undefined {
+    return actions && actions.length > 0 ? actions.map(action => ({ type: 'log', message: action })) : undefined;
+  }
+
+  private describeEffect(effect: EffectDeclaration): string {
+    // Log effects are what design actions become, so their message is the action
+    switch (effect.type) {
+      case 'log': return typeof effect.message === 'string' ? effect.message : JSON.stringify(effect.message);
+      case 'set': return `set ${effect.path} = ${JSON.stringify(effect.value)}`;
+      case 'increment': return `increment ${effect.path}`;
+      case 'push': return `push ${JSON.stringify(effect.value)} to ${effect.path}`;
+      case 'emit': return `emit ${effect.event}`;
+      case 'transition': return `transition to ${effect.to}`;
+    }
+  }
+
+  private compact<T extends object>(value: T): T {
+    // Leave out unset fields so that written definitions stay short
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+  }
+}
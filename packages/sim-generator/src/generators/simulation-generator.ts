@@ -150,18 +150,18 @@ const simulation = createSimulation<BasicState, BasicEvent>({
     console.log(\`Processing event: \${event.type}\`, event);
   },
   eventGenerators: [
-    // Basic event generators
-    () => ({
-      id: 'evt-' + Math.random().toString(36).substr(2, 9),
+    // Basic event generators, drawing from the run's context so seeded runs repeat
+    ({ ids, clock }) => ({
+      id: ids.next('evt'),
       type: BasicEventType.START,
-      timestamp: new Date().toISOString(),
+      timestamp: clock.nowISO(),
       payload: {}
     }),
-    () => ({
-      id: 'evt-' + Math.random().toString(36).substr(2, 9),
+    ({ random, ids, clock }) => ({
+      id: ids.next('evt'),
       type: BasicEventType.PROCESS,
-      timestamp: new Date().toISOString(),
-      payload: { data: Math.random() }
+      timestamp: clock.nowISO(),
+      payload: { data: random.next() }
     })
   ]
 });
@@ -101,10 +101,10 @@ export class TemplateManager {
  * {{description}}
  */
 
-import { createSimulation } from '@sim-generator/lib';
+import { continueFlows, createSimulation, ErrorAction, MetricsCollector, serveMetrics } from '@sim-generator/lib';
 import type { {{simulationName}}State, {{simulationName}}Event } from './types.js';
-import { {{simulationName}}EventType } from './types.js';
-import { EVENT_GENERATORS } from './event-generators.js';
+import { {{simulationName}}EventType, PAYLOAD_SCHEMAS } from './types.js';
+import { EVENT_FLOWS, EVENT_GENERATORS, FLOW_OPTIONS } from './event-generators.js';
 
 // Create the simulation
 const simulation = createSimulation<{{simulationName}}State, {{simulationName}}Event>({
@@ -114,25 +114,59 @@ const simulation = createSimulation<{{simulationName}}State, {{simulationName}}E
     '{{from}}': [{{#to}}'{{.}}'{{#unless @last}}, {{/unless}}{{/to}}],
     {{/transitions}}
   },
-  handleEvent: (event: {{simulationName}}Event) => {
+  states: {{stateConfig}},
+  transitions: {{transitionRules}},
+  payloadSchemas: PAYLOAD_SCHEMAS,
+  handleEvent: (event: {{simulationName}}Event, emit, context) => {
     console.log(\`Processing event: \${event.type}\`, event);
     // Event handling logic will be generated here
+
+    // Chain the designed event flows with follow-up events
+    continueFlows(EVENT_FLOWS, event, emit, context, FLOW_OPTIONS);
   },
   eventGenerators: EVENT_GENERATORS
 });
 
+// Time in state, transition and event counts, latency and queue depth for every run
+const metrics = new MetricsCollector(simulation.engine);
+
 // Export for use
-export { simulation };
+export { simulation, metrics };
 export * from './types.js';
 export * from './event-generators.js';
 
 // Start simulation if running directly
 if (import.meta.main) {
   console.log('Starting {{simulationName}} simulation...');
+
+  // Expose a Prometheus /metrics endpoint while running when a port is given
+  const metricsServer = process.env.SIM_METRICS_PORT
+    ? serveMetrics(simulation.engine, {
+      port: Number(process.env.SIM_METRICS_PORT),
+      collector: metrics,
+      labels: { simulation: '{{simulationName}}' }
+    })
+    : undefined;
+  // A port already in use only costs the endpoint, not the run
+  metricsServer?.ready
+    .then(() => console.log(\`Metrics available at \${metricsServer.url}\`))
+    .catch(error => console.error(\`Metrics endpoint unavailable, running without it: \${error.message}\`));
+
   simulation.start({ 
     minInterval: 1000, 
     maxInterval: 3000,
-    enableLogging: true
+    finalStates: {{finalStates}},
+    enableLogging: true,
+    // Failing handlers are retried, then kept for inspection instead of being dropped
+    errorPolicy: { action: ErrorAction.Retry, maxRetries: 2, onExhausted: ErrorAction.DeadLetter },
+    onStop: (reason) => {
+      console.log(\`Simulation ended: \${reason}\`);
+      console.log('Metrics:', JSON.stringify(metrics.summary(), null, 2));
+      if (simulation.engine.deadLetters.size > 0) {
+        console.error('Failed events:', JSON.stringify(simulation.engine.deadLetters, null, 2));
+      }
+      metricsServer?.close();
+    }
   });
   
   // Handle graceful shutdown
@@ -147,7 +181,8 @@ if (import.meta.main) {
  * Type definitions for {{simulationName}}
  */
 
-import type { Event } from '@sim-generator/lib';
+import { definePayloadSchemas, z } from '@sim-generator/lib';
+import type { SchemaEvent } from '@sim-generator/lib';
 
 // State type
 export type {{simulationName}}State = {{#states}}'{{name}}'{{#unless @last}} | {{/unless}}{{/states}};
@@ -159,34 +194,61 @@ export enum {{simulationName}}EventType {
   {{/eventTypes}}
 }
 
-// Event interface
-export interface {{simulationName}}Event extends Event<{{simulationName}}EventType> {
-  // Additional event properties can be added here
-}`,
+// Payload schema of each event type, checked when events are queued and processed
+export const PAYLOAD_SCHEMAS = definePayloadSchemas({
+  {{#eventTypes}}
+  [{{simulationName}}EventType.{{name}}]: {{schema}},
+  {{/eventTypes}}
+});
+
+// Event union, with payload types inferred from the schemas
+export type {{simulationName}}Event = SchemaEvent<typeof PAYLOAD_SCHEMAS>;`,
 
       'src/event-generators.ts': `/**
  * Event generators for {{simulationName}}
  */
 
-import type { EventGenerator } from '@sim-generator/lib';
+import { EventPriority, pick } from '@sim-generator/lib';
+import type { EventFlow, EventOfType, FlowOptions, GeneratorRegistration, SimulationContext } from '@sim-generator/lib';
 import type { {{simulationName}}Event } from './types.js';
 import { {{simulationName}}EventType } from './types.js';
 
-export const EVENT_GENERATORS: EventGenerator<{{simulationName}}Event>[] = [
-  {{#eventGenerators}}
-  // {{name}} generator
-  () => ({
-    id: 'evt-' + Math.random().toString(36).substr(2, 9),
-    type: {{simulationName}}EventType.{{type}},
-    timestamp: new Date().toISOString(),
-    payload: {
-      {{#payload}}
-      {{name}}: {{value}},
-      {{/payload}}
-    }
+// Payload of each event type; draws only the payload's own values
+export const PAYLOAD_FACTORIES: {
+  [TType in {{simulationName}}Event['type']]: (context: SimulationContext) => EventOfType<{{simulationName}}Event, TType>['payload']
+} = {
+  {{#eventTypes}}
+  [{{simulationName}}EventType.{{name}}]: ({ random, ids, clock }) => ({
+    {{#payload}}
+    {{name}}: {{value}},
+    {{/payload}}
   }),
+  {{/eventTypes}}
+};
+
+export const EVENT_GENERATORS: GeneratorRegistration<{{simulationName}}Event>[] = [
+  {{#eventGenerators}}
+  // {{name}} generator ({{logic}})
+  {
+    name: '{{name}}',
+    {{timing}}generate: context => ({
+      id: context.ids.next('evt'),
+      type: {{simulationName}}EventType.{{type}},
+      timestamp: context.clock.nowISO(),
+      priority: {{priority}},
+      payload: PAYLOAD_FACTORIES[{{simulationName}}EventType.{{type}}](context)
+    })
+  },
   {{/eventGenerators}}
-];`,
+];
+
+// Event flows from the design: each step is followed by one of its next steps
+export const EVENT_FLOWS: EventFlow<{{simulationName}}Event>[] = {{eventFlows}};
+
+// Follow-up events get their payload from the factories, without using up event IDs
+export const FLOW_OPTIONS: FlowOptions<{{simulationName}}Event> = {
+  payload: (type, context) => PAYLOAD_FACTORIES[type](context)
+};`,
 
       'tsconfig.json': JSON.stringify({
         extends: '../../tsconfig.json',
@@ -202,6 +264,12 @@ export const EVENT_GENERATORS: EventGenerator<{{simulationName}}Event>[] = [
 
 {{description}}
 
+## State Diagram
+
+\`\`\`mermaid
+{{stateDiagram}}
+\`\`\`
+
 ## Installation
 
 \`\`\`bash
@@ -0,0 +1,95 @@
+import { describe, expect, test } from 'bun:test';
+import { CodeGenerator } from '../src/agents/code-generator.js';
+import { TemplateManager } from '../src/templates/template-manager.js';
+import { ComplexityLevel, EventCategory, EventFrequency, EventPriority, StateType, SystemType } from '../src/agents/types.js';
+import type { CodeGenerationRequest, EventTypeDefinition } from '../src/agents/types.js';
+
+const eventType = (name: string): EventTypeDefinition => ({
+  name,
+  description: name,
+  category: EventCategory.SYSTEM,
+  payload: [{ name: 'amount', type: 'number' }],
+  frequency: EventFrequency.OCCASIONAL,
+  priority: EventPriority.MEDIUM,
+  triggers: []
+});
+
+const request = async (): Promise<CodeGenerationRequest> => ({
+  analysis: {
+    entities: [],
+    processes: [],
+    relationships: [],
+    constraints: [],
+    systemType: SystemType.WORKFLOW,
+    complexity: ComplexityLevel.SIMPLE,
+    recommendedTemplate: 'generic'
+  },
+  stateDesign: {
+    initialState: 'Open',
+    finalStates: ['Done'],
+    states: [
+      { name: 'Open', description: 'Open', type: StateType.INITIAL, properties: [] },
+      { name: 'Working', description: 'Working', type: StateType.PROCESSING, properties: [], entryActions: ['start timer'] },
+      { name: 'Done', description: 'Done', type: StateType.FINAL, properties: [] }
+    ],
+    transitions: [
+      { from: 'Open', to: 'Working', trigger: 'Started' },
+      { from: 'Working', to: 'Open', trigger: 'Paused' },
+      { from: 'Working', to: 'Done', trigger: 'Finished', conditions: ['work is checked'], actions: ['send invoice'] }
+    ]
+  },
+  eventDesign: {
+    eventTypes: [eventType('Started'), eventType('Paused'), eventType('Finished')],
+    eventGenerators: [
+      { eventType: 'Started', generationLogic: { type: 'random', parameters: { rate: 0.001 } }, constraints: [] },
+      { eventType: 'Finished', generationLogic: { type: 'triggered', parameters: { triggeredBy: ['Started'] } }, constraints: [] }
+    ],
+    eventHandlers: [],
+    eventFlows: [{
+      name: 'work',
+      description: 'Started work is paused or finished',
+      startEvent: 'Started',
+      endEvent: 'Finished',
+      steps: [{ eventType: 'Started', nextSteps: ['Paused', 'Finished'] }]
+    }]
+  },
+  simulationName: 'Jobs',
+  template: await new TemplateManager().getTemplate('generic'),
+  config: {}
+});
+
+const file = async (path: string) => {
+  const { files } = await new CodeGenerator().generate(await request());
+  return files.find(f => f.path === path)?.content ?? '';
+};
+
+describe('CodeGenerator', () => {
+  test('allows every target of a state in one entry', async () => {
+    expect(await file('src/index.ts')).toContain("'Working': ['Open', 'Done'],");
+  });
+
+  test('leaves designed conditions and actions as notes', async () => {
+    const main = await file('src/index.ts');
+
+    expect(main).toContain([
+      '      // Guards to implement: work is checked',
+      '      // Actions to implement: send invoice',
+      "      from: 'Working',"
+    ].join('\n'));
+    expect(main).toContain('    // Working entry actions to implement: start timer\n');
+    expect(main).not.toContain('guards:');
+    expect(main).not.toContain('actions:');
+    expect(main).not.toContain('onEntry:');
+  });
+
+  test('builds payloads without drawing event IDs', async () => {
+    const generators = await file('src/event-generators.ts');
+
+    expect(generators).toContain('payload: PAYLOAD_FACTORIES[JobsEventType.STARTED](context)');
+    expect(generators).toContain('payload: (type, context) => PAYLOAD_FACTORIES[type](context)');
+  });
+
+  test('leaves follow-ups that a generator is triggered by out of flows', async () => {
+    expect(await file('src/event-generators.ts')).toContain('[JobsEventType.STARTED]: [JobsEventType.PAUSED]\n');
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, test } from 'bun:test';
+import { StopReason, loadSimulation, parseSimulationDefinition, stringifySimulationDefinition } from '@sim-generator/lib';
+import { DefinitionConverter } from '../src/generators/definition-converter.js';
+import { EventCategory, EventFrequency, EventPriority, StateType } from '../src/agents/types.js';
+import type { EventDesign, StateDesign } from '../src/agents/types.js';
+
+const stateDesign: StateDesign = {
+  initialState: 'Intake',
+  finalStates: ['Approved', 'Rejected'],
+  states: [
+    { name: 'Intake', description: 'Application received', type: StateType.INITIAL, properties: [] },
+    { name: 'Review', description: 'Under review', type: StateType.PROCESSING, properties: [], entryActions: ['assign reviewer'] },
+    { name: 'Approved', description: 'Approved', type: StateType.FINAL, properties: [] },
+    { name: 'Rejected', description: 'Rejected', type: StateType.FINAL, properties: [] }
+  ],
+  transitions: [
+    { from: 'Intake', to: 'Review', trigger: 'Submitted', actions: ['notify reviewer'] },
+    { from: 'Review', to: 'Approved', trigger: 'Decided', conditions: ['isComplete()'], probability: 0.7 },
+    { from: 'Review', to: 'Rejected', trigger: 'Decided' },
+    { from: 'Review', to: 'Intake', trigger: 'documents missing' }
+  ],
+  stateGroups: [{ name: 'Decision', states: ['Approved', 'Rejected'], description: 'Outcomes' }]
+};
+
+const eventDesign: EventDesign = {
+  eventTypes: [
+    {
+      name: 'Submitted',
+      description: 'An application comes in',
+      category: EventCategory.USER_ACTION,
+      payload: [{ name: 'applicant', type: 'string' }, { name: 'amount', type: 'number' }],
+      frequency: EventFrequency.OCCASIONAL,
+      priority: EventPriority.HIGH,
+      triggers: []
+    },
+    {
+      name: 'Decided',
+      description: 'The reviewer decides',
+      category: EventCategory.SYSTEM,
+      payload: [],
+      frequency: EventFrequency.OCCASIONAL,
+      priority: EventPriority.MEDIUM,
+      triggers: []
+    }
+  ],
+  eventGenerators: [
+    { eventType: 'Submitted', generationLogic: { type: 'random', parameters: { rate: 0.001 } }, constraints: [{ type: 'maxOccurrences', value: 1 }] },
+    { eventType: 'Decided', generationLogic: { type: 'triggered', parameters: { triggeredBy: ['Submitted'] } }, constraints: [] }
+  ],
+  eventHandlers: [{
+    eventType: 'Submitted',
+    handlerName: 'handleSubmitted',
+    actions: [
+      { type: 'updateState', parameters: { property: 'submissions', increment: 1 } },
+      { type: 'logMessage', parameters: { message: 'application submitted' } }
+    ],
+    stateTransitions: ['Intake -> Review']
+  }],
+  eventFlows: [{
+    name: 'decision',
+    description: 'From submission to decision',
+    startEvent: 'Submitted',
+    endEvent: 'Decided',
+    steps: [{ eventType: 'Submitted', nextSteps: ['Decided'] }]
+  }]
+};
+
+describe('DefinitionConverter', () => {
+  const converter = new DefinitionConverter();
+  const definition = converter.toDefinition('applications', stateDesign, eventDesign);
+
+  test('writes definitions that validate and survive YAML', () => {
+    expect(parseSimulationDefinition(stringifySimulationDefinition(definition))).toEqual(definition);
+  });
+
+  test('round trips designs through definitions', () => {
+    const { stateDesign: states, eventDesign: events } = converter.toDesign(definition);
+
+    expect(converter.toDefinition('applications', states, events)).toEqual(definition);
+    expect<unknown>(states.stateGroups).toEqual(stateDesign.stateGroups);
+    expect(states.transitions).toEqual(stateDesign.transitions);
+  });
+
+  test('maps groups, guards, handlers and generators', () => {
+    expect(definition.states.find(state => state.name === 'Decision')).toEqual({ name: 'Decision', description: 'Outcomes' });
+    expect(definition.transitions?.[1]?.guards).toEqual([{ name: 'isComplete()', path: 'extendedState.isComplete' }]);
+    expect(definition.transitions?.[3]).toEqual({ from: 'Review', to: 'Intake', description: 'documents missing' });
+    expect(definition.extendedState).toEqual({ isComplete: { type: 'boolean', initial: true }, submissions: { type: 'number' } });
+    expect(definition.handlers?.[0]?.effects).toEqual([
+      { type: 'increment', path: 'submissions', by: 1 },
+      { type: 'log', message: 'application submitted' },
+      { type: 'transition', to: 'Review' }
+    ]);
+    expect(definition.generators?.map(generator => [generator.event, generator.rate, generator.triggeredBy])).toEqual([
+      ['Submitted', 0.001, undefined],
+      ['Decided', undefined, ['Submitted']]
+    ]);
+  });
+
+  test('enters groups only at the member the design names', () => {
+    const named = { ...stateDesign, stateGroups: [{ name: 'Decision', states: ['Approved', 'Rejected'], description: 'Outcomes', initial: 'Rejected' }] };
+    const { stateDesign: states } = converter.toDesign(converter.toDefinition('applications', named, eventDesign));
+
+    expect(converter.createStateHierarchy(named).Decision).toEqual({ initial: 'Rejected' });
+    expect(states.stateGroups).toEqual(named.stateGroups);
+  });
+
+  test('leaves follow-ups that a generator is triggered by out of flows', () => {
+    const flows = converter.toDefinition('applications', stateDesign, {
+      ...eventDesign,
+      eventFlows: [{
+        name: 'resubmission',
+        description: '',
+        startEvent: 'Decided',
+        endEvent: 'Submitted',
+        steps: [{ eventType: 'Decided', nextSteps: ['Submitted'] }, { eventType: 'Submitted', nextSteps: ['Decided'] }]
+      }]
+    }).flows;
+
+    expect(definition.flows).toEqual([]);
+    expect(flows).toEqual([{ name: 'resubmission', startEvent: 'Decided', endEvent: 'Submitted', steps: { Decided: ['Submitted'] } }]);
+  });
+
+  test('writes definitions that run', () => {
+    const simulation = loadSimulation(definition);
+    const stats = simulation.run({ seed: 3, maxEvents: 50 });
+
+    expect(stats.stopReason).toBe(StopReason.FinalState);
+    expect(['Decision.Approved', 'Decision.Rejected']).toContain(simulation.stateMachine.currentState);
+    expect(simulation.stateMachine.extendedState.submissions).toBe(1);
+  });
+});